@@ -3,7 +3,9 @@ import {
   LANGFUSE_SDK_VERSION,
   getGlobalLogger,
   getEnv,
+  LangfuseRetryQueue,
 } from "@langfuse/core";
+import { getLangfuseScoreSink, setLangfuseScoreSink } from "@langfuse/tracing";
 
 import { DatasetManager } from "./dataset/index.js";
 import { ExperimentManager } from "./experiment/ExperimentManager.js";
@@ -51,6 +53,13 @@ export interface LangfuseClientParams {
    * Additional HTTP headers to include with API requests.
    */
   additionalHeaders?: Record<string, string>;
+
+  /**
+   * Durable queue for score batches that fail to be ingested, e.g. while
+   * Langfuse is unreachable. Pass the same queue as to the
+   * `LangfuseSpanProcessor` to retry spans and scores from one directory.
+   */
+  retryQueue?: LangfuseRetryQueue;
 }
 
 /**
@@ -112,6 +121,10 @@ export class LangfuseClient {
 
   /**
    * Manager for score creation and batch processing.
+   *
+   * The first client created registers this manager as the sink for
+   * `observation.score()` and `observation.scoreTrace()` of `@langfuse/tracing`,
+   * until the client is shut down.
    */
   public score: ScoreManager;
 
@@ -314,7 +327,13 @@ export class LangfuseClient {
 
     this.prompt = new PromptManager({ apiClient: this.api });
     this.dataset = new DatasetManager({ langfuseClient: this });
-    this.score = new ScoreManager({ apiClient: this.api });
+    this.score = new ScoreManager({
+      apiClient: this.api,
+      retryQueue: params?.retryQueue,
+    });
+    if (!getLangfuseScoreSink()) {
+      setLangfuseScoreSink(this.score);
+    }
     this.media = new MediaManager({ apiClient: this.api });
     this.experiment = new ExperimentManager({ langfuseClient: this });
 
@@ -363,7 +382,9 @@ export class LangfuseClient {
    * Gracefully shuts down the client by flushing all pending data.
    *
    * This method should be called before your application exits to ensure
-   * all data is sent to Langfuse.
+   * all data is sent to Langfuse. To shut down all Langfuse components at
+   * once, including span processors, use `shutdownLangfuse` from
+   * `@langfuse/core`.
    *
    * @returns Promise that resolves when shutdown is complete
    *
@@ -374,7 +395,7 @@ export class LangfuseClient {
    * ```
    */
   public async shutdown() {
-    return this.score.shutdown();
+    await Promise.all([this.score.shutdown(), this.prompt.shutdown()]);
   }
 
   /**
@@ -75,6 +75,10 @@ export class LangfusePromptCache {
       });
   }
 
+  public async waitForRefreshes(): Promise<void> {
+    await Promise.all(this._refreshingKeys.values());
+  }
+
   public isRefreshing(key: string): boolean {
     return this._refreshingKeys.has(key);
   }
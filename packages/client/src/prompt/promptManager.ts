@@ -7,6 +7,7 @@ import {
   CreateTextPromptRequest,
   CreateChatPromptRequest,
   PlaceholderMessage,
+  registerLangfuseShutdownHandler,
 } from "@langfuse/core";
 
 import { LangfusePromptCache } from "./promptCache.js";
@@ -32,6 +33,7 @@ import {
 export class PromptManager {
   private cache: LangfusePromptCache;
   private apiClient: LangfuseAPIClient;
+  private unregisterShutdownHandler: () => void;
 
   /**
    * Creates a new PromptManager instance.
@@ -44,12 +46,27 @@ export class PromptManager {
 
     this.apiClient = apiClient;
     this.cache = new LangfusePromptCache();
+    this.unregisterShutdownHandler = registerLangfuseShutdownHandler(
+      "prompt cache refreshes",
+      this,
+      shutdownPromptManager,
+    );
   }
 
   get logger() {
     return getGlobalLogger();
   }
 
+  /**
+   * Waits for background refreshes of expired cached prompts to complete.
+   *
+   * @returns Promise that resolves when all pending refreshes have settled
+   */
+  async shutdown(): Promise<void> {
+    this.unregisterShutdownHandler();
+    await this.cache.waitForRefreshes();
+  }
+
   /**
    * Creates a new prompt in Langfuse.
    *
@@ -460,3 +477,8 @@ export class PromptManager {
     }
   }
 }
+
+// Defined outside the class to not capture the manager, see LangfuseShutdownHandler
+function shutdownPromptManager(promptManager: PromptManager): Promise<void> {
+  return promptManager.shutdown();
+}
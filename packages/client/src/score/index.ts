@@ -8,11 +8,19 @@ import {
   LogLevel,
   safeSetTimeout,
   IngestionResponse,
+  LangfuseRetryQueue,
+  registerLangfuseShutdownHandler,
+  LangfuseAPIError,
+  LangfuseNonRetryableError,
+  LangfuseRetryQueueSender,
+  isRetryableStatus,
 } from "@langfuse/core";
+import { getLangfuseScoreSink, setLangfuseScoreSink } from "@langfuse/tracing";
 import { Span, trace } from "@opentelemetry/api";
 
 const MAX_QUEUE_SIZE = 100_000; // prevent memory leaks
 const MAX_BATCH_SIZE = 100;
+const RETRY_QUEUE_SCORES_KIND = "scores";
 
 /**
  * Manager for creating and batching score events in Langfuse.
@@ -30,15 +38,25 @@ export class ScoreManager {
   private flushTimer: any = null;
   private flushAtCount: number;
   private flushIntervalSeconds: number;
+  private retryQueue?: LangfuseRetryQueue;
+  private unregisterShutdownHandler: () => void;
 
   /**
    * Creates a new ScoreManager instance.
    *
-   * @param params - Configuration object containing the API client
+   * @param params - Configuration object containing the API client and an optional retry queue for failed batches
    * @internal
    */
-  constructor(params: { apiClient: LangfuseAPIClient }) {
+  constructor(params: {
+    apiClient: LangfuseAPIClient;
+    retryQueue?: LangfuseRetryQueue;
+  }) {
     this.apiClient = params.apiClient;
+    this.retryQueue = params.retryQueue;
+    this.retryQueue?.register(
+      RETRY_QUEUE_SCORES_KIND,
+      createScoreBatchSender(this.apiClient),
+    );
 
     const envFlushAtCount = getEnv("LANGFUSE_FLUSH_AT");
     const envFlushIntervalSeconds = getEnv("LANGFUSE_FLUSH_INTERVAL");
@@ -47,6 +65,12 @@ export class ScoreManager {
     this.flushIntervalSeconds = envFlushIntervalSeconds
       ? Number(envFlushIntervalSeconds)
       : 1;
+
+    this.unregisterShutdownHandler = registerLangfuseShutdownHandler(
+      "score queue",
+      this,
+      shutdownScoreManager,
+    );
   }
 
   get logger() {
@@ -282,16 +306,28 @@ export class ScoreManager {
         const batch = this.eventQueue.splice(0, MAX_BATCH_SIZE);
 
         promises.push(
-          this.apiClient.ingestion
-            .batch({ batch })
-            .then((res) => {
-              if (res.errors?.length > 0) {
-                this.logger.error("Error ingesting scores:", res.errors);
-              }
-            })
-            .catch((err) => {
+          ingestScoreBatch(this.apiClient, batch).catch((err) => {
+            // Batches rejected as malformed or unauthorized would fail again
+            if (!this.retryQueue || !isRetryableError(err)) {
               this.logger.error("Failed to export score batch:", err);
-            }),
+
+              return;
+            }
+
+            this.logger.warn(
+              "Failed to export score batch. Queuing it for retry.",
+              err,
+            );
+
+            return this.retryQueue
+              .enqueue(RETRY_QUEUE_SCORES_KIND, JSON.stringify(batch))
+              .catch((queueErr) => {
+                this.logger.error(
+                  "Failed to queue score batch for retry:",
+                  queueErr,
+                );
+              });
+          }),
         );
       }
 
@@ -336,6 +372,51 @@ export class ScoreManager {
    * ```
    */
   public async shutdown() {
+    this.unregisterShutdownHandler();
+    // Lets clients created later receive observation scores
+    if (getLangfuseScoreSink() === this) {
+      setLangfuseScoreSink(null);
+    }
+
     await this.flush();
   }
 }
+
+// Defined outside the class to not capture the manager, see LangfuseShutdownHandler
+function shutdownScoreManager(scoreManager: ScoreManager): Promise<void> {
+  return scoreManager.shutdown();
+}
+
+async function ingestScoreBatch(
+  apiClient: LangfuseAPIClient,
+  batch: IngestionEvent[],
+): Promise<void> {
+  const res = await apiClient.ingestion.batch({ batch });
+
+  if (res.errors?.length > 0) {
+    getGlobalLogger().error("Error ingesting scores:", res.errors);
+  }
+}
+
+// Defined outside the class to not capture the manager, see LangfuseShutdownHandler
+function createScoreBatchSender(
+  apiClient: LangfuseAPIClient,
+): LangfuseRetryQueueSender {
+  return async (payload) => {
+    try {
+      await ingestScoreBatch(apiClient, JSON.parse(payload));
+    } catch (err) {
+      throw isRetryableError(err)
+        ? err
+        : new LangfuseNonRetryableError(`Failed to export score batch: ${err}`);
+    }
+  };
+}
+
+function isRetryableError(err: unknown): boolean {
+  return !(
+    err instanceof LangfuseAPIError &&
+    err.statusCode !== undefined &&
+    !isRetryableStatus(err.statusCode)
+  );
+}
@@ -43,6 +43,11 @@ export enum LangfuseOtelSpanAttributes {
   // Internal
   AS_ROOT = "langfuse.internal.as_root",
   IS_APP_ROOT = "langfuse.internal.is_app_root",
+  TRUNCATION_LIMITS = "langfuse.internal.truncation_limits",
+
+  // Sampling
+  SAMPLING_RATE = "langfuse.sampling.rate",
+  SAMPLING_DECISION = "langfuse.sampling.decision",
 
   // Experiment attributes
   EXPERIMENT_ID = "langfuse.experiment.id",
@@ -11,3 +11,6 @@ export * from "./types.js";
 export * from "./media.js";
 export * from "./mediaUpload.js";
 export * from "./propagation.js";
+export * from "./serializer.js";
+export * from "./retryQueue.js";
+export * from "./shutdown.js";
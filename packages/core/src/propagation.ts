@@ -147,6 +147,109 @@ export type PropagatedPromptInput = {
   isFallback?: boolean;
 };
 
+/**
+ * How {@link propagateAttributes} handles invalid attribute values.
+ *
+ * - **warn**: drops invalid values and logs a warning (default)
+ * - **throw**: throws a {@link PropagateAttributesValidationError} before
+ *   running the callback
+ * - **coerce**: truncates overlong strings, stringifies number and boolean
+ *   values, and lowercases environments. Values that cannot be coerced are
+ *   dropped with a warning
+ *
+ * @public
+ */
+export type PropagateAttributesValidationMode = "warn" | "throw" | "coerce";
+
+/**
+ * An invalid attribute value passed to {@link propagateAttributes}.
+ *
+ * @public
+ */
+export type PropagateAttributesValidationIssue = {
+  /** Attribute name, e.g. `userId`, `metadata.plan`, `tag` or `prompt` */
+  attribute: string;
+  /** Description of the problem */
+  message: string;
+  /** The invalid value */
+  value: unknown;
+  /** Whether the value was dropped or replaced by a coerced value */
+  action: "dropped" | "coerced";
+  /** The propagated value, if coerced */
+  coercedValue?: string;
+};
+
+/**
+ * Global validation settings of {@link propagateAttributes}.
+ *
+ * @public
+ */
+export type PropagateAttributesValidationConfig = {
+  /** Default validation mode of all calls. Default is `warn` */
+  mode?: PropagateAttributesValidationMode;
+  /**
+   * Called once per `propagateAttributes` call with invalid values, e.g. to
+   * fail tests on misconfigured call sites. Called before throwing in
+   * `throw` mode.
+   */
+  onReport?: (report: {
+    mode: PropagateAttributesValidationMode;
+    issues: PropagateAttributesValidationIssue[];
+  }) => void;
+};
+
+/**
+ * Thrown by {@link propagateAttributes} in `throw` validation mode if any
+ * attribute value is invalid.
+ *
+ * @public
+ */
+export class PropagateAttributesValidationError extends Error {
+  public readonly issues: PropagateAttributesValidationIssue[];
+
+  constructor(issues: PropagateAttributesValidationIssue[]) {
+    super(
+      `Invalid propagated attributes: ${issues.map(({ message }) => message).join(" ")}`,
+    );
+    this.name = "PropagateAttributesValidationError";
+    this.issues = issues;
+  }
+}
+
+let validationConfig: PropagateAttributesValidationConfig = {};
+
+/**
+ * Configures the validation of {@link propagateAttributes} values for all
+ * calls. Replaces the previous configuration.
+ *
+ * @param config - Default validation mode and report callback
+ *
+ * @example
+ * ```typescript
+ * import { configurePropagateAttributesValidation } from '@langfuse/core';
+ *
+ * // In test setup: fail on call sites that would lose attributes
+ * configurePropagateAttributesValidation({ mode: 'throw' });
+ * ```
+ *
+ * @public
+ */
+export function configurePropagateAttributesValidation(
+  config: PropagateAttributesValidationConfig,
+): void {
+  validationConfig = { ...config };
+}
+
+/**
+ * Restores the default validation of {@link propagateAttributes}, which
+ * drops invalid values with a warning.
+ *
+ * @public
+ */
+export function resetPropagateAttributesValidation(): void {
+  validationConfig = {};
+}
+
 /**
  * Parameters for propagateAttributes function.
  *
@@ -233,6 +336,14 @@ export interface PropagateAttributesParams {
    */
   asBaggage?: boolean;
 
+  /**
+   * How to handle invalid attribute values. Overrides the mode configured via
+   * {@link configurePropagateAttributesValidation}.
+   *
+   * @defaultValue "warn"
+   */
+  validation?: PropagateAttributesValidationMode;
+
   /**
    * **INTERNAL USE ONLY** - For Langfuse experiment framework.
    *
@@ -261,6 +372,9 @@ export interface PropagateAttributesParams {
  * filtering by sessionId) only include observations that have the attribute set.
  * If you call `propagateAttributes` late in your workflow, earlier spans won't be
  * included in aggregations for that attribute.
+ * If values are only known later, e.g. the user after authentication, enable
+ * `backfillTraceAttributes` on the `LangfuseSpanProcessor` to copy them onto the
+ * earlier spans of the trace.
  *
  * @param params - Configuration for attributes to propagate
  * @param fn - Callback function (sync or async) within which attributes are propagated
@@ -362,7 +476,8 @@ export interface PropagateAttributesParams {
  * - **Validation**: Attribute values (userId, sessionId, metadata values) must be
  *   strings ≤200 characters. Environment must be a lowercase alphanumeric string
  *   with optional hyphens or underscores, must be ≤40 characters, and must not start
- *   with `langfuse`. Invalid values will be dropped with a warning logged.
+ *   with `langfuse`. Invalid values will be dropped with a warning logged,
+ *   unless a different `validation` mode is set.
  * - **OpenTelemetry**: This uses OpenTelemetry context propagation under the hood,
  *   making it compatible with other OTel-instrumented libraries.
  * - **Baggage Security**: When `asBaggage=true`, attribute values are added to HTTP
@@ -392,151 +507,130 @@ export function propagateAttributes<
     _internalExperiment,
   } = params;
 
-  // Validate and set userId
-  if (userId) {
-    if (isValidPropagatedString({ value: userId, attributeName: "userId" })) {
-      context = setPropagatedAttribute({
-        key: "userId",
-        value: userId,
-        context,
-        span,
-        asBaggage,
-      });
-    }
-  }
+  // Validate all values first, so that nothing is set if validation throws
+  const validator = new PropagatedAttributesValidator(
+    params.validation ?? validationConfig.mode ?? "warn",
+  );
 
-  // Validate and set sessionId
-  if (sessionId) {
-    if (
-      isValidPropagatedString({
-        value: sessionId,
-        attributeName: "sessionId",
-      })
-    ) {
-      context = setPropagatedAttribute({
-        key: "sessionId",
-        value: sessionId,
-        context,
-        span,
-        asBaggage,
-      });
-    }
+  const validUserId = userId
+    ? validator.validateString(userId, "userId")
+    : undefined;
+  const validSessionId = sessionId
+    ? validator.validateString(sessionId, "sessionId")
+    : undefined;
+  const validVersion = version
+    ? validator.validateString(version, "version")
+    : undefined;
+  const validTraceName = traceName
+    ? validator.validateString(traceName, "traceName")
+    : undefined;
+  const validEnvironment =
+    environment !== undefined
+      ? validator.validateEnvironment(environment)
+      : undefined;
+  const validTags = (tags ?? []).flatMap(
+    (tag) => validator.validateString(tag, "tag") ?? [],
+  );
+
+  // Filter metadata to only include valid string values
+  const validMetadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    const validValue = validator.validateString(value, `metadata.${key}`);
+
+    if (validValue !== undefined) validMetadata[key] = validValue;
   }
 
-  // Validate and set version
-  if (version) {
-    if (
-      isValidPropagatedString({
-        value: version,
-        attributeName: "version",
-      })
-    ) {
-      context = setPropagatedAttribute({
-        key: "version",
-        value: version,
-        context,
-        span,
-        asBaggage,
-      });
-    }
+  const propagatedPrompt = prompt
+    ? extractPropagatedPrompt(prompt, validator)
+    : null;
+
+  validator.complete();
+
+  if (validUserId !== undefined) {
+    context = setPropagatedAttribute({
+      key: "userId",
+      value: validUserId,
+      context,
+      span,
+      asBaggage,
+    });
   }
 
-  // Validate and set traceName
-  if (traceName) {
-    if (
-      isValidPropagatedString({
-        value: traceName,
-        attributeName: "traceName",
-      })
-    ) {
-      context = setPropagatedAttribute({
-        key: "traceName",
-        value: traceName,
-        context,
-        span,
-        asBaggage,
-      });
-    }
+  if (validSessionId !== undefined) {
+    context = setPropagatedAttribute({
+      key: "sessionId",
+      value: validSessionId,
+      context,
+      span,
+      asBaggage,
+    });
   }
 
-  // Validate and set environment
-  if (environment !== undefined && isValidEnvironment(environment)) {
+  if (validVersion !== undefined) {
     context = setPropagatedAttribute({
-      key: "environment",
-      value: environment,
+      key: "version",
+      value: validVersion,
       context,
       span,
       asBaggage,
     });
   }
 
-  // Validate and set tags
-  if (tags && tags.length > 0) {
-    const validTags = tags.filter((tag) =>
-      isValidPropagatedString({
-        value: tag,
-        attributeName: "tag",
-      }),
-    );
+  if (validTraceName !== undefined) {
+    context = setPropagatedAttribute({
+      key: "traceName",
+      value: validTraceName,
+      context,
+      span,
+      asBaggage,
+    });
+  }
 
-    if (validTags.length > 0) {
-      context = setPropagatedAttribute({
-        key: "tags",
-        value: validTags,
-        context,
-        span,
-        asBaggage,
-      });
-    }
+  if (validEnvironment !== undefined) {
+    context = setPropagatedAttribute({
+      key: "environment",
+      value: validEnvironment,
+      context,
+      span,
+      asBaggage,
+    });
   }
 
-  // Validate and set metadata
-  if (metadata) {
-    // Filter metadata to only include valid string values
-    const validatedMetadata: Record<string, string> = {};
-
-    for (const [key, value] of Object.entries(metadata)) {
-      if (
-        isValidPropagatedString({
-          value: value,
-          attributeName: `metadata.${key}`,
-        })
-      ) {
-        validatedMetadata[key] = value;
-      }
-    }
+  if (validTags.length > 0) {
+    context = setPropagatedAttribute({
+      key: "tags",
+      value: validTags,
+      context,
+      span,
+      asBaggage,
+    });
+  }
 
-    if (Object.keys(validatedMetadata).length > 0) {
-      context = setPropagatedAttribute({
-        key: "metadata",
-        value: validatedMetadata,
-        context,
-        span,
-        asBaggage,
-      });
-    }
+  if (Object.keys(validMetadata).length > 0) {
+    context = setPropagatedAttribute({
+      key: "metadata",
+      value: validMetadata,
+      context,
+      span,
+      asBaggage,
+    });
   }
 
-  // Validate and set prompt
-  if (prompt) {
-    const propagatedPrompt = extractPropagatedPrompt(prompt);
-
-    if (propagatedPrompt) {
-      context = setPropagatedAttribute({
-        key: "promptName",
-        value: propagatedPrompt.name,
-        context,
-        span,
-        asBaggage,
-      });
-      context = setPropagatedAttribute({
-        key: "promptVersion",
-        value: propagatedPrompt.version,
-        context,
-        span,
-        asBaggage,
-      });
-    }
+  if (propagatedPrompt) {
+    context = setPropagatedAttribute({
+      key: "promptName",
+      value: propagatedPrompt.name,
+      context,
+      span,
+      asBaggage,
+    });
+    context = setPropagatedAttribute({
+      key: "promptVersion",
+      value: propagatedPrompt.version,
+      context,
+      span,
+      asBaggage,
+    });
   }
 
   // Handle experiment attributes
@@ -569,12 +663,12 @@ export function propagateAttributes<
  */
 function extractPropagatedPrompt(
   prompt: PropagatedPromptInput,
+  validator: PropagatedAttributesValidator,
 ): { name: string; version: number } | null {
-  const logger = getGlobalLogger();
   const { name, version: rawVersion, isFallback } = prompt;
 
   if (isFallback) {
-    logger.debug(
+    getGlobalLogger().debug(
       "Propagated prompt is a fallback prompt. Skipping prompt linking.",
     );
 
@@ -582,8 +676,11 @@ function extractPropagatedPrompt(
   }
 
   if (typeof name !== "string" || name.length === 0) {
-    logger.warn(
-      "Propagated 'prompt' has no valid 'name' (non-empty string required). Dropping prompt link.",
+    validator.drop(
+      "prompt",
+      "Propagated 'prompt' has no valid 'name' (non-empty string required).",
+      prompt,
+      "Dropping prompt link.",
     );
 
     return null;
@@ -595,8 +692,11 @@ function extractPropagatedPrompt(
       : rawVersion;
 
   if (typeof version !== "number" || !Number.isInteger(version)) {
-    logger.warn(
-      "Propagated 'prompt' has no valid 'version' (integer required). Dropping prompt link.",
+    validator.drop(
+      "prompt",
+      "Propagated 'prompt' has no valid 'version' (integer required).",
+      prompt,
+      "Dropping prompt link.",
     );
 
     return null;
@@ -865,32 +965,153 @@ function getContextMergedMetadata(
   }
 }
 
-function isValidPropagatedString(params: {
-  value: string;
-  attributeName: string;
-}): boolean {
-  const logger = getGlobalLogger();
-  const { value, attributeName } = params;
+const MAX_PROPAGATED_STRING_LENGTH = 200;
+const MAX_ENVIRONMENT_LENGTH = 40;
+const ENVIRONMENT_VALUE_PATTERN = /^(?!langfuse)[a-z0-9_-]+$/;
 
-  if (typeof value !== "string") {
-    logger.warn(
-      `Propagated attribute '${attributeName}' must be a string. Dropping value.`,
-    );
-    return false;
+/**
+ * Validates the values of a single {@link propagateAttributes} call according
+ * to the validation mode and collects the issues found.
+ *
+ * @internal
+ */
+class PropagatedAttributesValidator {
+  private issues: PropagateAttributesValidationIssue[] = [];
+
+  constructor(private mode: PropagateAttributesValidationMode) {}
+
+  public validateString(
+    value: unknown,
+    attributeName: string,
+  ): string | undefined {
+    const isCoercible = typeof value === "number" || typeof value === "boolean";
+
+    if (typeof value !== "string" && !isCoercible) {
+      return this.drop(
+        attributeName,
+        `Propagated attribute '${attributeName}' must be a string.`,
+        value,
+      );
+    }
+
+    const stringValue = String(value);
+
+    if (stringValue.length > MAX_PROPAGATED_STRING_LENGTH) {
+      return this.coerce(
+        attributeName,
+        `Propagated attribute '${attributeName}' value is over ${MAX_PROPAGATED_STRING_LENGTH} characters (${stringValue.length} chars).`,
+        value,
+        stringValue.slice(0, MAX_PROPAGATED_STRING_LENGTH),
+      );
+    }
+
+    if (isCoercible) {
+      return this.coerce(
+        attributeName,
+        `Propagated attribute '${attributeName}' must be a string.`,
+        value,
+        stringValue,
+      );
+    }
+
+    return stringValue;
   }
 
-  if (value.length > 200) {
-    logger.warn(
-      `Propagated attribute '${attributeName}' value is over 200 characters (${value.length} chars). Dropping value.`,
-    );
+  public validateEnvironment(value: unknown): string | undefined {
+    if (typeof value !== "string") {
+      return this.drop(
+        "environment",
+        "Propagated attribute 'environment' must be a string.",
+        value,
+      );
+    }
 
-    return false;
+    const normalized = value.trim().toLowerCase();
+
+    if (value.length > MAX_ENVIRONMENT_LENGTH) {
+      return this.coerce(
+        "environment",
+        `Propagated attribute 'environment' value is over ${MAX_ENVIRONMENT_LENGTH} characters (${value.length} chars).`,
+        value,
+        asValidEnvironment(normalized.slice(0, MAX_ENVIRONMENT_LENGTH)),
+      );
+    }
+
+    if (!ENVIRONMENT_VALUE_PATTERN.test(value)) {
+      return this.coerce(
+        "environment",
+        "Propagated attribute 'environment' must be a lowercase alphanumeric string with optional hyphens or underscores and must not start with 'langfuse'.",
+        value,
+        asValidEnvironment(normalized),
+      );
+    }
+
+    return value;
   }
 
-  return true;
+  /**
+   * Records an invalid value that is dropped in every mode.
+   */
+  public drop(
+    attribute: string,
+    message: string,
+    value: unknown,
+    consequence = "Dropping value.",
+  ): undefined {
+    this.issues.push({ attribute, message, value, action: "dropped" });
+
+    if (this.mode !== "throw") {
+      getGlobalLogger().warn(`${message} ${consequence}`);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reports the validation issues and throws in `throw` mode.
+   */
+  public complete(): void {
+    if (this.issues.length === 0) return;
+
+    try {
+      validationConfig.onReport?.({ mode: this.mode, issues: this.issues });
+    } catch (err) {
+      getGlobalLogger().warn("Propagation validation onReport failed.", err);
+    }
+
+    if (this.mode === "throw") {
+      throw new PropagateAttributesValidationError(this.issues);
+    }
+  }
+
+  private coerce(
+    attribute: string,
+    message: string,
+    value: unknown,
+    coercedValue: string | undefined,
+  ): string | undefined {
+    if (this.mode !== "coerce" || coercedValue === undefined) {
+      return this.drop(attribute, message, value);
+    }
+
+    this.issues.push({
+      attribute,
+      message,
+      value,
+      action: "coerced",
+      coercedValue,
+    });
+    getGlobalLogger().debug(
+      `${message} Using coerced value '${coercedValue}'.`,
+    );
+
+    return coercedValue;
+  }
 }
 
-const ENVIRONMENT_VALUE_PATTERN = /^(?!langfuse)[a-z0-9_-]+$/;
+function asValidEnvironment(value: string): string | undefined {
+  return ENVIRONMENT_VALUE_PATTERN.test(value) ? value : undefined;
+}
 
 function isValidEnvironment(value: unknown): value is string {
   const logger = getGlobalLogger();
@@ -905,9 +1126,9 @@ function isValidEnvironment(value: unknown): value is string {
     return false;
   }
 
-  if (value.length > 40) {
+  if (value.length > MAX_ENVIRONMENT_LENGTH) {
     logger.warn(
-      `Propagated attribute 'environment' value is over 40 characters (${value.length} chars). Dropping value.`,
+      `Propagated attribute 'environment' value is over ${MAX_ENVIRONMENT_LENGTH} characters (${value.length} chars). Dropping value.`,
     );
 
     return false;
@@ -0,0 +1,494 @@
+import { getGlobalLogger } from "./logger/index.js";
+import { registerLangfuseShutdownHandler } from "./shutdown.js";
+import { generateUUID, safeSetTimeout } from "./utils.js";
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_MAX_ATTEMPTS = 20;
+const DEFAULT_BASE_DELAY = 1_000;
+const DEFAULT_MAX_DELAY = 5 * 60 * 1_000;
+
+/**
+ * A failed export batch persisted in a {@link LangfuseRetryQueue}.
+ *
+ * @public
+ */
+export type LangfuseRetryQueueEntry = {
+  /** Unique ID of the entry. IDs sort in enqueue order */
+  id: string;
+  /** Kind of the batch, e.g. `spans` or `scores`. Selects the sender used for retries */
+  kind: string;
+  /** Serialized batch as passed to {@link LangfuseRetryQueue.enqueue} */
+  payload: string;
+  /** Number of failed retry attempts */
+  attempts: number;
+  /** Time of the first failure in milliseconds since epoch */
+  createdAt: number;
+  /** Earliest time of the next retry attempt in milliseconds since epoch */
+  nextAttemptAt: number;
+};
+
+/**
+ * Storage backend of a {@link LangfuseRetryQueue}. Implement this interface to
+ * persist failed batches somewhere else than the local file system, e.g. in a
+ * key-value store.
+ *
+ * @public
+ */
+export interface LangfuseRetryQueueStorage {
+  /** Returns all persisted entries */
+  list(): Promise<LangfuseRetryQueueEntry[]>;
+  /** Creates or replaces the entry with the same ID */
+  put(entry: LangfuseRetryQueueEntry): Promise<void>;
+  /** Removes the entry with the given ID. Must not fail for unknown IDs */
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Sends a queued batch. Must reject if the batch should be retried later, or
+ * with a {@link LangfuseNonRetryableError} if it can never be sent.
+ *
+ * @public
+ */
+export type LangfuseRetryQueueSender = (payload: string) => Promise<void>;
+
+/**
+ * Rejection of a {@link LangfuseRetryQueueSender} for batches that can never
+ * be sent, e.g. malformed batches rejected with a 4xx status. The
+ * {@link LangfuseRetryQueue} drops such batches instead of retrying them.
+ *
+ * @public
+ */
+export class LangfuseNonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LangfuseNonRetryableError";
+  }
+}
+
+/**
+ * Whether a request answered with the given HTTP status may succeed when
+ * retried. Client errors other than timeouts and rate limits are final.
+ *
+ * @internal
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status < 400 || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Size of the retry backlog.
+ *
+ * @public
+ */
+export type LangfuseRetryQueueBacklog = {
+  /** Number of queued batches */
+  batches: number;
+  /** Total size of the queued payloads in bytes */
+  bytes: number;
+};
+
+/**
+ * Configuration for a {@link LangfuseRetryQueue}. Either `directory` or
+ * `storage` must be set.
+ *
+ * @public
+ */
+export interface LangfuseRetryQueueParams {
+  /** Directory failed batches are persisted in. Created if missing */
+  directory?: string;
+  /** Custom storage backend. Takes precedence over `directory` */
+  storage?: LangfuseRetryQueueStorage;
+  /**
+   * Maximum total size of the queued payloads in bytes. The oldest batches are
+   * dropped when exceeded. Default is 50 MiB
+   */
+  maxBytes?: number;
+  /** Number of retry attempts after which a batch is dropped. Default is 20 */
+  maxAttempts?: number;
+  /** Base delay in milliseconds for exponential backoff. Default is 1000 */
+  baseDelay?: number;
+  /** Maximum delay in milliseconds between retry attempts. Default is 5 minutes */
+  maxDelay?: number;
+}
+
+/**
+ * Stores each entry as a JSON file named `<id>.json` in a directory.
+ *
+ * This storage requires a Node.js file system.
+ *
+ * @public
+ */
+export class FileRetryQueueStorage implements LangfuseRetryQueueStorage {
+  constructor(private directory: string) {}
+
+  public async list(): Promise<LangfuseRetryQueueEntry[]> {
+    const { readdir, readFile } = await import("node:fs/promises");
+
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") return [];
+
+      throw err;
+    }
+
+    const entries: LangfuseRetryQueueEntry[] = [];
+
+    for (const file of files.filter((file) => file.endsWith(".json"))) {
+      try {
+        entries.push(
+          JSON.parse(await readFile(`${this.directory}/${file}`, "utf8")),
+        );
+      } catch {
+        // Files may be removed concurrently or be left incomplete by a crash
+        getGlobalLogger().warn(`Skipping unreadable retry queue file ${file}.`);
+      }
+    }
+
+    return entries;
+  }
+
+  public async put(entry: LangfuseRetryQueueEntry): Promise<void> {
+    const { mkdir, rename, writeFile } = await import("node:fs/promises");
+    const path = `${this.directory}/${entry.id}.json`;
+
+    await mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so that readers never see partial entries
+    await writeFile(`${path}.tmp`, JSON.stringify(entry), "utf8");
+    await rename(`${path}.tmp`, path);
+  }
+
+  public async remove(id: string): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+
+    await rm(`${this.directory}/${id}.json`, { force: true });
+  }
+}
+
+/**
+ * Durable queue for export batches that failed to reach Langfuse, e.g.
+ * during an outage.
+ *
+ * Failed batches are persisted in the configured storage and retried with
+ * exponential backoff. As the backlog is persisted, batches that could not be
+ * delivered before the process exited are retried by the next process using
+ * the same directory. The backlog is capped at `maxBytes` by dropping the
+ * oldest batches, and its size is logged whenever it changes.
+ *
+ * Pass the same queue to the `LangfuseSpanProcessor` and the `LangfuseClient`
+ * to retry both span exports and score ingestion. Each of them registers a
+ * sender for its batch kind.
+ *
+ * @example
+ * ```typescript
+ * import { LangfuseRetryQueue } from '@langfuse/core';
+ * import { LangfuseClient } from '@langfuse/client';
+ * import { LangfuseSpanProcessor } from '@langfuse/otel';
+ *
+ * const retryQueue = new LangfuseRetryQueue({ directory: './.langfuse-queue' });
+ *
+ * const processor = new LangfuseSpanProcessor({ retryQueue });
+ * const langfuse = new LangfuseClient({ retryQueue });
+ * ```
+ *
+ * @public
+ */
+export class LangfuseRetryQueue {
+  private storage: LangfuseRetryQueueStorage;
+  private maxBytes: number;
+  private maxAttempts: number;
+  private baseDelay: number;
+  private maxDelay: number;
+  private senders: Map<string, LangfuseRetryQueueSender> = new Map();
+  private pendingOperation: Promise<void> = Promise.resolve();
+  private retryTimer: any = null;
+  private retryAt = Infinity;
+  private enqueueCount = 0;
+  // Sizes of the persisted entries by ID in enqueue order, loaded on first use
+  private backlogIndex?: Map<string, number>;
+  private isShutdown = false;
+  private unregisterShutdownHandler: () => void;
+
+  constructor(params: LangfuseRetryQueueParams) {
+    if (params.storage) {
+      this.storage = params.storage;
+    } else if (params.directory) {
+      this.storage = new FileRetryQueueStorage(params.directory);
+    } else {
+      throw new Error("LangfuseRetryQueue requires a directory or a storage.");
+    }
+
+    this.maxBytes = params.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxAttempts = params.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.baseDelay = params.baseDelay ?? DEFAULT_BASE_DELAY;
+    this.maxDelay = params.maxDelay ?? DEFAULT_MAX_DELAY;
+
+    // Runs after the exporters, as they persist failed batches on shutdown
+    this.unregisterShutdownHandler = registerLangfuseShutdownHandler(
+      "retry queue",
+      this,
+      shutdownRetryQueue,
+      { runLast: true },
+    );
+  }
+
+  private get logger() {
+    return getGlobalLogger();
+  }
+
+  /**
+   * Registers the sender used to retry batches of the given kind. Batches of
+   * this kind left over from previous processes are retried afterwards.
+   *
+   * @param kind - The batch kind, e.g. `spans`
+   * @param sender - Sends a queued payload and rejects on failure
+   */
+  public register(kind: string, sender: LangfuseRetryQueueSender): void {
+    this.senders.set(kind, sender);
+
+    this.scheduleRetry(0);
+  }
+
+  /**
+   * Persists a failed batch for a later retry. Drops the oldest batches if
+   * the backlog exceeds `maxBytes`.
+   *
+   * @param kind - The batch kind. A sender must be registered for it
+   * @param payload - The serialized batch
+   */
+  public async enqueue(kind: string, payload: string): Promise<void> {
+    await this.runExclusive(async () => {
+      const now = Date.now();
+      const entry: LangfuseRetryQueueEntry = {
+        // The counter keeps the order of batches enqueued in the same millisecond
+        id: `${String(now).padStart(15, "0")}-${String(this.enqueueCount++).padStart(9, "0")}-${generateUUID()}`,
+        kind,
+        payload,
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now + this.baseDelay,
+      };
+      const size = getSize(entry);
+
+      if (size > this.maxBytes) {
+        this.logger.error(
+          `Dropping ${kind} batch of ${size} bytes as it exceeds the retry queue budget of ${this.maxBytes} bytes.`,
+        );
+
+        return;
+      }
+
+      const index = await this.getBacklogIndex();
+      let bytes = getTotalSize(index);
+      let dropped = 0;
+
+      for (const [id, entrySize] of index) {
+        if (bytes + size <= this.maxBytes) break;
+
+        await this.removeEntry(id);
+        bytes -= entrySize;
+        dropped++;
+      }
+
+      if (dropped > 0) {
+        this.logger.warn(
+          `Retry queue exceeded its budget of ${this.maxBytes} bytes. Dropped ${dropped} oldest batches.`,
+        );
+      }
+
+      await this.storage.put(entry);
+      index.set(entry.id, size);
+
+      this.logBacklog({ batches: index.size, bytes: bytes + size });
+    });
+
+    this.scheduleRetry(this.baseDelay);
+  }
+
+  /**
+   * Returns the number and total size of the queued batches.
+   */
+  public async getBacklog(): Promise<LangfuseRetryQueueBacklog> {
+    const entries = await this.storage.list();
+
+    return {
+      batches: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + getSize(entry), 0),
+    };
+  }
+
+  /**
+   * Retries all queued batches with a registered sender once, regardless of
+   * their backoff.
+   */
+  public async flush(): Promise<void> {
+    await this.runExclusive(() => this.retryEntries({ force: true }));
+  }
+
+  /**
+   * Stops scheduled retries. Queued batches stay persisted and are retried
+   * by the next queue using the same storage.
+   */
+  public async shutdown(): Promise<void> {
+    this.unregisterShutdownHandler();
+    this.isShutdown = true;
+    this.clearRetryTimer();
+
+    await this.pendingOperation;
+  }
+
+  private runExclusive(operation: () => Promise<void>): Promise<void> {
+    const result = this.pendingOperation.then(operation);
+
+    this.pendingOperation = result.catch((err) => {
+      this.logger.error("Retry queue operation failed:", err);
+    });
+
+    return result;
+  }
+
+  private async listEntries(): Promise<LangfuseRetryQueueEntry[]> {
+    const entries = (await this.storage.list()).sort((a, b) =>
+      a.id.localeCompare(b.id),
+    );
+    this.backlogIndex = new Map(
+      entries.map((entry) => [entry.id, getSize(entry)]),
+    );
+
+    return entries;
+  }
+
+  private async getBacklogIndex(): Promise<Map<string, number>> {
+    if (!this.backlogIndex) await this.listEntries();
+
+    return this.backlogIndex!;
+  }
+
+  private async removeEntry(id: string): Promise<void> {
+    await this.storage.remove(id);
+    this.backlogIndex?.delete(id);
+  }
+
+  private async retryEntries(options: { force: boolean }): Promise<void> {
+    const entries = await this.listEntries();
+    const remaining: LangfuseRetryQueueEntry[] = [];
+    const now = Date.now();
+    let sent = 0;
+
+    for (const entry of entries) {
+      const sender = this.senders.get(entry.kind);
+      if (!sender || (!options.force && entry.nextAttemptAt > now)) {
+        remaining.push(entry);
+
+        continue;
+      }
+
+      try {
+        await sender(entry.payload);
+        await this.removeEntry(entry.id);
+        sent++;
+
+        continue;
+      } catch (err) {
+        if (err instanceof LangfuseNonRetryableError) {
+          this.logger.error(
+            `Dropping ${entry.kind} batch as it cannot be sent:`,
+            err,
+          );
+          await this.removeEntry(entry.id);
+
+          continue;
+        }
+
+        this.logger.debug(`Retry of queued ${entry.kind} batch failed:`, err);
+      }
+
+      const attempts = entry.attempts + 1;
+
+      if (attempts >= this.maxAttempts) {
+        this.logger.error(
+          `Dropping ${entry.kind} batch after ${attempts} failed retry attempts.`,
+        );
+        await this.removeEntry(entry.id);
+
+        continue;
+      }
+
+      const updated: LangfuseRetryQueueEntry = {
+        ...entry,
+        attempts,
+        nextAttemptAt:
+          Date.now() + Math.min(this.maxDelay, this.baseDelay * 2 ** attempts),
+      };
+      await this.storage.put(updated);
+      remaining.push(updated);
+    }
+
+    if (sent > 0) {
+      this.logger.info(`Retry queue sent ${sent} queued batches.`);
+      this.logBacklog({
+        batches: remaining.length,
+        bytes: remaining.reduce((sum, entry) => sum + getSize(entry), 0),
+      });
+    }
+
+    const retryable = remaining.filter((entry) => this.senders.has(entry.kind));
+    if (retryable.length > 0) {
+      const nextAttemptAt = Math.min(
+        ...retryable.map((entry) => entry.nextAttemptAt),
+      );
+
+      this.scheduleRetry(Math.max(0, nextAttemptAt - Date.now()));
+    }
+  }
+
+  private scheduleRetry(delay: number): void {
+    // Keep an earlier scheduled retry so that frequent failures do not postpone it
+    if (this.isShutdown || Date.now() + delay >= this.retryAt) return;
+
+    this.clearRetryTimer();
+    this.retryAt = Date.now() + delay;
+    this.retryTimer = safeSetTimeout(() => {
+      this.retryTimer = null;
+      this.retryAt = Infinity;
+      void this.runExclusive(() => this.retryEntries({ force: false }));
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+      this.retryAt = Infinity;
+    }
+  }
+
+  private logBacklog(backlog: LangfuseRetryQueueBacklog): void {
+    if (backlog.batches === 0) {
+      this.logger.info("Retry queue backlog is empty.");
+
+      return;
+    }
+
+    this.logger.warn(
+      `Retry queue backlog: ${backlog.batches} batches (${backlog.bytes} bytes) waiting for export.`,
+    );
+  }
+}
+
+function getSize(entry: LangfuseRetryQueueEntry): number {
+  return new TextEncoder().encode(entry.payload).byteLength;
+}
+
+function getTotalSize(index: Map<string, number>): number {
+  let total = 0;
+  for (const size of index.values()) total += size;
+
+  return total;
+}
+
+// Defined outside the class to not capture the queue, see LangfuseShutdownHandler
+function shutdownRetryQueue(retryQueue: LangfuseRetryQueue): Promise<void> {
+  return retryQueue.shutdown();
+}
@@ -0,0 +1,317 @@
+import { getGlobalLogger } from "./logger/index.js";
+import { bytesToBase64 } from "./utils.js";
+
+/**
+ * Custom serialization for values of a specific type, e.g. LangChain messages
+ * or ORM models.
+ *
+ * @example
+ * ```typescript
+ * registerSerializerTypeHandler({
+ *   test: (value) => value instanceof Prisma.Decimal,
+ *   serialize: (value: Prisma.Decimal) => value.toString(),
+ * });
+ * ```
+ *
+ * @public
+ */
+export type SerializerTypeHandler = {
+  /** Whether this handler serializes the given value */
+  test: (value: unknown) => boolean;
+  /**
+   * Converts the value into a JSON-compatible representation. The returned
+   * value is serialized recursively, so it may contain values of other types.
+   */
+  serialize: (value: any) => unknown;
+};
+
+const CIRCULAR_REFERENCE = "<circular reference>";
+const FAILED_TO_SERIALIZE = "<failed to serialize>";
+
+const typeHandlers: SerializerTypeHandler[] = [];
+
+type ConvertState = {
+  ancestors: Set<object>;
+  typeHandlers: readonly SerializerTypeHandler[];
+};
+
+/**
+ * Registers a custom type handler used when serializing observation input,
+ * output and metadata. Handlers registered later take precedence.
+ *
+ * @param handler - The type handler
+ * @returns A function that unregisters the handler
+ *
+ * @public
+ */
+export function registerSerializerTypeHandler(
+  handler: SerializerTypeHandler,
+): () => void {
+  typeHandlers.unshift(handler);
+
+  return () => {
+    const index = typeHandlers.indexOf(handler);
+
+    if (index !== -1) typeHandlers.splice(index, 1);
+  };
+}
+
+/**
+ * Removes all registered serializer type handlers.
+ * Primarily used for testing to ensure clean state between tests.
+ *
+ * @public
+ */
+export function resetSerializerTypeHandlers(): void {
+  typeHandlers.length = 0;
+}
+
+/**
+ * Serializes a value to a JSON string. Strings are returned as is.
+ *
+ * Unlike `JSON.stringify`, this never throws: circular references are replaced
+ * by a marker, and BigInt, Map, Set, Error, Date, URL, binary data and class
+ * instances are converted to meaningful representations. Registered
+ * {@link SerializerTypeHandler}s are applied first.
+ *
+ * @param value - The value to serialize
+ * @returns The JSON string, or undefined for null and undefined
+ *
+ * @public
+ */
+export function serializeValue(value: unknown): string | undefined {
+  return stringify(value, typeHandlers);
+}
+
+/**
+ * Serializes a value like {@link serializeValue}, but ignores registered
+ * {@link SerializerTypeHandler}s. Used where the result must not depend on
+ * global configuration, e.g. for content hashes.
+ *
+ * @param value - The value to serialize
+ * @returns The JSON string, or undefined for null and undefined
+ *
+ * @internal
+ */
+export function serializeValueWithoutTypeHandlers(
+  value: unknown,
+): string | undefined {
+  return stringify(value, []);
+}
+
+/**
+ * Generate experiment item ID from input hash (first 16 hex chars of SHA-256).
+ * Skips serialization if input is already a string.
+ * @internal
+ */
+export async function createExperimentItemId(input: any): Promise<string> {
+  // Independent of registered type handlers to keep IDs stable
+  const serialized = serializeValueWithoutTypeHandlers(input);
+  const data = new TextEncoder().encode(serialized);
+
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  const hashHex = hashArray
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  return hashHex.slice(0, 16);
+}
+
+/**
+ * Converts a value into a JSON-compatible representation, following the same
+ * rules as {@link serializeValue}.
+ *
+ * @param value - The value to convert
+ * @returns The JSON-compatible value
+ *
+ * @public
+ */
+export function toSerializableValue(value: unknown): unknown {
+  return convert(value, { ancestors: new Set(), typeHandlers });
+}
+
+function stringify(
+  value: unknown,
+  handlers: readonly SerializerTypeHandler[],
+): string | undefined {
+  if (typeof value === "string") return value;
+  if (value == null) return undefined;
+
+  try {
+    return JSON.stringify(
+      convert(value, { ancestors: new Set(), typeHandlers: handlers }),
+    );
+  } catch (err) {
+    getGlobalLogger().debug("Failed to serialize value.", err);
+
+    return FAILED_TO_SERIALIZE;
+  }
+}
+
+function convert(value: unknown, state: ConvertState): unknown {
+  for (const handler of state.typeHandlers) {
+    let matches = false;
+
+    try {
+      matches = handler.test(value);
+    } catch {
+      continue;
+    }
+
+    if (matches) {
+      try {
+        const handled = handler.serialize(value);
+
+        return handled === value
+          ? convertBuiltin(value, state)
+          : convert(handled, state);
+      } catch (err) {
+        getGlobalLogger().debug("Serializer type handler failed.", err);
+
+        return FAILED_TO_SERIALIZE;
+      }
+    }
+  }
+
+  return convertBuiltin(value, state);
+}
+
+function convertBuiltin(value: unknown, state: ConvertState): unknown {
+  switch (typeof value) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "undefined":
+      return value;
+    case "bigint":
+      return value.toString();
+    case "symbol":
+      return value.toString();
+    case "function":
+      return undefined;
+  }
+
+  if (value === null) return null;
+
+  const object = value as object;
+
+  if (object instanceof Date) {
+    return isNaN(object.getTime()) ? "Invalid Date" : object.toISOString();
+  }
+  if (typeof URL !== "undefined" && object instanceof URL) {
+    return object.href;
+  }
+  if (object instanceof RegExp) {
+    return object.toString();
+  }
+  if (object instanceof ArrayBuffer) {
+    return bytesToBase64(new Uint8Array(object));
+  }
+  if (ArrayBuffer.isView(object)) {
+    // Covers Node.js Buffers, which extend Uint8Array
+    if (object instanceof Uint8Array) return bytesToBase64(object);
+    if (object instanceof DataView) {
+      return bytesToBase64(
+        new Uint8Array(object.buffer, object.byteOffset, object.byteLength),
+      );
+    }
+
+    return Array.from(object as unknown as ArrayLike<number | bigint>, (n) =>
+      typeof n === "bigint" ? n.toString() : n,
+    );
+  }
+
+  if (state.ancestors.has(object)) return CIRCULAR_REFERENCE;
+
+  state.ancestors.add(object);
+
+  try {
+    return convertContainer(object, state);
+  } finally {
+    state.ancestors.delete(object);
+  }
+}
+
+function convertContainer(object: object, state: ConvertState): unknown {
+  if (Array.isArray(object)) {
+    return object.map((item) => {
+      const converted = convert(item, state);
+
+      return converted === undefined ? null : converted;
+    });
+  }
+
+  if (object instanceof Map) {
+    const entries = Array.from(object.entries());
+    const hasPrimitiveKeys = entries.every(
+      ([key]) => typeof key === "string" || typeof key === "number",
+    );
+
+    return hasPrimitiveKeys
+      ? Object.fromEntries(
+          entries.map(([key, item]) => [key, convert(item, state)]),
+        )
+      : entries.map(([key, item]) => [
+          convert(key, state),
+          convert(item, state),
+        ]);
+  }
+
+  if (object instanceof Set) {
+    return Array.from(object, (item) => convert(item, state));
+  }
+
+  if (object instanceof Error) {
+    const error: Record<string, unknown> = {
+      name: object.name,
+      message: object.message,
+      stack: object.stack,
+    };
+
+    if ("cause" in object && object.cause !== undefined) {
+      error.cause = convert(object.cause, state);
+    }
+
+    return { ...error, ...convertProperties(object, state) };
+  }
+
+  if (typeof (object as { toJSON?: unknown }).toJSON === "function") {
+    const json = (object as { toJSON: () => unknown }).toJSON();
+
+    return json === object
+      ? convertProperties(object, state)
+      : convert(json, state);
+  }
+
+  const properties = convertProperties(object, state);
+  const prototype = Object.getPrototypeOf(object);
+
+  // Class instances without enumerable state, e.g. with private fields only
+  if (
+    Object.keys(properties).length === 0 &&
+    prototype !== null &&
+    prototype !== Object.prototype
+  ) {
+    const name = prototype.constructor?.name;
+
+    return name ? `<${name}>` : properties;
+  }
+
+  return properties;
+}
+
+function convertProperties(
+  object: object,
+  state: ConvertState,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(object)) {
+    const converted = convert(item, state);
+
+    if (converted !== undefined) result[key] = converted;
+  }
+
+  return result;
+}
@@ -0,0 +1,337 @@
+import { getGlobalLogger } from "./logger/index.js";
+import { safeSetTimeout } from "./utils.js";
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 5_000;
+const LANGFUSE_SHUTDOWN_REGISTRY_SYMBOL = Symbol.for("langfuse.shutdown");
+
+/**
+ * Flushes and releases an SDK component on shutdown.
+ *
+ * Receives the component instead of closing over it, so that registered
+ * components can still be garbage-collected. Define handlers outside of the
+ * component's class: closures created in a constructor share its scope, and
+ * keep `this` alive if any of them use it.
+ *
+ * @public
+ */
+export type LangfuseShutdownHandler<T extends object = object> = (
+  component: T,
+) => Promise<void> | void;
+
+/**
+ * Options for {@link registerLangfuseShutdownHandler}.
+ *
+ * @public
+ */
+export type LangfuseShutdownHandlerOptions = {
+  /**
+   * Whether to run the handler after all other handlers completed, e.g. for
+   * storage that other components write to on shutdown. Default is false.
+   */
+  runLast?: boolean;
+};
+
+/**
+ * Outcome of {@link shutdownLangfuse}, by component name.
+ *
+ * @public
+ */
+export type LangfuseShutdownReport = {
+  /** Components that were flushed and shut down */
+  completed: string[];
+  /** Components whose shutdown failed */
+  failed: { name: string; error: unknown }[];
+  /** Components that did not complete within the timeout */
+  timedOut: string[];
+  /** Duration of the shutdown in milliseconds */
+  durationMs: number;
+};
+
+/**
+ * Options for {@link shutdownLangfuse}.
+ *
+ * @public
+ */
+export type ShutdownLangfuseOptions = {
+  /**
+   * Time budget in milliseconds for all components together. Components still
+   * pending afterwards are reported as timed out. Default is 5000.
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * Options for {@link installLangfuseShutdownHooks}.
+ *
+ * @public
+ */
+export type LangfuseShutdownHooksOptions = ShutdownLangfuseOptions & {
+  /** Signals to shut down on. Default is `SIGTERM` and `SIGINT` */
+  signals?: string[];
+  /** Whether to shut down when the event loop empties. Default is true */
+  beforeExit?: boolean;
+};
+
+type ShutdownRegistration = {
+  name: string;
+  component: { deref: () => object | undefined };
+  handler: LangfuseShutdownHandler<any>;
+  runLast: boolean;
+};
+
+type ShutdownOutcome =
+  | { status: "completed" }
+  | { status: "failed"; error: unknown }
+  | { status: "timedOut" };
+
+// Removes the registrations of components that were garbage-collected
+const finalizationRegistry =
+  typeof FinalizationRegistry === "function"
+    ? new FinalizationRegistry<ShutdownRegistration>((registration) => {
+        getRegistry().delete(registration);
+      })
+    : undefined;
+
+// Kept on globalThis to share the registry between the CJS and ESM builds
+function getRegistry(): Set<ShutdownRegistration> {
+  const g = globalThis as typeof globalThis & {
+    [LANGFUSE_SHUTDOWN_REGISTRY_SYMBOL]?: Set<ShutdownRegistration>;
+  };
+
+  return (g[LANGFUSE_SHUTDOWN_REGISTRY_SYMBOL] ??= new Set());
+}
+
+/**
+ * Registers an SDK component with the shutdown coordinator, so that
+ * {@link shutdownLangfuse} flushes it. Components unregister when they are
+ * shut down directly.
+ *
+ * The component is held weakly: components that are garbage-collected
+ * without being shut down are removed from the registry.
+ *
+ * @param name - Component name used in the shutdown report
+ * @param component - The component to shut down
+ * @param handler - Flushes and releases the component passed to it
+ * @param options - Optional handler ordering
+ * @returns Function that unregisters the component
+ *
+ * @example
+ * ```typescript
+ * const unregister = registerLangfuseShutdownHandler(
+ *   'exporter',
+ *   exporter,
+ *   (exporter) => exporter.shutdown(),
+ * );
+ * ```
+ *
+ * @public
+ */
+export function registerLangfuseShutdownHandler<T extends object>(
+  name: string,
+  component: T,
+  handler: LangfuseShutdownHandler<T>,
+  options: LangfuseShutdownHandlerOptions = {},
+): () => void {
+  const registration: ShutdownRegistration = {
+    name,
+    // Runtimes without WeakRef keep components until they are shut down
+    component:
+      typeof WeakRef === "function"
+        ? new WeakRef(component)
+        : { deref: () => component },
+    handler,
+    runLast: options.runLast ?? false,
+  };
+  getRegistry().add(registration);
+  finalizationRegistry?.register(component, registration, registration);
+
+  return () => {
+    getRegistry().delete(registration);
+    finalizationRegistry?.unregister(registration);
+  };
+}
+
+/**
+ * Flushes and shuts down all registered Langfuse components, e.g. span
+ * processors with their media uploads, score queues, prompt cache refreshes
+ * and retry queues, within a shared time budget.
+ *
+ * Never rejects. Components that failed or did not complete in time are
+ * logged as a warning and listed in the returned report.
+ *
+ * @param options - Optional time budget
+ * @returns Report of the shutdown per component
+ *
+ * @example
+ * ```typescript
+ * import { shutdownLangfuse } from '@langfuse/core';
+ *
+ * const report = await shutdownLangfuse({ timeoutMs: 3_000 });
+ * ```
+ *
+ * @public
+ */
+export async function shutdownLangfuse(
+  options: ShutdownLangfuseOptions = {},
+): Promise<LangfuseShutdownReport> {
+  const logger = getGlobalLogger();
+  const startTime = Date.now();
+  const deadline =
+    startTime + (options.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS);
+
+  const registrations = Array.from(getRegistry());
+  getRegistry().clear();
+  registrations.forEach((r) => finalizationRegistry?.unregister(r));
+
+  // Components collected in the meantime hold no data anymore
+  const components = registrations.flatMap((registration) => {
+    const component = registration.component.deref();
+
+    return component ? [{ ...registration, component }] : [];
+  });
+
+  const report: LangfuseShutdownReport = {
+    completed: [],
+    failed: [],
+    timedOut: [],
+    durationMs: 0,
+  };
+
+  for (const runLast of [false, true]) {
+    const stage = components.filter((c) => c.runLast === runLast);
+    const outcomes = await Promise.all(
+      stage.map(({ handler, component }) =>
+        runHandler(handler, component, deadline),
+      ),
+    );
+
+    outcomes.forEach((outcome, index) => {
+      const { name } = stage[index];
+
+      if (outcome.status === "completed") {
+        report.completed.push(name);
+      } else if (outcome.status === "failed") {
+        report.failed.push({ name, error: outcome.error });
+      } else {
+        report.timedOut.push(name);
+      }
+    });
+  }
+
+  report.durationMs = Date.now() - startTime;
+
+  if (report.failed.length > 0 || report.timedOut.length > 0) {
+    logger.warn(
+      `Langfuse shutdown incomplete after ${report.durationMs} ms. Data of these components may be lost.`,
+      {
+        failed: report.failed.map(({ name }) => name),
+        timedOut: report.timedOut,
+      },
+      ...report.failed.map(({ error }) => error),
+    );
+  } else {
+    logger.debug(
+      `Langfuse shutdown completed in ${report.durationMs} ms.`,
+      report.completed,
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Shuts down all registered Langfuse components via {@link shutdownLangfuse}
+ * when the process receives a termination signal or its event loop empties.
+ *
+ * After the shutdown on a signal, the signal is raised again to terminate the
+ * process, unless the application handles it with its own listeners. Only
+ * available in Node.js-compatible runtimes.
+ *
+ * @param options - Signals, exit hook and time budget
+ * @returns Function that removes the hooks
+ *
+ * @example
+ * ```typescript
+ * import { installLangfuseShutdownHooks } from '@langfuse/core';
+ *
+ * installLangfuseShutdownHooks({ timeoutMs: 3_000 });
+ * ```
+ *
+ * @public
+ */
+export function installLangfuseShutdownHooks(
+  options: LangfuseShutdownHooksOptions = {},
+): () => void {
+  if (typeof process !== "object" || typeof process.on !== "function") {
+    getGlobalLogger().warn(
+      "Shutdown hooks require process events and are not installed in this runtime.",
+    );
+
+    return () => {};
+  }
+
+  const signals = (options.signals ?? [
+    "SIGTERM",
+    "SIGINT",
+  ]) as NodeJS.Signals[];
+  let shutdownPromise: Promise<LangfuseShutdownReport> | undefined;
+
+  const shutdown = () =>
+    (shutdownPromise ??= shutdownLangfuse({ timeoutMs: options.timeoutMs }));
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    void shutdown().then(() => {
+      uninstall();
+
+      // Restore the default termination if the application does not handle it
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+
+  const onBeforeExit = () => {
+    void shutdown();
+  };
+
+  const uninstall = () => {
+    for (const signal of signals) process.off(signal, onSignal);
+    process.off("beforeExit", onBeforeExit);
+  };
+
+  for (const signal of signals) process.on(signal, onSignal);
+  // The pending shutdown keeps the event loop alive until it completes
+  if (options.beforeExit !== false) process.once("beforeExit", onBeforeExit);
+
+  return uninstall;
+}
+
+async function runHandler(
+  handler: LangfuseShutdownHandler<any>,
+  component: object,
+  deadline: number,
+): Promise<ShutdownOutcome> {
+  let timer: ReturnType<typeof safeSetTimeout> | undefined;
+
+  const timeout = new Promise<ShutdownOutcome>((resolve) => {
+    timer = safeSetTimeout(
+      () => resolve({ status: "timedOut" }),
+      Math.max(0, deadline - Date.now()),
+    );
+  });
+
+  const run = (async (): Promise<ShutdownOutcome> => {
+    try {
+      await handler(component);
+
+      return { status: "completed" };
+    } catch (error) {
+      return { status: "failed", error };
+    }
+  })();
+
+  const outcome = await Promise.race([run, timeout]);
+  clearTimeout(timer);
+
+  return outcome;
+}
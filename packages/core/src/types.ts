@@ -5,3 +5,27 @@ export type ParsedMediaReference = {
   source: string;
   contentType: MediaContentType;
 };
+
+/**
+ * Size budgets for observation input, output and metadata.
+ *
+ * @public
+ */
+export type LangfuseTruncationLimits = {
+  /**
+   * Maximum size of each input, output and metadata attribute.
+   */
+  maxFieldSize?: number;
+
+  /**
+   * Maximum combined size of all input, output and metadata attributes of a span.
+   */
+  maxSpanSize?: number;
+
+  /**
+   * Unit of the size budgets.
+   *
+   * @defaultValue "bytes"
+   */
+  unit?: "bytes" | "characters";
+};
@@ -10,12 +10,24 @@ import {
 import type { MediaContentType } from "@langfuse/core";
 import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 
+import type { SpanProcessorStatsCollector } from "./stats.js";
+
 export class MediaService {
   private pendingMediaUploads: Set<Promise<void>> = new Set();
   private apiClient: LangfuseAPIClient;
+  private stats?: SpanProcessorStatsCollector;
 
-  constructor(params: { apiClient: LangfuseAPIClient }) {
+  constructor(params: {
+    apiClient: LangfuseAPIClient;
+    stats?: SpanProcessorStatsCollector;
+  }) {
     this.apiClient = params.apiClient;
+    this.stats = params.stats;
+  }
+
+  /** Number of media uploads currently in progress. */
+  public get pendingUploadCount(): number {
+    return this.pendingMediaUploads.size;
   }
 
   get logger(): Logger {
@@ -286,6 +298,7 @@ export class MediaService {
     });
 
     this.pendingMediaUploads.add(uploadPromise);
+    this.stats?.recordMediaUpload("queued");
 
     uploadPromise.finally(() => {
       this.pendingMediaUploads.delete(uploadPromise);
@@ -303,6 +316,8 @@ export class MediaService {
     observationId?: string;
     field: string;
   }): Promise<void> {
+    const startTime = Date.now();
+
     try {
       await uploadMedia({
         apiClient: this.apiClient,
@@ -312,8 +327,13 @@ export class MediaService {
         field,
         logger: this.logger,
       });
+
+      this.stats?.recordMediaUpload("succeeded");
     } catch (err) {
       this.logger.error(`Error processing media item: ${err}`);
+      this.stats?.recordMediaUpload("failed", err);
+    } finally {
+      this.stats?.recordLatency("mediaUpload", Date.now() - startTime);
     }
   }
 }
@@ -0,0 +1,159 @@
+import { getGlobalLogger } from "@langfuse/core";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import { serializeOtlpJson } from "./otlp-json.js";
+
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Configuration for a {@link FileSpanExporter}.
+ *
+ * @public
+ */
+export interface FileSpanExporterParams {
+  /** Directory the span files are written to. Created if missing */
+  directory: string;
+  /** Prefix of the span file names. Default is `langfuse-spans` */
+  filePrefix?: string;
+  /** Size in bytes after which a new file is started. Default is 10 MiB */
+  maxFileSize?: number;
+  /**
+   * Maximum number of span files to keep in the directory. The oldest files
+   * are deleted when exceeded. By default, no files are deleted.
+   */
+  maxFiles?: number;
+}
+
+/**
+ * Span exporter that writes spans as OTLP-JSON lines to local files, e.g. for
+ * CI environments where Langfuse is unreachable. Upload the files later with
+ * {@link replaySpanFiles} or the `langfuse-otel-replay` command.
+ *
+ * Pass it as `exporter` of the {@link LangfuseSpanProcessor} so that the
+ * written spans are already masked, filtered and have media extracted. Each
+ * line is an OTLP `ExportTraceServiceRequest`. Files are rotated once they
+ * exceed `maxFileSize` and named `<filePrefix>-<timestamp>-<index>.jsonl`, so
+ * they sort in write order.
+ *
+ * This exporter requires a Node.js file system.
+ *
+ * @example
+ * ```typescript
+ * import { FileSpanExporter, LangfuseSpanProcessor } from '@langfuse/otel';
+ *
+ * const processor = new LangfuseSpanProcessor({
+ *   exporter: new FileSpanExporter({ directory: './langfuse-spans' }),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FileSpanExporter implements SpanExporter {
+  private directory: string;
+  private filePrefix: string;
+  private maxFileSize: number;
+  private maxFiles?: number;
+  private fileStartTime = Date.now();
+  private fileIndex = 0;
+  private fileSize = 0;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private isShutdown = false;
+
+  constructor(params: FileSpanExporterParams) {
+    this.directory = params.directory;
+    this.filePrefix = params.filePrefix ?? "langfuse-spans";
+    this.maxFileSize = params.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.maxFiles = params.maxFiles;
+  }
+
+  /**
+   * Appends the spans as one OTLP-JSON line to the current span file.
+   *
+   * @param spans - The spans to export
+   * @param resultCallback - Called with the result once the line is written
+   */
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    if (this.isShutdown) {
+      resultCallback({
+        code: ExportResultCode.FAILED,
+        error: new Error("FileSpanExporter is shut down."),
+      });
+
+      return;
+    }
+
+    // Writes are chained to keep lines intact and rotation consistent
+    this.pendingWrite = this.pendingWrite.then(() =>
+      serializeOtlpJson(spans)
+        .then((line) => this.write(`${line}\n`))
+        .then(
+          () => resultCallback({ code: ExportResultCode.SUCCESS }),
+          (error) => {
+            getGlobalLogger().error("Failed to write spans to file.", error);
+            resultCallback({ code: ExportResultCode.FAILED, error });
+          },
+        ),
+    );
+  }
+
+  /**
+   * Waits until all pending lines are written.
+   */
+  public async forceFlush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  /**
+   * Waits until all pending lines are written and rejects further exports.
+   */
+  public async shutdown(): Promise<void> {
+    this.isShutdown = true;
+
+    await this.pendingWrite;
+  }
+
+  private get currentFilePath(): string {
+    const index = String(this.fileIndex).padStart(4, "0");
+
+    return `${this.directory}/${this.filePrefix}-${this.fileStartTime}-${index}.jsonl`;
+  }
+
+  private async write(line: string): Promise<void> {
+    const { appendFile, mkdir } = await import("node:fs/promises");
+    const size = new TextEncoder().encode(line).byteLength;
+
+    if (this.fileSize > 0 && this.fileSize + size > this.maxFileSize) {
+      this.fileIndex++;
+      this.fileSize = 0;
+    }
+
+    if (this.fileSize === 0) {
+      await mkdir(this.directory, { recursive: true });
+    }
+
+    await appendFile(this.currentFilePath, line, "utf8");
+
+    if (this.fileSize === 0) await this.deleteOldFiles();
+    this.fileSize += size;
+  }
+
+  private async deleteOldFiles(): Promise<void> {
+    if (this.maxFiles === undefined) return;
+
+    const { readdir, rm } = await import("node:fs/promises");
+    const files = (await readdir(this.directory))
+      .filter(
+        (file) =>
+          file.startsWith(`${this.filePrefix}-`) && file.endsWith(".jsonl"),
+      )
+      .sort();
+
+    for (const file of files.slice(0, -this.maxFiles)) {
+      await rm(`${this.directory}/${file}`, { force: true });
+    }
+  }
+}
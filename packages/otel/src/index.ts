@@ -1,2 +1,57 @@
 export * from "./span-processor.js";
 export * from "./span-filter.js";
+export {
+  LANGFUSE_PROJECT_ATTRIBUTE,
+  LangfuseRoutingSpanProcessor,
+  type LangfuseProjectResolver,
+  type LangfuseRoutingSpanProcessorParams,
+} from "./routing-span-processor.js";
+export {
+  type LangfuseLatencyHistogram,
+  type LangfuseLatencyKind,
+  type LangfuseSpanDropReason,
+  type LangfuseSpanProcessorEvents,
+  type LangfuseSpanProcessorStats,
+} from "./stats.js";
+export {
+  registerLangfuseProcessorMetrics,
+  type LangfuseProcessorMetricsParams,
+} from "./metrics.js";
+export {
+  FileSpanExporter,
+  type FileSpanExporterParams,
+} from "./file-span-exporter.js";
+export {
+  replaySpanFiles,
+  type ReplaySpanFilesParams,
+  type ReplaySpanFilesResult,
+} from "./replay.js";
+export {
+  type LangfuseMaskingConfig,
+  type LangfuseMaskingEvent,
+  type LangfuseMaskingRule,
+} from "./masking.js";
+export {
+  createPiiMaskFunction,
+  PII_DETECTORS,
+  redactPii,
+  type LangfusePiiDetector,
+  type LangfuseRedactionConfig,
+  type LangfuseRedactionResult,
+  type LangfuseRedactionStrategy,
+} from "./redaction.js";
+export {
+  isTraceIdSampled,
+  type LangfuseSamplingConfig,
+  type LangfuseSamplingDecision,
+  type LangfuseTailSamplingRules,
+} from "./sampling.js";
+export { type LangfuseTraceBackfillConfig } from "./trace-backfill.js";
+export {
+  LangfuseModelPriceRegistry,
+  type LangfuseCostCalculation,
+  type LangfuseModelDefinition,
+  type LangfuseModelPriceSource,
+  type LangfuseModelPricingTier,
+  type LangfusePricingConfig,
+} from "./pricing.js";
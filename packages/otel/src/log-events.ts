@@ -0,0 +1,94 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import { SpanKind, SpanStatusCode, type Attributes } from "@opentelemetry/api";
+import {
+  RandomIdGenerator,
+  type ReadableSpan,
+  type TimedEvent,
+} from "@opentelemetry/sdk-trace-base";
+
+const idGenerator = new RandomIdGenerator();
+
+// Trace-level attributes the event observations inherit from their parent
+const INHERITED_ATTRIBUTE_KEYS = new Set<string>([
+  LangfuseOtelSpanAttributes.TRACE_NAME,
+  LangfuseOtelSpanAttributes.TRACE_USER_ID,
+  LangfuseOtelSpanAttributes.TRACE_SESSION_ID,
+  LangfuseOtelSpanAttributes.TRACE_TAGS,
+  LangfuseOtelSpanAttributes.TRACE_PUBLIC,
+  LangfuseOtelSpanAttributes.ENVIRONMENT,
+  LangfuseOtelSpanAttributes.RELEASE,
+  LangfuseOtelSpanAttributes.VERSION,
+  LangfuseOtelSpanAttributes.TRUNCATION_LIMITS,
+]);
+
+/**
+ * Whether a span event is a log entry recorded via `observation.log()`.
+ *
+ * @internal
+ */
+export function isLogEvent(event: TimedEvent): boolean {
+  return (
+    event.attributes?.[LangfuseOtelSpanAttributes.OBSERVATION_TYPE] === "event"
+  );
+}
+
+/**
+ * Removes the log entries recorded via `observation.log()` from a span and
+ * returns them as `event` observation spans that are children of the span,
+ * timestamped at the time of the log entry.
+ *
+ * The log entries are removed so that their payloads only leave the process
+ * on the event observations, which are masked and truncated like any span.
+ *
+ * @internal
+ */
+export function extractLogEventSpansInPlace(
+  span: ReadableSpan,
+): ReadableSpan[] {
+  const logEvents = span.events.filter(isLogEvent);
+  if (logEvents.length === 0) return [];
+
+  const events = span.events as TimedEvent[];
+  const remainingEvents = events.filter((event) => !isLogEvent(event));
+  events.splice(0, events.length, ...remainingEvents);
+
+  const inheritedAttributes = getInheritedAttributes(span.attributes);
+
+  return logEvents.map((event) => {
+    const spanContext = {
+      traceId: span.spanContext().traceId,
+      spanId: idGenerator.generateSpanId(),
+      traceFlags: span.spanContext().traceFlags,
+    };
+
+    return {
+      name: event.name,
+      kind: SpanKind.INTERNAL,
+      spanContext: () => spanContext,
+      parentSpanContext: span.spanContext(),
+      startTime: event.time,
+      endTime: event.time,
+      duration: [0, 0],
+      status: { code: SpanStatusCode.UNSET },
+      attributes: { ...inheritedAttributes, ...event.attributes },
+      links: [],
+      events: [],
+      ended: true,
+      resource: span.resource,
+      instrumentationScope: span.instrumentationScope,
+      droppedAttributesCount: 0,
+      droppedEventsCount: 0,
+      droppedLinksCount: 0,
+    };
+  });
+}
+
+function getInheritedAttributes(attributes: Attributes): Attributes {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(
+      ([key]) =>
+        INHERITED_ATTRIBUTE_KEYS.has(key) ||
+        key.startsWith(`${LangfuseOtelSpanAttributes.TRACE_METADATA}.`),
+    ),
+  );
+}
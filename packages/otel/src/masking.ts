@@ -0,0 +1,492 @@
+import { LangfuseOtelSpanAttributes, getGlobalLogger } from "@langfuse/core";
+import type { AttributeValue } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+const DEFAULT_REPLACEMENT = "<masked>";
+
+/**
+ * A declarative masking rule applied to spans before export.
+ *
+ * @example
+ * ```typescript
+ * const rule: LangfuseMaskingRule = {
+ *   name: "customer-email",
+ *   paths: ["$.input.customer.email", "$.metadata.contacts[*].email"],
+ *   attributes: ["http.request.header.authorization"],
+ *   observationTypes: ["generation"],
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface LangfuseMaskingRule {
+  /**
+   * Name of the rule. Reported in masking audit events.
+   */
+  name: string;
+
+  /**
+   * JSON paths of values to mask within observation and trace input, output
+   * and metadata. Paths start with `$.input`, `$.output` or `$.metadata` and
+   * support `.key`, `['key']`, `[index]` and `*` / `[*]` wildcard segments.
+   */
+  paths?: string[];
+
+  /**
+   * Span attribute keys to mask entirely. Supports `*` (any characters) and
+   * `?` (single character) glob patterns, e.g. `"gen_ai.prompt.*"`.
+   */
+  attributes?: string[];
+
+  /**
+   * Only apply this rule to observations of these types, e.g. `["generation"]`.
+   * Applies to all observations if omitted.
+   */
+  observationTypes?: string[];
+
+  /**
+   * Value that replaces masked data.
+   *
+   * @defaultValue "<masked>"
+   */
+  replacement?: string;
+}
+
+/**
+ * Describes a single value masked by a {@link LangfuseMaskingRule}.
+ * The masked value itself is never included.
+ *
+ * @public
+ */
+export interface LangfuseMaskingEvent {
+  /** Name of the rule that masked the value */
+  rule: string;
+  /** Span attribute that contained the masked value */
+  attribute: string;
+  /** Concrete JSON path of the masked value within the attribute, if masked by path */
+  path?: string;
+  /** Trace id of the span */
+  traceId: string;
+  /** Span id of the span */
+  spanId: string;
+  /** Observation type of the span, if set */
+  observationType?: string;
+}
+
+/**
+ * Configuration of declarative masking rules for the LangfuseSpanProcessor.
+ *
+ * @public
+ */
+export interface LangfuseMaskingConfig {
+  /**
+   * Masking rules, applied in order.
+   */
+  rules: LangfuseMaskingRule[];
+
+  /**
+   * Called for every value masked by a rule, e.g. to keep an audit log of
+   * what is redacted before export.
+   */
+  onMask?: (event: LangfuseMaskingEvent) => void;
+}
+
+type PathSegment =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" };
+
+type ParsedPath = {
+  target: "input" | "output" | "metadata";
+  segments: PathSegment[];
+};
+
+type CompiledRule = {
+  name: string;
+  paths: ParsedPath[];
+  attributePatterns: RegExp[];
+  observationTypes: string[] | null;
+  replacement: string;
+};
+
+const TARGET_ATTRIBUTES = {
+  input: [
+    LangfuseOtelSpanAttributes.OBSERVATION_INPUT,
+    LangfuseOtelSpanAttributes.TRACE_INPUT,
+  ],
+  output: [
+    LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT,
+    LangfuseOtelSpanAttributes.TRACE_OUTPUT,
+  ],
+  metadata: [
+    LangfuseOtelSpanAttributes.OBSERVATION_METADATA,
+    LangfuseOtelSpanAttributes.TRACE_METADATA,
+  ],
+};
+
+/**
+ * Applies declarative masking rules to span attributes in place.
+ *
+ * @internal
+ */
+export class SpanMasker {
+  private rules: CompiledRule[];
+  private onMask?: (event: LangfuseMaskingEvent) => void;
+
+  constructor(config: LangfuseMaskingConfig) {
+    this.rules = config.rules.map(compileRule);
+    this.onMask = config.onMask;
+  }
+
+  public apply(span: ReadableSpan): void {
+    const observationType =
+      span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_TYPE];
+    const type =
+      typeof observationType === "string" ? observationType : undefined;
+
+    for (const rule of this.rules) {
+      if (
+        rule.observationTypes &&
+        (!type || !rule.observationTypes.includes(type))
+      ) {
+        continue;
+      }
+
+      const report = (attribute: string, path?: string) =>
+        this.report({
+          rule: rule.name,
+          attribute,
+          path,
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          observationType: type,
+        });
+
+      for (const pattern of rule.attributePatterns) {
+        for (const key of Object.keys(span.attributes)) {
+          if (pattern.test(key)) {
+            span.attributes[key] = rule.replacement;
+            report(key);
+          }
+        }
+      }
+
+      for (const path of rule.paths) {
+        applyPath(span, path, rule.replacement, report);
+      }
+    }
+  }
+
+  private report(event: LangfuseMaskingEvent): void {
+    if (!this.onMask) return;
+
+    try {
+      this.onMask(event);
+    } catch (err) {
+      getGlobalLogger().warn("Masking audit callback failed.", err);
+    }
+  }
+}
+
+/**
+ * Returns the span attribute keys holding input, output or metadata, including
+ * metadata flattened into `langfuse.observation.metadata.<key>` and
+ * `langfuse.trace.metadata.<key>` attributes.
+ *
+ * @internal
+ */
+export function getPayloadAttributeKeys(span: ReadableSpan): string[] {
+  const metadataPrefixes = TARGET_ATTRIBUTES.metadata.map((key) => `${key}.`);
+
+  return Object.keys(span.attributes).filter(
+    (key) =>
+      TARGET_ATTRIBUTES.input.includes(key as LangfuseOtelSpanAttributes) ||
+      TARGET_ATTRIBUTES.output.includes(key as LangfuseOtelSpanAttributes) ||
+      TARGET_ATTRIBUTES.metadata.includes(key as LangfuseOtelSpanAttributes) ||
+      metadataPrefixes.some((prefix) => key.startsWith(prefix)),
+  );
+}
+
+/**
+ * A span value holding error details, which may quote payloads.
+ *
+ * @internal
+ */
+export type ErrorDetailField = {
+  value: string;
+  set: (value: AttributeValue) => void;
+};
+
+const EXCEPTION_EVENT_DETAIL_ATTRIBUTES = [
+  "exception.message",
+  "exception.stacktrace",
+  "exception.cause",
+];
+
+/**
+ * Returns the error messages, stack traces and causes recorded on the span:
+ * its status message, both as span status and as attribute, and the details
+ * of its exception events.
+ *
+ * @internal
+ */
+export function getErrorDetailFields(span: ReadableSpan): ErrorDetailField[] {
+  const fields: ErrorDetailField[] = [];
+  const statusMessageKey =
+    LangfuseOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE;
+  const statusMessage = span.attributes[statusMessageKey];
+
+  if (typeof statusMessage === "string") {
+    fields.push({
+      value: statusMessage,
+      set: (value) => (span.attributes[statusMessageKey] = value),
+    });
+  }
+
+  if (span.status.message) {
+    fields.push({
+      value: span.status.message,
+      set: (value) =>
+        ((span.status as { message?: string }).message = String(value)),
+    });
+  }
+
+  for (const event of span.events) {
+    const attributes = event.attributes;
+    if (event.name !== "exception" || !attributes) continue;
+
+    for (const key of EXCEPTION_EVENT_DETAIL_ATTRIBUTES) {
+      const value = attributes[key];
+
+      if (typeof value === "string") {
+        fields.push({ value, set: (masked) => (attributes[key] = masked) });
+      }
+    }
+  }
+
+  return fields;
+}
+
+function compileRule(rule: LangfuseMaskingRule): CompiledRule {
+  const paths: ParsedPath[] = [];
+
+  for (const path of rule.paths ?? []) {
+    try {
+      paths.push(parseMaskingPath(path));
+    } catch (err) {
+      getGlobalLogger().warn(
+        `Ignoring invalid path in masking rule '${rule.name}'.`,
+        err,
+      );
+    }
+  }
+
+  return {
+    name: rule.name,
+    paths,
+    attributePatterns: (rule.attributes ?? []).map(globToRegExp),
+    observationTypes: rule.observationTypes ?? null,
+    replacement: rule.replacement ?? DEFAULT_REPLACEMENT,
+  };
+}
+
+function parseMaskingPath(path: string): ParsedPath {
+  const invalid = () => new Error(`Invalid masking path: ${path}`);
+
+  if (!path.startsWith("$")) throw invalid();
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+
+  while (i < path.length) {
+    if (path[i] === ".") {
+      const match = /^[^.[\]]+/.exec(path.slice(i + 1));
+      if (!match) throw invalid();
+
+      segments.push(
+        match[0] === "*"
+          ? { kind: "wildcard" }
+          : { kind: "key", key: match[0] },
+      );
+      i += 1 + match[0].length;
+    } else if (path[i] === "[") {
+      const close = path.indexOf("]", i);
+      if (close === -1) throw invalid();
+
+      const inner = path.slice(i + 1, close);
+      if (inner === "*") {
+        segments.push({ kind: "wildcard" });
+      } else if (/^\d+$/.test(inner)) {
+        segments.push({ kind: "index", index: Number(inner) });
+      } else if (/^'[^']*'$|^"[^"]*"$/.test(inner)) {
+        segments.push({ kind: "key", key: inner.slice(1, -1) });
+      } else {
+        throw invalid();
+      }
+      i = close + 1;
+    } else {
+      throw invalid();
+    }
+  }
+
+  const [first, ...rest] = segments;
+  if (
+    first?.kind !== "key" ||
+    !(
+      first.key === "input" ||
+      first.key === "output" ||
+      first.key === "metadata"
+    )
+  ) {
+    throw invalid();
+  }
+
+  return { target: first.key, segments: rest };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${pattern}$`);
+}
+
+function applyPath(
+  span: ReadableSpan,
+  path: ParsedPath,
+  replacement: string,
+  report: (attribute: string, path?: string) => void,
+): void {
+  for (const attribute of TARGET_ATTRIBUTES[path.target]) {
+    maskAttribute(
+      span,
+      attribute,
+      path.segments,
+      `$.${path.target}`,
+      replacement,
+      report,
+    );
+
+    if (path.target !== "metadata") continue;
+
+    // Object metadata is flattened into one attribute per top-level key
+    const [keySegment = { kind: "wildcard" }, ...rest] = path.segments;
+    if (keySegment.kind === "index") continue;
+
+    const prefix = `${attribute}.`;
+    for (const key of Object.keys(span.attributes)) {
+      if (!key.startsWith(prefix)) continue;
+
+      const metadataKey = key.slice(prefix.length);
+      if (keySegment.kind === "key" && keySegment.key !== metadataKey) continue;
+
+      maskAttribute(
+        span,
+        key,
+        rest,
+        `$.metadata.${metadataKey}`,
+        replacement,
+        report,
+      );
+    }
+  }
+}
+
+function maskAttribute(
+  span: ReadableSpan,
+  attribute: string,
+  segments: PathSegment[],
+  basePath: string,
+  replacement: string,
+  report: (attribute: string, path?: string) => void,
+): void {
+  if (!(attribute in span.attributes)) return;
+
+  if (segments.length === 0) {
+    span.attributes[attribute] = replacement;
+    report(attribute, basePath);
+
+    return;
+  }
+
+  const raw = span.attributes[attribute];
+  if (typeof raw !== "string") return;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  const maskedPaths: string[] = [];
+  const masked = maskValue(
+    parsed,
+    segments,
+    basePath,
+    replacement,
+    maskedPaths,
+  );
+
+  if (maskedPaths.length > 0) {
+    span.attributes[attribute] = JSON.stringify(masked);
+    maskedPaths.forEach((path) => report(attribute, path));
+  }
+}
+
+function maskValue(
+  value: unknown,
+  segments: PathSegment[],
+  currentPath: string,
+  replacement: string,
+  maskedPaths: string[],
+): unknown {
+  if (segments.length === 0) {
+    maskedPaths.push(currentPath);
+
+    return replacement;
+  }
+
+  if (typeof value !== "object" || value === null) return value;
+
+  const [segment, ...rest] = segments;
+  const container = value as Record<string | number, unknown>;
+
+  const visit = (key: string | number) => {
+    const childPath =
+      typeof key === "number"
+        ? `${currentPath}[${key}]`
+        : `${currentPath}.${key}`;
+
+    container[key] = maskValue(
+      container[key],
+      rest,
+      childPath,
+      replacement,
+      maskedPaths,
+    );
+  };
+
+  if (segment.kind === "wildcard") {
+    if (Array.isArray(value)) {
+      value.forEach((_, index) => visit(index));
+    } else {
+      Object.keys(value).forEach(visit);
+    }
+  } else if (segment.kind === "index") {
+    if (Array.isArray(value) && segment.index < value.length) {
+      visit(segment.index);
+    }
+  } else if (!Array.isArray(value) && segment.key in container) {
+    visit(segment.key);
+  }
+
+  return value;
+}
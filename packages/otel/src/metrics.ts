@@ -0,0 +1,132 @@
+import { LANGFUSE_SDK_VERSION, LANGFUSE_TRACER_NAME } from "@langfuse/core";
+import {
+  metrics,
+  type BatchObservableCallback,
+  type Meter,
+} from "@opentelemetry/api";
+
+import type { LangfuseSpanProcessor } from "./span-processor.js";
+import type { LangfuseLatencyKind } from "./stats.js";
+
+/**
+ * Configuration for {@link registerLangfuseProcessorMetrics}.
+ *
+ * @public
+ */
+export interface LangfuseProcessorMetricsParams {
+  /** Meter to create the instruments with. Defaults to a meter of the global MeterProvider */
+  meter?: Meter;
+  /** Prefix of the metric names. Default is `langfuse.sdk` */
+  prefix?: string;
+}
+
+/**
+ * Publishes the {@link LangfuseSpanProcessor.getStats} counters and latencies
+ * as OpenTelemetry metrics, e.g. to alert on dropped spans or failing exports.
+ *
+ * Counters are observed from the processor's stats on each collection, and
+ * latencies are recorded in histograms as they occur. The following
+ * instruments are created, prefixed with `langfuse.sdk`:
+ *
+ * - `spans.started`, `spans.ended`, `spans.exported`, `spans.export_failed`
+ * - `spans.dropped` with a `reason` attribute
+ * - `spans.pending` and `media.pending` gauges
+ * - `masking.failures`
+ * - `media.uploads` with a `status` attribute
+ * - `duration` histogram in milliseconds with an `operation` attribute
+ *
+ * Requires a MeterProvider, e.g. from `@opentelemetry/sdk-metrics`, to be
+ * registered globally or passed via `meter`.
+ *
+ * @param processor - The processor to publish metrics for
+ * @param params - Optional meter and metric name prefix
+ * @returns Function that stops publishing the metrics
+ *
+ * @example
+ * ```typescript
+ * import { LangfuseSpanProcessor, registerLangfuseProcessorMetrics } from '@langfuse/otel';
+ *
+ * const processor = new LangfuseSpanProcessor();
+ * registerLangfuseProcessorMetrics(processor);
+ * ```
+ *
+ * @public
+ */
+export function registerLangfuseProcessorMetrics(
+  processor: LangfuseSpanProcessor,
+  params: LangfuseProcessorMetricsParams = {},
+): () => void {
+  const meter =
+    params.meter ??
+    metrics.getMeter(LANGFUSE_TRACER_NAME, LANGFUSE_SDK_VERSION);
+  const prefix = params.prefix ?? "langfuse.sdk";
+
+  const counter = (name: string, description: string) =>
+    meter.createObservableCounter(`${prefix}.${name}`, { description });
+  const gauge = (name: string, description: string) =>
+    meter.createObservableGauge(`${prefix}.${name}`, { description });
+
+  const spansStarted = counter("spans.started", "Spans started");
+  const spansEnded = counter("spans.ended", "Spans ended");
+  const spansExported = counter("spans.exported", "Spans exported");
+  const spansExportFailed = counter(
+    "spans.export_failed",
+    "Spans in failed export calls",
+  );
+  const spansDropped = counter("spans.dropped", "Spans not exported");
+  const spansPending = gauge("spans.pending", "Ended spans being processed");
+  const maskFailures = counter("masking.failures", "Failed masking calls");
+  const mediaUploads = counter("media.uploads", "Media uploads");
+  const mediaPending = gauge("media.pending", "Media uploads in progress");
+  const observables = [
+    spansStarted,
+    spansEnded,
+    spansExported,
+    spansExportFailed,
+    spansDropped,
+    spansPending,
+    maskFailures,
+    mediaUploads,
+    mediaPending,
+  ];
+
+  const observe: BatchObservableCallback = (result) => {
+    const {
+      spans,
+      media,
+      maskFailures: maskFailureCount,
+    } = processor.getStats();
+
+    result.observe(spansStarted, spans.started);
+    result.observe(spansEnded, spans.ended);
+    result.observe(spansExported, spans.exported);
+    result.observe(spansExportFailed, spans.exportFailed);
+    for (const [reason, count] of Object.entries(spans.dropped)) {
+      result.observe(spansDropped, count, { reason });
+    }
+    result.observe(spansPending, spans.pending);
+    result.observe(maskFailures, maskFailureCount);
+    for (const status of ["queued", "succeeded", "failed"] as const) {
+      result.observe(mediaUploads, media[status], { status });
+    }
+    result.observe(mediaPending, media.pending);
+  };
+
+  const duration = meter.createHistogram<{ operation: LangfuseLatencyKind }>(
+    `${prefix}.duration`,
+    { description: "Duration of processor operations", unit: "ms" },
+  );
+
+  meter.addBatchObservableCallback(observe, observables);
+  const removeLatencyListener = processor.on(
+    "latency",
+    ({ kind, durationMs }) => {
+      duration.record(durationMs, { operation: kind });
+    },
+  );
+
+  return () => {
+    meter.removeBatchObservableCallback(observe, observables);
+    removeLatencyListener();
+  };
+}
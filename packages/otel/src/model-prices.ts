@@ -0,0 +1,109 @@
+import type { LangfuseModelDefinition } from "./pricing.js";
+
+/**
+ * Prices (USD per unit) of common models, used to seed the
+ * LangfuseModelPriceRegistry. Prices change over time; sync the registry from
+ * the Langfuse models API to use the definitions of your Langfuse project.
+ *
+ * @internal
+ */
+export const BUNDLED_MODEL_DEFINITIONS: LangfuseModelDefinition[] = [
+  {
+    modelName: "gpt-4o",
+    matchPattern: "(?i)^(openai/)?(gpt-4o)(-\\d{4}-\\d{2}-\\d{2})?$",
+    prices: {
+      input: 0.0000025,
+      input_cached_tokens: 0.00000125,
+      output: 0.00001,
+    },
+  },
+  {
+    modelName: "gpt-4o-mini",
+    matchPattern: "(?i)^(openai/)?(gpt-4o-mini)(-\\d{4}-\\d{2}-\\d{2})?$",
+    prices: {
+      input: 0.00000015,
+      input_cached_tokens: 0.000000075,
+      output: 0.0000006,
+    },
+  },
+  {
+    modelName: "gpt-4.1",
+    matchPattern: "(?i)^(openai/)?(gpt-4\\.1)(-\\d{4}-\\d{2}-\\d{2})?$",
+    prices: {
+      input: 0.000002,
+      input_cached_tokens: 0.0000005,
+      output: 0.000008,
+    },
+  },
+  {
+    modelName: "gpt-4.1-mini",
+    matchPattern: "(?i)^(openai/)?(gpt-4\\.1-mini)(-\\d{4}-\\d{2}-\\d{2})?$",
+    prices: {
+      input: 0.0000004,
+      input_cached_tokens: 0.0000001,
+      output: 0.0000016,
+    },
+  },
+  {
+    modelName: "text-embedding-3-small",
+    matchPattern: "(?i)^(openai/)?(text-embedding-3-small)$",
+    prices: { input: 0.00000002, total: 0.00000002 },
+  },
+  {
+    modelName: "text-embedding-3-large",
+    matchPattern: "(?i)^(openai/)?(text-embedding-3-large)$",
+    prices: { input: 0.00000013, total: 0.00000013 },
+  },
+  {
+    modelName: "claude-sonnet-4",
+    matchPattern:
+      "(?i)^(anthropic/)?(claude-sonnet-4(-0)?(-\\d{8})?|claude-3-[57]-sonnet(-\\d{8})?(-latest)?)$",
+    prices: {
+      input: 0.000003,
+      input_tokens: 0.000003,
+      output: 0.000015,
+      output_tokens: 0.000015,
+      cache_creation_input_tokens: 0.00000375,
+      input_cache_creation: 0.00000375,
+      cache_read_input_tokens: 0.0000003,
+      input_cache_read: 0.0000003,
+    },
+  },
+  {
+    modelName: "claude-3-5-haiku",
+    matchPattern: "(?i)^(anthropic/)?(claude-3-5-haiku(-\\d{8})?(-latest)?)$",
+    prices: {
+      input: 0.0000008,
+      input_tokens: 0.0000008,
+      output: 0.000004,
+      output_tokens: 0.000004,
+      cache_creation_input_tokens: 0.000001,
+      input_cache_creation: 0.000001,
+      cache_read_input_tokens: 0.00000008,
+      input_cache_read: 0.00000008,
+    },
+  },
+  {
+    modelName: "gemini-2.5-pro",
+    matchPattern: "(?i)^(google/)?(gemini-2\\.5-pro)(-preview.*)?$",
+    pricingTiers: [
+      {
+        name: "Standard",
+        prices: { input: 0.00000125, output: 0.00001 },
+      },
+      {
+        name: "Large Context",
+        priority: 1,
+        conditions: [
+          {
+            usageDetailPattern: "(input|prompt|cached)",
+            operator: "gt",
+            value: 200_000,
+            caseSensitive: false,
+          },
+        ],
+        prices: { input: 0.0000025, output: 0.000015 },
+      },
+    ],
+  },
+];
@@ -0,0 +1,27 @@
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Serializes spans as an OTLP-JSON `ExportTraceServiceRequest`.
+ *
+ * `@opentelemetry/otlp-transformer` is an optional peer dependency that is
+ * only needed for file and retry queue exports, so it is loaded on first use.
+ *
+ * @internal
+ */
+export async function serializeOtlpJson(
+  spans: ReadableSpan[],
+): Promise<string> {
+  let transformer: typeof import("@opentelemetry/otlp-transformer");
+
+  try {
+    transformer = await import("@opentelemetry/otlp-transformer");
+  } catch (err) {
+    throw new Error(
+      `Serializing spans as OTLP-JSON requires the @opentelemetry/otlp-transformer package. Please install it. ${err}`,
+    );
+  }
+
+  return new TextDecoder().decode(
+    transformer.JsonTraceSerializer.serializeRequest(spans),
+  );
+}
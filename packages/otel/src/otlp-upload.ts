@@ -0,0 +1,30 @@
+import { isRetryableStatus, LangfuseNonRetryableError } from "@langfuse/core";
+
+/**
+ * Posts an OTLP-JSON `ExportTraceServiceRequest` to the Langfuse OTLP endpoint.
+ *
+ * @throws If the request fails or is answered with a non-2xx status, a
+ *   {@link LangfuseNonRetryableError} if retrying cannot succeed
+ * @internal
+ */
+export async function uploadOtlpTraces(params: {
+  baseUrl: string;
+  headers: Record<string, string>;
+  body: string;
+  timeoutMillis: number;
+}): Promise<void> {
+  const response = await fetch(`${params.baseUrl}/api/public/otel/v1/traces`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...params.headers },
+    body: params.body,
+    signal: AbortSignal.timeout(params.timeoutMillis),
+  });
+
+  if (!response.ok) {
+    const message = `Failed to upload spans: ${response.status} ${response.statusText} ${await response.text()}`;
+
+    throw isRetryableStatus(response.status)
+      ? new Error(message)
+      : new LangfuseNonRetryableError(message);
+  }
+}
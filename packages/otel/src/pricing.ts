@@ -0,0 +1,547 @@
+import {
+  getGlobalLogger,
+  LangfuseAPIClient,
+  LangfuseOtelSpanAttributes,
+  type Model,
+  type PricingTierCondition,
+} from "@langfuse/core";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+import { BUNDLED_MODEL_DEFINITIONS } from "./model-prices.js";
+
+/**
+ * Observation metadata key under which the LangfuseSpanProcessor records the
+ * model definition used to calculate costs.
+ *
+ * @internal
+ */
+export const PRICING_METADATA_KEY = "pricing";
+
+const PRICED_OBSERVATION_TYPES = ["generation", "embedding"];
+const SYNC_PAGE_SIZE = 100;
+
+/**
+ * A pricing tier of a model definition. Tiers are evaluated by ascending
+ * priority; the first tier whose conditions all match is used. The tier
+ * without conditions is the default.
+ *
+ * @public
+ */
+export type LangfuseModelPricingTier = {
+  /** Name of the tier, e.g. "Large Context" */
+  name: string;
+  /** Evaluation order, lower first. Default is 0 */
+  priority?: number;
+  /** Conditions on usage details, model parameters or metadata, all of which must match */
+  conditions?: PricingTierCondition[];
+  /** Prices (USD) per unit by usage type, e.g. `{ input: 0.000003, output: 0.000015 }` */
+  prices: Record<string, number>;
+};
+
+/**
+ * A model definition in the {@link LangfuseModelPriceRegistry}, mirroring
+ * model definitions in Langfuse.
+ *
+ * @public
+ */
+export type LangfuseModelDefinition = {
+  /** Name of the model definition */
+  modelName: string;
+  /**
+   * Regular expression matched against the observation's model. A leading
+   * `(?i)` makes it case-insensitive, as in Langfuse model definitions.
+   */
+  matchPattern: string;
+  /** Applies only to observations started at or after this date */
+  startDate?: string | Date | null;
+  /** Flat prices (USD) per unit by usage type. Ignored if pricing tiers are set */
+  prices?: Record<string, number>;
+  /** Tiered prices, e.g. for large context windows */
+  pricingTiers?: LangfuseModelPricingTier[];
+  /**
+   * Whether the prices are internal unit costs, e.g. of a self-hosted model,
+   * rather than provider list prices. Recorded with the calculated costs.
+   */
+  internal?: boolean;
+};
+
+/**
+ * Where the model definition used for a cost calculation came from.
+ *
+ * @public
+ */
+export type LangfuseModelPriceSource =
+  | "bundled"
+  | "api"
+  | "custom"
+  | "internal";
+
+/**
+ * The result of a cost calculation.
+ *
+ * @public
+ */
+export type LangfuseCostCalculation = {
+  /** Costs (USD) by usage type, including the `total` */
+  costDetails: Record<string, number>;
+  /** Name of the matched model definition */
+  modelName: string;
+  /** Name of the matched pricing tier, if tiered */
+  tier?: string;
+  /** Where the model definition came from */
+  source: LangfuseModelPriceSource;
+};
+
+/**
+ * Options for the cost calculation of the LangfuseSpanProcessor.
+ *
+ * @public
+ */
+export type LangfusePricingConfig = {
+  /**
+   * The price registry. Defaults to a registry seeded with the bundled prices.
+   */
+  registry?: LangfuseModelPriceRegistry;
+  /**
+   * Whether to load the model definitions of the Langfuse project via the
+   * models API when the processor is created. Default is false.
+   */
+  syncFromApi?: boolean;
+};
+
+type RegisteredModel = {
+  definition: LangfuseModelDefinition;
+  pattern: RegExp;
+  startTime: number;
+  source: LangfuseModelPriceSource;
+  rank: number;
+  order: number;
+};
+
+type PricingContext = {
+  /** When the observation started. Default is now */
+  at?: Date;
+  /** Model parameters of the observation, for attribute-based tiers */
+  modelParameters?: Record<string, unknown>;
+  /** Metadata of the observation, for attribute-based tiers */
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Registry of model prices used to calculate the costs of generations from
+ * their usage on the client.
+ *
+ * The registry is seeded with prices of common models. Definitions can be
+ * added in code or from JSON, and synced from the Langfuse models API. When
+ * several definitions match a model, user-provided definitions take
+ * precedence over synced ones, which take precedence over bundled ones;
+ * among those, the newest definition started before the observation wins.
+ *
+ * @example
+ * ```typescript
+ * const registry = new LangfuseModelPriceRegistry();
+ *
+ * // Internal unit costs of a self-hosted model
+ * registry.register({
+ *   modelName: 'llama-3-70b-internal',
+ *   matchPattern: '^llama-3-70b$',
+ *   prices: { input: 0.0000002, output: 0.0000004 },
+ *   internal: true,
+ * });
+ *
+ * const processor = new LangfuseSpanProcessor({
+ *   pricing: { registry, syncFromApi: true },
+ * });
+ * ```
+ *
+ * @public
+ */
+export class LangfuseModelPriceRegistry {
+  private models: RegisteredModel[] = [];
+  private registrations = 0;
+
+  /**
+   * Creates a new price registry.
+   *
+   * @param params - Initial definitions, and whether to include the bundled prices (default true)
+   */
+  constructor(params?: {
+    models?: LangfuseModelDefinition[];
+    includeBundled?: boolean;
+  }) {
+    if (params?.includeBundled !== false) {
+      this.add(BUNDLED_MODEL_DEFINITIONS, "bundled");
+    }
+
+    if (params?.models) {
+      this.register(params.models);
+    }
+  }
+
+  /**
+   * Adds model definitions. They take precedence over bundled and synced
+   * definitions, and over earlier registrations for the same model.
+   *
+   * @param definitions - One or more model definitions
+   */
+  public register(
+    definitions: LangfuseModelDefinition | LangfuseModelDefinition[],
+  ): this {
+    const list = Array.isArray(definitions) ? definitions : [definitions];
+
+    for (const definition of list) {
+      this.add([definition], definition.internal ? "internal" : "custom");
+    }
+
+    return this;
+  }
+
+  /**
+   * Adds model definitions from JSON, e.g. a price table shipped with the
+   * application. Accepts an array of definitions or an object with a `data`
+   * array, as returned by the models API.
+   *
+   * @param json - The JSON string or parsed value
+   */
+  public loadJson(json: string | unknown): this {
+    const parsed = typeof json === "string" ? JSON.parse(json) : json;
+    const list: unknown = Array.isArray(parsed) ? parsed : parsed?.data;
+
+    if (!Array.isArray(list)) {
+      throw new Error(
+        "Model price JSON must be an array of model definitions or an object with a 'data' array.",
+      );
+    }
+
+    return this.register(
+      list.map((item) =>
+        "isLangfuseManaged" in item
+          ? fromApiModel(item as Model)
+          : (item as LangfuseModelDefinition),
+      ),
+    );
+  }
+
+  /**
+   * Loads the model definitions of a Langfuse project via the models API,
+   * replacing previously synced definitions.
+   *
+   * @param apiClient - The Langfuse API client
+   */
+  public async syncFromApi(apiClient: LangfuseAPIClient): Promise<void> {
+    const synced: RegisteredModel[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await apiClient.models.list({
+        page,
+        limit: SYNC_PAGE_SIZE,
+      });
+
+      for (const model of response.data) {
+        const registered = this.toRegistered(
+          fromApiModel(model),
+          "api",
+          model.isLangfuseManaged ? 1 : 2,
+        );
+
+        if (registered) synced.push(registered);
+      }
+
+      totalPages = response.meta.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    this.models = [...this.models.filter((m) => m.source !== "api"), ...synced];
+  }
+
+  /**
+   * Finds the model definition that applies to a model.
+   *
+   * @param model - The model name of the observation
+   * @param at - When the observation started. Default is now
+   * @returns The matching definition, or undefined if none matches
+   */
+  public findModel(
+    model: string,
+    at: Date = new Date(),
+  ): LangfuseModelDefinition | undefined {
+    return this.match(model, at)?.definition;
+  }
+
+  /**
+   * Calculates costs (USD) by usage type from usage details.
+   *
+   * @param model - The model name of the observation
+   * @param usageDetails - Units by usage type, e.g. `{ input: 1200, output: 300 }`
+   * @param context - Start time, model parameters and metadata of the observation
+   * @returns The costs, or undefined if no definition with prices for the usage matches
+   */
+  public calculateCost(
+    model: string,
+    usageDetails: Record<string, number>,
+    context: PricingContext = {},
+  ): LangfuseCostCalculation | undefined {
+    const registered = this.match(model, context.at ?? new Date());
+    if (!registered) return undefined;
+
+    const { definition, source } = registered;
+    const tier = selectTier(definition, usageDetails, context);
+    const prices = tier?.prices ?? definition.prices ?? {};
+
+    const costDetails: Record<string, number> = {};
+    let total = 0;
+
+    for (const [usageType, units] of Object.entries(usageDetails)) {
+      const price = prices[usageType];
+
+      if (usageType === "total" || price === undefined) continue;
+      if (typeof units !== "number" || !isFinite(units)) continue;
+
+      costDetails[usageType] = units * price;
+      total += units * price;
+    }
+
+    // Models priced by total units only, e.g. embeddings
+    if (
+      Object.keys(costDetails).length === 0 &&
+      prices.total !== undefined &&
+      typeof usageDetails.total === "number"
+    ) {
+      total = usageDetails.total * prices.total;
+    } else if (Object.keys(costDetails).length === 0) {
+      return undefined;
+    }
+
+    costDetails.total = total;
+
+    return {
+      costDetails,
+      modelName: definition.modelName,
+      tier: definition.pricingTiers?.length ? tier?.name : undefined,
+      source,
+    };
+  }
+
+  private add(
+    definitions: LangfuseModelDefinition[],
+    source: LangfuseModelPriceSource,
+  ) {
+    const rank = source === "bundled" ? 0 : 3;
+
+    for (const definition of definitions) {
+      const registered = this.toRegistered(definition, source, rank);
+
+      if (registered) this.models.push(registered);
+    }
+  }
+
+  private toRegistered(
+    definition: LangfuseModelDefinition,
+    source: LangfuseModelPriceSource,
+    rank: number,
+  ): RegisteredModel | undefined {
+    try {
+      return {
+        definition,
+        pattern: compileMatchPattern(definition.matchPattern),
+        startTime: definition.startDate
+          ? new Date(definition.startDate).getTime()
+          : -Infinity,
+        source,
+        rank,
+        order: this.registrations++,
+      };
+    } catch (err) {
+      getGlobalLogger().warn(
+        `Invalid match pattern '${definition.matchPattern}' of model '${definition.modelName}'. Skipping model definition.`,
+        err,
+      );
+
+      return undefined;
+    }
+  }
+
+  private match(model: string, at: Date): RegisteredModel | undefined {
+    let best: RegisteredModel | undefined;
+
+    for (const candidate of this.models) {
+      if (candidate.startTime > at.getTime()) continue;
+      if (!candidate.pattern.test(model)) continue;
+
+      if (
+        !best ||
+        candidate.rank > best.rank ||
+        (candidate.rank === best.rank &&
+          (candidate.startTime > best.startTime ||
+            (candidate.startTime === best.startTime &&
+              candidate.order > best.order)))
+      ) {
+        best = candidate;
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Fills the cost details of generation and embedding spans from their model
+ * and usage details, unless costs were already set.
+ *
+ * @internal
+ */
+export function applyModelPricesInPlace(
+  span: ReadableSpan,
+  registry: LangfuseModelPriceRegistry,
+): void {
+  const attributes = span.attributes;
+  const type = attributes[LangfuseOtelSpanAttributes.OBSERVATION_TYPE];
+  const model = attributes[LangfuseOtelSpanAttributes.OBSERVATION_MODEL];
+  const usage =
+    attributes[LangfuseOtelSpanAttributes.OBSERVATION_USAGE_DETAILS];
+
+  if (
+    !PRICED_OBSERVATION_TYPES.includes(String(type)) ||
+    typeof model !== "string" ||
+    typeof usage !== "string" ||
+    attributes[LangfuseOtelSpanAttributes.OBSERVATION_COST_DETAILS] !==
+      undefined
+  ) {
+    return;
+  }
+
+  const calculation = registry.calculateCost(model, parseJson(usage) ?? {}, {
+    at: new Date(hrTimeToMilliseconds(span.startTime)),
+    modelParameters: parseJson(
+      attributes[LangfuseOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS],
+    ),
+    metadata: readObservationMetadata(span),
+  });
+
+  if (!calculation) return;
+
+  const { costDetails, ...pricing } = calculation;
+
+  attributes[LangfuseOtelSpanAttributes.OBSERVATION_COST_DETAILS] =
+    JSON.stringify(costDetails);
+  attributes[
+    `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.${PRICING_METADATA_KEY}`
+  ] = JSON.stringify(pricing);
+}
+
+function selectTier(
+  definition: LangfuseModelDefinition,
+  usageDetails: Record<string, number>,
+  context: PricingContext,
+): LangfuseModelPricingTier | undefined {
+  const tiers = definition.pricingTiers ?? [];
+  const conditional = tiers
+    .filter((tier) => tier.conditions?.length)
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+  return (
+    conditional.find((tier) =>
+      tier.conditions!.every((condition) =>
+        matchesCondition(condition, usageDetails, context),
+      ),
+    ) ?? tiers.find((tier) => !tier.conditions?.length)
+  );
+}
+
+function matchesCondition(
+  condition: PricingTierCondition,
+  usageDetails: Record<string, number>,
+  context: PricingContext,
+): boolean {
+  if ("source" in condition) {
+    const attributes =
+      condition.source === "metadata"
+        ? context.metadata
+        : context.modelParameters;
+    const value = attributes?.[condition.key];
+
+    return value != null && condition.values.includes(String(value));
+  }
+
+  const pattern = new RegExp(
+    condition.usageDetailPattern,
+    condition.caseSensitive ? "" : "i",
+  );
+  const sum = Object.entries(usageDetails)
+    .filter(([key]) => pattern.test(key))
+    .reduce((acc, [, units]) => acc + (Number(units) || 0), 0);
+
+  switch (condition.operator) {
+    case "gt":
+      return sum > condition.value;
+    case "gte":
+      return sum >= condition.value;
+    case "lt":
+      return sum < condition.value;
+    case "lte":
+      return sum <= condition.value;
+    case "eq":
+      return sum === condition.value;
+    case "neq":
+      return sum !== condition.value;
+    default:
+      return false;
+  }
+}
+
+function compileMatchPattern(matchPattern: string): RegExp {
+  return matchPattern.startsWith("(?i)")
+    ? new RegExp(matchPattern.slice(4), "i")
+    : new RegExp(matchPattern);
+}
+
+function fromApiModel(model: Model): LangfuseModelDefinition {
+  const prices: Record<string, number> = {};
+
+  for (const [usageType, { price }] of Object.entries(model.prices ?? {})) {
+    prices[usageType] = price;
+  }
+  if (model.inputPrice != null) prices.input ??= model.inputPrice;
+  if (model.outputPrice != null) prices.output ??= model.outputPrice;
+  if (model.totalPrice != null) prices.total ??= model.totalPrice;
+
+  return {
+    modelName: model.modelName,
+    matchPattern: model.matchPattern,
+    startDate: model.startDate,
+    prices,
+    pricingTiers: model.pricingTiers?.map((tier) => ({
+      name: tier.name,
+      priority: tier.priority,
+      conditions: tier.conditions,
+      prices: tier.prices,
+    })),
+  };
+}
+
+function readObservationMetadata(span: ReadableSpan): Record<string, unknown> {
+  const prefix = `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.`;
+  const metadata: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(span.attributes)) {
+    if (!key.startsWith(prefix)) continue;
+
+    const parsed = parseJson(value);
+    metadata[key.slice(prefix.length)] = parsed === undefined ? value : parsed;
+  }
+
+  return metadata;
+}
+
+function parseJson(value: unknown): any {
+  if (typeof value !== "string") return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
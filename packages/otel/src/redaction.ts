@@ -0,0 +1,380 @@
+import { getGlobalLogger } from "@langfuse/core";
+
+import type { MaskFunction } from "./span-processor.js";
+
+/**
+ * Observation metadata key under which the LangfuseSpanProcessor reports
+ * redaction counts.
+ *
+ * @internal
+ */
+export const REDACTION_COUNTS_METADATA_KEY = "pii_redactions";
+
+/**
+ * Detector for a category of personally identifiable information.
+ *
+ * @public
+ */
+export interface LangfusePiiDetector {
+  /**
+   * Name of the detector. Used in replacement tokens and redaction counts.
+   */
+  name: string;
+
+  /**
+   * Pattern matching candidate values. All matches are redacted, whether or
+   * not the global flag is set.
+   */
+  pattern: RegExp;
+
+  /**
+   * Optional check on each candidate match, e.g. a checksum, to reduce false positives.
+   */
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * How detected values are redacted.
+ *
+ * - `replace`: replaced by `<redacted:<detector>>`
+ * - `hash`: replaced by `<redacted:<detector>:<hash>>`, where hash is a
+ *   truncated SHA-256 of the value, so equal values remain correlatable
+ * - `partial`: all but the last four characters are replaced by `*`
+ *
+ * @public
+ */
+export type LangfuseRedactionStrategy = "replace" | "hash" | "partial";
+
+/**
+ * Configuration of PII redaction.
+ *
+ * @public
+ */
+export interface LangfuseRedactionConfig {
+  /**
+   * Detectors to apply. Earlier detectors take precedence on overlapping matches.
+   *
+   * @defaultValue all detectors in {@link PII_DETECTORS}
+   */
+  detectors?: LangfusePiiDetector[];
+
+  /**
+   * Redaction strategy.
+   *
+   * @defaultValue "replace"
+   */
+  strategy?: LangfuseRedactionStrategy;
+
+  /**
+   * Salt prepended to values before hashing with the `hash` strategy.
+   */
+  hashSalt?: string;
+}
+
+/**
+ * Result of {@link redactPii}.
+ *
+ * @public
+ */
+export type LangfuseRedactionResult<T> = {
+  /** The redacted data */
+  data: T;
+  /** Number of redacted values by detector name */
+  counts: Record<string, number>;
+};
+
+/**
+ * Built-in PII detectors.
+ *
+ * @public
+ */
+export const PII_DETECTORS = {
+  jwt: {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  },
+  apiKey: {
+    name: "api_key",
+    pattern:
+      /\b(?:(?:sk|pk)-lf-[A-Za-z0-9-]{8,}|sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|AKIA[0-9A-Z]{16}|xox[abprs]-[A-Za-z0-9-]{10,})/g,
+  },
+  email: {
+    name: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  creditCard: {
+    name: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => isValidLuhn(match.replace(/\D/g, "")),
+  },
+  iban: {
+    name: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: (match) => isValidIban(match.replace(/ /g, "")),
+  },
+  ipAddress: {
+    name: "ip_address",
+    pattern:
+      /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|\b(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}\b/g,
+  },
+  phone: {
+    name: "phone",
+    pattern: /(?<![\w+])\+?\d[\d ().-]{6,}\d(?!\w)/g,
+    validate: (match) => {
+      const digitCount = match.replace(/\D/g, "").length;
+
+      // Require a leading + or separators to not match plain ids, and skip dates
+      return (
+        digitCount >= 8 &&
+        digitCount <= 15 &&
+        /^\+|[ ().-]/.test(match) &&
+        !/^\d{4}-\d{2}-\d{2}/.test(match)
+      );
+    },
+  },
+} satisfies Record<string, LangfusePiiDetector>;
+
+/**
+ * Redacts PII from all strings within the given data.
+ *
+ * Objects and arrays are walked recursively, and strings holding JSON are
+ * parsed and walked as well, so that detectors see individual values rather
+ * than serialized documents. The input is not mutated.
+ *
+ * @param data - The data to redact
+ * @param config - Redaction configuration
+ * @returns The redacted data and the number of redacted values per detector
+ *
+ * @example
+ * ```typescript
+ * const { data, counts } = await redactPii(
+ *   { message: "Contact me at jane@example.com" },
+ *   { detectors: [PII_DETECTORS.email] },
+ * );
+ * // data: { message: "Contact me at <redacted:email>" }
+ * // counts: { email: 1 }
+ * ```
+ *
+ * @public
+ */
+export async function redactPii<T>(
+  data: T,
+  config: LangfuseRedactionConfig = {},
+): Promise<LangfuseRedactionResult<T>> {
+  const counts: Record<string, number> = {};
+  const redacted = await redactValue(data, config, counts, true);
+
+  return { data: redacted as T, counts };
+}
+
+/**
+ * Creates a mask function that redacts PII, for use as `mask` in the
+ * LangfuseSpanProcessor or composed with custom masking logic.
+ *
+ * Use the `redaction` option of the LangfuseSpanProcessor instead to
+ * additionally report redaction counts as observation metadata.
+ *
+ * @param config - Redaction configuration
+ * @returns A mask function
+ *
+ * @public
+ */
+export function createPiiMaskFunction(
+  config: LangfuseRedactionConfig = {},
+): MaskFunction {
+  return async ({ data }) => (await redactPii(data, config)).data;
+}
+
+async function redactValue(
+  value: unknown,
+  config: LangfuseRedactionConfig,
+  counts: Record<string, number>,
+  parseJson: boolean,
+): Promise<unknown> {
+  if (typeof value === "string") {
+    if (parseJson) {
+      const parsed = tryParseJsonContainer(value);
+
+      if (parsed !== undefined) {
+        const countBefore = sumCounts(counts);
+        const redacted = await redactValue(parsed, config, counts, false);
+
+        return sumCounts(counts) > countBefore
+          ? JSON.stringify(redacted)
+          : value;
+      }
+    }
+
+    return redactString(value, config, counts);
+  }
+
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    for (const item of value) {
+      result.push(await redactValue(item, config, counts, parseJson));
+    }
+
+    return result;
+  }
+
+  if (value !== null && typeof value === "object" && isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = await redactValue(item, config, counts, parseJson);
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+type Match = { start: number; end: number; value: string; detector: string };
+
+async function redactString(
+  value: string,
+  config: LangfuseRedactionConfig,
+  counts: Record<string, number>,
+): Promise<string> {
+  const detectors: LangfusePiiDetector[] =
+    config.detectors ?? Object.values(PII_DETECTORS);
+  const matches: Match[] = [];
+
+  for (const detector of detectors) {
+    const pattern = detector.pattern.global
+      ? new RegExp(detector.pattern.source, detector.pattern.flags)
+      : new RegExp(detector.pattern.source, `${detector.pattern.flags}g`);
+
+    for (const match of value.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+
+      if (match[0].length === 0) continue;
+      if (matches.some((m) => start < m.end && end > m.start)) continue;
+
+      try {
+        if (detector.validate && !detector.validate(match[0])) continue;
+      } catch (err) {
+        getGlobalLogger().warn(
+          `PII detector '${detector.name}' validation failed.`,
+          err,
+        );
+
+        continue;
+      }
+
+      matches.push({ start, end, value: match[0], detector: detector.name });
+    }
+  }
+
+  if (matches.length === 0) return value;
+
+  matches.sort((a, b) => a.start - b.start);
+
+  let result = "";
+  let cursor = 0;
+
+  for (const match of matches) {
+    result += value.slice(cursor, match.start);
+    result += await applyStrategy(match, config);
+    cursor = match.end;
+
+    counts[match.detector] = (counts[match.detector] ?? 0) + 1;
+  }
+
+  return result + value.slice(cursor);
+}
+
+async function applyStrategy(
+  match: Match,
+  config: LangfuseRedactionConfig,
+): Promise<string> {
+  switch (config.strategy ?? "replace") {
+    case "partial": {
+      const revealed = match.value.length > 8 ? match.value.slice(-4) : "";
+
+      return "*".repeat(match.value.length - revealed.length) + revealed;
+    }
+    case "hash": {
+      const hash = await sha256Hex(`${config.hashSalt ?? ""}${match.value}`);
+
+      return hash
+        ? `<redacted:${match.detector}:${hash.slice(0, 12)}>`
+        : `<redacted:${match.detector}>`;
+    }
+    default:
+      return `<redacted:${match.detector}>`;
+  }
+}
+
+async function sha256Hex(value: string): Promise<string | undefined> {
+  try {
+    const hash = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(value),
+    );
+
+    return Array.from(new Uint8Array(hash))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  } catch (err) {
+    getGlobalLogger().warn("Failed to hash value for PII redaction.", err);
+
+    return undefined;
+  }
+}
+
+function tryParseJsonContainer(value: string): unknown {
+  const trimmed = value.trimStart();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+
+  return proto === Object.prototype || proto === null;
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+function isValidLuhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+function isValidIban(iban: string): boolean {
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    const value = code >= 65 ? String(code - 55) : char;
+
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
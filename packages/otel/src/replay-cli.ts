@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import { replaySpanFiles } from "./replay.js";
+
+const USAGE = `Usage: langfuse-otel-replay [--batch-size <spans>] <file or directory>...
+
+Uploads span files written by the FileSpanExporter to Langfuse. Reads the
+credentials from LANGFUSE_PUBLIC_KEY, LANGFUSE_SECRET_KEY and LANGFUSE_BASE_URL.`;
+
+async function main(args: string[]): Promise<number> {
+  const paths: string[] = [];
+  let batchSize: number | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--help" || args[i] === "-h") {
+      console.log(USAGE);
+
+      return 0;
+    } else if (args[i] === "--batch-size") {
+      batchSize = Number(args[++i]);
+    } else {
+      paths.push(args[i]);
+    }
+  }
+
+  if (paths.length === 0 || (batchSize !== undefined && !(batchSize > 0))) {
+    console.error(USAGE);
+
+    return 1;
+  }
+
+  const result = await replaySpanFiles({ paths, batchSize });
+  console.log(
+    `Uploaded ${result.spans} spans from ${result.files} files in ${result.requests} requests.`,
+  );
+  if (result.skippedLines > 0) {
+    console.warn(`Skipped ${result.skippedLines} invalid lines.`);
+  }
+
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,213 @@
+import {
+  base64Encode,
+  getEnv,
+  getGlobalLogger,
+  LANGFUSE_SDK_VERSION,
+} from "@langfuse/core";
+
+import { uploadOtlpTraces } from "./otlp-upload.js";
+
+const DEFAULT_BATCH_SIZE = 100;
+
+type OtlpResourceSpans = {
+  scopeSpans?: { spans?: unknown[] }[];
+};
+
+type OtlpTraceRequest = {
+  resourceSpans: OtlpResourceSpans[];
+};
+
+/**
+ * Configuration for {@link replaySpanFiles}. Credentials and base URL fall
+ * back to the same environment variables as the LangfuseSpanProcessor.
+ *
+ * @public
+ */
+export interface ReplaySpanFilesParams {
+  /** Span files written by the {@link FileSpanExporter}, or directories containing them */
+  paths: string[];
+  /** Langfuse public key. Defaults to LANGFUSE_PUBLIC_KEY */
+  publicKey?: string;
+  /** Langfuse secret key. Defaults to LANGFUSE_SECRET_KEY */
+  secretKey?: string;
+  /** Langfuse base URL. Defaults to LANGFUSE_BASE_URL or https://cloud.langfuse.com */
+  baseUrl?: string;
+  /** Additional HTTP headers sent with each request */
+  additionalHeaders?: Record<string, string>;
+  /**
+   * Number of spans per upload request. Lines are not split, so a request
+   * contains at least one line. Default is 100
+   */
+  batchSize?: number;
+  /** Request timeout in seconds. Default is 30 */
+  timeout?: number;
+}
+
+/**
+ * Summary of a {@link replaySpanFiles} run.
+ *
+ * @public
+ */
+export type ReplaySpanFilesResult = {
+  /** Number of files read */
+  files: number;
+  /** Number of upload requests sent */
+  requests: number;
+  /** Number of spans uploaded */
+  spans: number;
+  /** Number of lines skipped because they are not valid OTLP-JSON, e.g. from an interrupted write */
+  skippedLines: number;
+};
+
+/**
+ * Uploads span files written by the {@link FileSpanExporter} to the Langfuse
+ * OTLP endpoint in batches.
+ *
+ * Spans keep the trace and span IDs they were written with, so replaying a
+ * file again, e.g. after a failed run, updates the previously uploaded
+ * observations instead of duplicating them. Files in directories are
+ * replayed in name order, i.e. in write order.
+ *
+ * This function requires a Node.js file system.
+ *
+ * @param params - Files to replay and Langfuse credentials
+ * @returns Summary of the uploaded spans
+ * @throws If a file cannot be read or an upload request fails
+ *
+ * @example
+ * ```typescript
+ * import { replaySpanFiles } from '@langfuse/otel';
+ *
+ * const { spans } = await replaySpanFiles({ paths: ['./langfuse-spans'] });
+ * console.log(`Uploaded ${spans} spans`);
+ * ```
+ *
+ * @public
+ */
+export async function replaySpanFiles(
+  params: ReplaySpanFilesParams,
+): Promise<ReplaySpanFilesResult> {
+  const publicKey = params.publicKey ?? getEnv("LANGFUSE_PUBLIC_KEY");
+  const secretKey = params.secretKey ?? getEnv("LANGFUSE_SECRET_KEY");
+  const baseUrl =
+    params.baseUrl ??
+    getEnv("LANGFUSE_BASE_URL") ??
+    getEnv("LANGFUSE_BASEURL") ?? // legacy v2
+    "https://cloud.langfuse.com";
+  const batchSize = params.batchSize ?? DEFAULT_BATCH_SIZE;
+  const timeoutSeconds = params.timeout ?? 30;
+
+  if (!publicKey || !secretKey) {
+    throw new Error(
+      "Replaying span files requires a public and secret key, provided as parameters or as LANGFUSE_PUBLIC_KEY and LANGFUSE_SECRET_KEY env vars.",
+    );
+  }
+
+  const headers = {
+    Authorization: `Basic ${base64Encode(`${publicKey}:${secretKey}`)}`,
+    "x-langfuse-sdk-name": "javascript",
+    "x-langfuse-sdk-version": LANGFUSE_SDK_VERSION,
+    "x-langfuse-public-key": publicKey,
+    ...params.additionalHeaders,
+  };
+
+  const result: ReplaySpanFilesResult = {
+    files: 0,
+    requests: 0,
+    spans: 0,
+    skippedLines: 0,
+  };
+
+  let batch: OtlpResourceSpans[] = [];
+  let batchSpanCount = 0;
+
+  const upload = async () => {
+    if (batchSpanCount === 0) return;
+
+    await uploadOtlpTraces({
+      baseUrl,
+      headers,
+      body: JSON.stringify({ resourceSpans: batch }),
+      timeoutMillis: timeoutSeconds * 1_000,
+    });
+
+    result.requests++;
+    result.spans += batchSpanCount;
+    batch = [];
+    batchSpanCount = 0;
+  };
+
+  for (const file of await resolveSpanFiles(params.paths)) {
+    const { readFile } = await import("node:fs/promises");
+    const lines = (await readFile(file, "utf8")).split("\n");
+
+    result.files++;
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+
+      const request = parseRequest(line);
+      if (!request) {
+        getGlobalLogger().warn(
+          `Skipping invalid line ${index + 1} of span file ${file}.`,
+        );
+        result.skippedLines++;
+
+        continue;
+      }
+
+      batch.push(...request.resourceSpans);
+      batchSpanCount += countSpans(request);
+
+      if (batchSpanCount >= batchSize) await upload();
+    }
+  }
+
+  await upload();
+
+  return result;
+}
+
+async function resolveSpanFiles(paths: string[]): Promise<string[]> {
+  const { readdir, stat } = await import("node:fs/promises");
+  const files: string[] = [];
+
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) {
+      const entries = (await readdir(path))
+        .filter((entry) => entry.endsWith(".jsonl"))
+        .sort();
+
+      files.push(...entries.map((entry) => `${path}/${entry}`));
+    } else {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+function parseRequest(line: string): OtlpTraceRequest | null {
+  try {
+    const request = JSON.parse(line) as Partial<OtlpTraceRequest> | null;
+
+    return Array.isArray(request?.resourceSpans)
+      ? { resourceSpans: request.resourceSpans }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function countSpans(request: OtlpTraceRequest): number {
+  return request.resourceSpans.reduce(
+    (count, resourceSpans) =>
+      count +
+      (resourceSpans.scopeSpans ?? []).reduce(
+        (scopeCount, scopeSpans) =>
+          scopeCount + (scopeSpans.spans ?? []).length,
+        0,
+      ),
+    0,
+  );
+}
@@ -0,0 +1,74 @@
+import {
+  getGlobalLogger,
+  isRetryableStatus,
+  LangfuseRetryQueue,
+} from "@langfuse/core";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+import { serializeOtlpJson } from "./otlp-json.js";
+
+/**
+ * Batch kind of span exports in a {@link LangfuseRetryQueue}.
+ *
+ * @internal
+ */
+export const RETRY_QUEUE_SPANS_KIND = "spans";
+
+/**
+ * Span exporter that persists batches the wrapped exporter failed to export
+ * in a {@link LangfuseRetryQueue} as OTLP-JSON, and reports them as exported.
+ * Batches rejected with a non-retryable HTTP status are not queued.
+ *
+ * @internal
+ */
+export class RetryQueueSpanExporter implements SpanExporter {
+  constructor(
+    private exporter: SpanExporter,
+    private retryQueue: LangfuseRetryQueue,
+  ) {}
+
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    this.exporter.export(spans, (result) => {
+      const status = (result.error as { code?: unknown } | undefined)?.code;
+
+      // Batches rejected as malformed would fail again
+      if (
+        result.code === ExportResultCode.SUCCESS ||
+        (typeof status === "number" && !isRetryableStatus(status))
+      ) {
+        resultCallback(result);
+
+        return;
+      }
+
+      getGlobalLogger().warn(
+        `Failed to export ${spans.length} spans. Queuing them for retry.`,
+        result.error,
+      );
+
+      serializeOtlpJson(spans)
+        .then((payload) =>
+          this.retryQueue.enqueue(RETRY_QUEUE_SPANS_KIND, payload),
+        )
+        .then(
+          () => resultCallback({ code: ExportResultCode.SUCCESS }),
+          (error) => {
+            getGlobalLogger().error("Failed to queue spans for retry.", error);
+            resultCallback(result);
+          },
+        );
+    });
+  }
+
+  public forceFlush(): Promise<void> {
+    return this.exporter.forceFlush?.() ?? Promise.resolve();
+  }
+
+  public shutdown(): Promise<void> {
+    return this.exporter.shutdown();
+  }
+}
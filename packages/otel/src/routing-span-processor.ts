@@ -0,0 +1,285 @@
+import {
+  getGlobalLogger,
+  getPropagatedAttributesFromContext,
+  LangfuseOtelSpanAttributes,
+} from "@langfuse/core";
+import type { Attributes, Context } from "@opentelemetry/api";
+import type {
+  ReadableSpan,
+  Span,
+  SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+
+import {
+  LangfuseSpanProcessor,
+  type LangfuseSpanProcessorParams,
+} from "./span-processor.js";
+
+const MAX_REMEMBERED_ROUTES = 10_000;
+
+/**
+ * Span attribute read by the default project resolver of the
+ * {@link LangfuseRoutingSpanProcessor}.
+ *
+ * @public
+ */
+export const LANGFUSE_PROJECT_ATTRIBUTE = "langfuse.project";
+
+/**
+ * Picks the project a trace is exported to. Called once per trace with the
+ * first span of the trace started in this process.
+ *
+ * @param params.traceId - The trace ID
+ * @param params.attributes - Attributes of the span at start, merged with the
+ *   attributes propagated via `propagateAttributes` or baggage, e.g. environment
+ *   or tags
+ * @param params.span - The started span
+ * @returns The project name, or undefined for the default project
+ *
+ * @public
+ */
+export type LangfuseProjectResolver = (params: {
+  traceId: string;
+  attributes: Attributes;
+  span: Span;
+}) => string | undefined;
+
+/**
+ * Configuration for a {@link LangfuseRoutingSpanProcessor}.
+ *
+ * @public
+ */
+export interface LangfuseRoutingSpanProcessorParams {
+  /**
+   * Span processor configuration per project name, typically with the
+   * project's `publicKey`, `secretKey` and `baseUrl`. Each project gets its own
+   * exporter and media upload queue.
+   */
+  projects: Record<string, LangfuseSpanProcessorParams>;
+  /**
+   * Configuration shared by all projects, e.g. masking or export mode.
+   * Project configuration takes precedence.
+   */
+  defaults?: Omit<
+    LangfuseSpanProcessorParams,
+    "publicKey" | "secretKey" | "exporter"
+  >;
+  /**
+   * Picks the project per trace. By default, the project is read from the
+   * `langfuse.project` span attribute or the `project` trace metadata key,
+   * e.g. set via `propagateAttributes({ metadata: { project: "shop" } })`.
+   */
+  resolveProject?: LangfuseProjectResolver;
+  /**
+   * Project for traces the resolver returns no or an unknown project for. If
+   * not set, such traces are dropped.
+   */
+  defaultProject?: string;
+}
+
+/**
+ * Span processor that exports each trace to one of several Langfuse projects,
+ * for services that host multiple products in one process.
+ *
+ * The project is resolved once per trace when its first span starts, and all
+ * spans of the trace are handled by that project's {@link LangfuseSpanProcessor}.
+ * Flushing or shutting down the routing processor flushes or shuts down all
+ * project processors.
+ *
+ * The `retryQueue` option is not supported, as its span sender is bound to a
+ * single project.
+ *
+ * @example
+ * ```typescript
+ * import { NodeSDK } from '@opentelemetry/sdk-node';
+ * import { LangfuseRoutingSpanProcessor } from '@langfuse/otel';
+ *
+ * const sdk = new NodeSDK({
+ *   spanProcessors: [
+ *     new LangfuseRoutingSpanProcessor({
+ *       projects: {
+ *         shop: { publicKey: 'pk-lf-shop', secretKey: 'sk-lf-shop' },
+ *         support: { publicKey: 'pk-lf-support', secretKey: 'sk-lf-support' },
+ *       },
+ *       defaultProject: 'shop',
+ *     }),
+ *   ],
+ * });
+ * ```
+ *
+ * @public
+ */
+export class LangfuseRoutingSpanProcessor implements SpanProcessor {
+  private processors: Map<string, LangfuseSpanProcessor> = new Map();
+  private resolveProject: LangfuseProjectResolver;
+  private defaultProject?: string;
+  private projectByTraceId: Map<string, string | null> = new Map();
+  private warnedProjects: Set<string> = new Set();
+
+  constructor(params: LangfuseRoutingSpanProcessorParams) {
+    if (params.defaults?.retryQueue) {
+      getGlobalLogger().warn(
+        "The retry queue is not supported by the LangfuseRoutingSpanProcessor and is ignored.",
+      );
+    }
+
+    for (const [name, projectParams] of Object.entries(params.projects)) {
+      if (projectParams.retryQueue) {
+        getGlobalLogger().warn(
+          `The retry queue of project '${name}' is not supported by the LangfuseRoutingSpanProcessor and is ignored.`,
+        );
+      }
+
+      this.processors.set(
+        name,
+        new LangfuseSpanProcessor({
+          ...params.defaults,
+          ...projectParams,
+          retryQueue: undefined,
+        }),
+      );
+    }
+
+    if (params.defaultProject && !this.processors.has(params.defaultProject)) {
+      throw new Error(
+        `Default project '${params.defaultProject}' is not configured in projects.`,
+      );
+    }
+
+    this.resolveProject = params.resolveProject ?? defaultProjectResolver;
+    this.defaultProject = params.defaultProject;
+  }
+
+  /**
+   * Returns the span processor of a project, e.g. to read its stats.
+   *
+   * @param name - The project name
+   * @returns The project's processor, or undefined if not configured
+   */
+  public getProjectProcessor(name: string): LangfuseSpanProcessor | undefined {
+    return this.processors.get(name);
+  }
+
+  /**
+   * Routes the started span to the processor of its trace's project.
+   *
+   * @override
+   */
+  public onStart(span: Span, parentContext: Context): void {
+    const traceId = span.spanContext().traceId;
+    let project = this.projectByTraceId.get(traceId);
+
+    if (project === undefined) {
+      project = this.resolve(span, {
+        ...span.attributes,
+        ...getPropagatedAttributesFromContext(parentContext),
+      });
+      this.rememberProject(traceId, project);
+    }
+
+    if (project) this.processors.get(project)?.onStart(span, parentContext);
+  }
+
+  /**
+   * Routes the ended span to the processor of its trace's project.
+   *
+   * @override
+   */
+  public onEnd(span: ReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+    let project = this.projectByTraceId.get(traceId);
+
+    // The route may have been evicted for long-running traces
+    if (project === undefined) {
+      project = this.resolve(span as Span, span.attributes);
+      this.rememberProject(traceId, project);
+    }
+
+    if (project) {
+      this.processors.get(project)?.onEnd(span);
+    } else {
+      getGlobalLogger().debug("Dropped span without a Langfuse project.", {
+        spanName: span.name,
+        traceId,
+      });
+    }
+  }
+
+  /**
+   * Flushes the processors of all projects.
+   *
+   * @override
+   */
+  public async forceFlush(): Promise<void> {
+    await Promise.all(
+      Array.from(this.processors.values(), (processor) =>
+        processor.forceFlush(),
+      ),
+    );
+  }
+
+  /**
+   * Shuts down the processors of all projects.
+   *
+   * @override
+   */
+  public async shutdown(): Promise<void> {
+    await Promise.all(
+      Array.from(this.processors.values(), (processor) => processor.shutdown()),
+    );
+  }
+
+  private resolve(span: Span, attributes: Attributes): string | null {
+    let project: string | undefined;
+
+    try {
+      project = this.resolveProject({
+        traceId: span.spanContext().traceId,
+        attributes,
+        span,
+      });
+    } catch (err) {
+      getGlobalLogger().warn(
+        "resolveProject failed with error. Using the default project.",
+        err,
+      );
+    }
+
+    if (project !== undefined && !this.processors.has(project)) {
+      if (!this.warnedProjects.has(project)) {
+        this.warnedProjects.add(project);
+        getGlobalLogger().warn(
+          `Resolved project '${project}' is not configured. Using the default project.`,
+        );
+      }
+
+      project = undefined;
+    }
+
+    return project ?? this.defaultProject ?? null;
+  }
+
+  private rememberProject(traceId: string, project: string | null): void {
+    if (this.projectByTraceId.size >= MAX_REMEMBERED_ROUTES) {
+      const oldestTraceId = this.projectByTraceId.keys().next().value;
+
+      if (oldestTraceId !== undefined) {
+        this.projectByTraceId.delete(oldestTraceId);
+      }
+    }
+
+    this.projectByTraceId.set(traceId, project);
+  }
+}
+
+function defaultProjectResolver({
+  attributes,
+}: {
+  attributes: Attributes;
+}): string | undefined {
+  const project =
+    attributes[LANGFUSE_PROJECT_ATTRIBUTE] ??
+    attributes[`${LangfuseOtelSpanAttributes.TRACE_METADATA}.project`];
+
+  return typeof project === "string" ? project : undefined;
+}
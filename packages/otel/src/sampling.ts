@@ -0,0 +1,302 @@
+import { LangfuseOtelSpanAttributes, getGlobalLogger } from "@langfuse/core";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import type { ReadableSpan, Span } from "@opentelemetry/sdk-trace-base";
+
+import { TraceBuffer } from "./trace-buffer.js";
+
+const DEFAULT_MAX_BUFFERED_TRACES = 1_000;
+const DEFAULT_TRACE_TIMEOUT_MS = 60_000;
+const MAX_REMEMBERED_DECISIONS = 10_000;
+
+/**
+ * Rules that force a trace to be kept even if head sampling would drop it.
+ *
+ * When any rule is configured, spans are buffered per trace until the trace's
+ * root span ends, so that the decision can take the whole trace into account.
+ *
+ * @public
+ */
+export interface LangfuseTailSamplingRules {
+  /**
+   * Keep traces that contain at least one observation with level `ERROR`
+   * or an OpenTelemetry status code of `ERROR`.
+   */
+  errors?: boolean;
+
+  /**
+   * Keep traces whose end-to-end latency (earliest span start to latest span end)
+   * exceeds this threshold in milliseconds.
+   */
+  latencyThresholdMs?: number;
+
+  /**
+   * Keep traces carrying at least one of these trace tags.
+   */
+  tags?: string[];
+}
+
+/**
+ * Sampling configuration for the LangfuseSpanProcessor.
+ *
+ * @public
+ */
+export interface LangfuseSamplingConfig {
+  /**
+   * Fraction of traces to keep, between 0 and 1. The decision is deterministic
+   * per trace id, so all spans of a trace are either kept or dropped together.
+   * Can also be set via LANGFUSE_SAMPLE_RATE environment variable.
+   *
+   * @defaultValue 1
+   */
+  sampleRate?: number;
+
+  /**
+   * Tail rules for keeping traces that head sampling would drop.
+   */
+  keep?: LangfuseTailSamplingRules;
+
+  /**
+   * Maximum number of traces buffered for tail rule evaluation.
+   * The oldest trace is evaluated early when exceeded.
+   *
+   * @defaultValue 1000
+   */
+  maxBufferedTraces?: number;
+
+  /**
+   * Maximum time in milliseconds a trace is buffered for tail rule evaluation
+   * before it is evaluated with the spans seen so far.
+   *
+   * @defaultValue 60000
+   */
+  traceTimeoutMs?: number;
+}
+
+/**
+ * Reason why a trace was kept by the sampler. Written to exported spans as
+ * `langfuse.sampling.decision`.
+ *
+ * @public
+ */
+export type LangfuseSamplingDecision = "head" | "error" | "latency" | "tag";
+
+/**
+ * Deterministically decides whether a trace id is selected by head sampling.
+ *
+ * Mirrors the algorithm of OpenTelemetry's `TraceIdRatioBasedSampler`, so
+ * services sampling with the same rate via OpenTelemetry make the same decision
+ * for a given trace id.
+ *
+ * @param traceId - 32 character hex trace id
+ * @param sampleRate - Fraction of traces to keep, between 0 and 1
+ * @returns Whether the trace is selected
+ *
+ * @public
+ */
+export function isTraceIdSampled(traceId: string, sampleRate: number): boolean {
+  if (sampleRate >= 1) return true;
+  if (sampleRate <= 0) return false;
+
+  let accumulation = 0;
+
+  for (let i = 0; i < traceId.length / 8; i++) {
+    const part = parseInt(traceId.slice(i * 8, i * 8 + 8), 16);
+    accumulation = (accumulation ^ part) >>> 0;
+  }
+
+  return accumulation <= Math.floor(sampleRate * 0xffffffff);
+}
+
+/**
+ * Applies head and tail sampling to ended spans and releases the kept ones.
+ *
+ * @internal
+ */
+export class TraceSampler {
+  private sampleRate: number;
+  private rules: LangfuseTailSamplingRules;
+  private traceBuffer: TraceBuffer | null;
+  private decisionsByTraceId: Map<string, LangfuseSamplingDecision | null> =
+    new Map();
+  private onRelease: (spans: ReadableSpan[]) => void;
+  private onDrop: (spans: ReadableSpan[]) => void;
+
+  constructor(params: {
+    config: LangfuseSamplingConfig & { sampleRate: number };
+    onRelease: (spans: ReadableSpan[]) => void;
+    onDrop?: (spans: ReadableSpan[]) => void;
+  }) {
+    const { config, onRelease } = params;
+
+    this.sampleRate = config.sampleRate;
+    this.rules = config.keep ?? {};
+    this.onRelease = onRelease;
+    this.onDrop = params.onDrop ?? (() => {});
+    this.traceBuffer = hasTailRules(this.rules)
+      ? new TraceBuffer({
+          maxTraces: config.maxBufferedTraces ?? DEFAULT_MAX_BUFFERED_TRACES,
+          timeoutMs: config.traceTimeoutMs ?? DEFAULT_TRACE_TIMEOUT_MS,
+          onComplete: (traceId, spans) => this.decide(traceId, spans),
+        })
+      : null;
+  }
+
+  public onStart(span: Span): void {
+    this.traceBuffer?.trackStart(span);
+  }
+
+  /**
+   * Handles an ended span.
+   *
+   * @param span - The ended span
+   * @param exportable - Whether the span passed the export filter. Non-exportable
+   *   spans are only used to detect when the trace's root has ended.
+   */
+  public onEnd(span: ReadableSpan, exportable: boolean): void {
+    const traceId = span.spanContext().traceId;
+
+    if (!this.traceBuffer) {
+      if (!exportable) return;
+
+      if (isTraceIdSampled(traceId, this.sampleRate)) {
+        this.release([span], "head");
+      } else {
+        this.onDrop([span]);
+      }
+
+      return;
+    }
+
+    if (this.decisionsByTraceId.has(traceId)) {
+      // Late span of an already evaluated trace
+      this.traceBuffer.trackEnd(span, false);
+
+      const decision = this.decisionsByTraceId.get(traceId);
+      if (!exportable) return;
+
+      if (decision) {
+        this.release([span], decision);
+      } else {
+        this.onDrop([span]);
+      }
+
+      return;
+    }
+
+    this.traceBuffer.trackEnd(span, exportable);
+  }
+
+  /**
+   * Evaluates all buffered traces immediately with the spans seen so far.
+   */
+  public flush(): void {
+    this.traceBuffer?.flush();
+  }
+
+  private decide(traceId: string, spans: ReadableSpan[]): void {
+    const decision =
+      this.evaluateTailRules(spans) ??
+      (isTraceIdSampled(traceId, this.sampleRate) ? "head" : null);
+
+    this.rememberDecision(traceId, decision);
+
+    if (!decision) {
+      getGlobalLogger().debug("Dropped trace due to sampling.", {
+        traceId,
+        spanCount: spans.length,
+      });
+      this.onDrop(spans);
+
+      return;
+    }
+
+    this.release(spans, decision);
+  }
+
+  private evaluateTailRules(
+    spans: ReadableSpan[],
+  ): LangfuseSamplingDecision | null {
+    if (spans.length === 0) return null;
+
+    if (this.rules.errors && spans.some(isErrorSpan)) {
+      return "error";
+    }
+
+    if (this.rules.latencyThresholdMs !== undefined) {
+      const startMs = Math.min(
+        ...spans.map((s) => hrTimeToMilliseconds(s.startTime)),
+      );
+      const endMs = Math.max(
+        ...spans.map((s) => hrTimeToMilliseconds(s.endTime)),
+      );
+
+      if (endMs - startMs > this.rules.latencyThresholdMs) {
+        return "latency";
+      }
+    }
+
+    const keepTags = this.rules.tags;
+    if (keepTags && keepTags.length > 0) {
+      const hasTag = spans.some((s) => {
+        const tags = s.attributes[LangfuseOtelSpanAttributes.TRACE_TAGS];
+
+        return (
+          Array.isArray(tags) &&
+          tags.some((t) => typeof t === "string" && keepTags.includes(t))
+        );
+      });
+
+      if (hasTag) return "tag";
+    }
+
+    return null;
+  }
+
+  private rememberDecision(
+    traceId: string,
+    decision: LangfuseSamplingDecision | null,
+  ): void {
+    if (this.decisionsByTraceId.size >= MAX_REMEMBERED_DECISIONS) {
+      const oldestTraceId = this.decisionsByTraceId.keys().next().value;
+
+      if (oldestTraceId !== undefined) {
+        this.decisionsByTraceId.delete(oldestTraceId);
+      }
+    }
+
+    this.decisionsByTraceId.set(traceId, decision);
+  }
+
+  private release(
+    spans: ReadableSpan[],
+    decision: LangfuseSamplingDecision,
+  ): void {
+    // Inclusion probability of the trace, so that aggregates can be re-weighted
+    // by its inverse. Traces kept by a tail rule are always kept.
+    const inclusionProbability = decision === "head" ? this.sampleRate : 1;
+
+    for (const span of spans) {
+      span.attributes[LangfuseOtelSpanAttributes.SAMPLING_RATE] =
+        inclusionProbability;
+      span.attributes[LangfuseOtelSpanAttributes.SAMPLING_DECISION] = decision;
+    }
+
+    this.onRelease(spans);
+  }
+}
+
+function hasTailRules(rules: LangfuseTailSamplingRules): boolean {
+  return Boolean(
+    rules.errors ||
+      rules.latencyThresholdMs !== undefined ||
+      (rules.tags && rules.tags.length > 0),
+  );
+}
+
+function isErrorSpan(span: ReadableSpan): boolean {
+  return (
+    span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_LEVEL] === "ERROR" ||
+    span.status.code === SpanStatusCode.ERROR
+  );
+}
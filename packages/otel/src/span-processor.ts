@@ -9,8 +9,11 @@ import {
   base64Encode,
   getLangfuseTraceIdFromBaggage,
   getPropagatedAttributesFromContext,
+  LangfuseTruncationLimits,
+  LangfuseRetryQueue,
+  registerLangfuseShutdownHandler,
 } from "@langfuse/core";
-import { Context } from "@opentelemetry/api";
+import { AttributeValue, Context } from "@opentelemetry/api";
 import { hrTimeToMilliseconds } from "@opentelemetry/core";
 import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
 import {
@@ -22,8 +25,42 @@ import {
   SpanProcessor,
 } from "@opentelemetry/sdk-trace-base";
 
+import { extractLogEventSpansInPlace } from "./log-events.js";
+import {
+  getErrorDetailFields,
+  getPayloadAttributeKeys,
+  LangfuseMaskingConfig,
+  SpanMasker,
+} from "./masking.js";
 import { MediaService } from "./MediaService.js";
+import { uploadOtlpTraces } from "./otlp-upload.js";
+import {
+  applyModelPricesInPlace,
+  LangfuseModelPriceRegistry,
+  LangfusePricingConfig,
+} from "./pricing.js";
+import {
+  LangfuseRedactionConfig,
+  REDACTION_COUNTS_METADATA_KEY,
+  redactPii,
+} from "./redaction.js";
+import {
+  RETRY_QUEUE_SPANS_KIND,
+  RetryQueueSpanExporter,
+} from "./retry-queue-exporter.js";
+import { LangfuseSamplingConfig, TraceSampler } from "./sampling.js";
 import { isDefaultExportSpan } from "./span-filter.js";
+import {
+  LangfuseSpanProcessorEvents,
+  LangfuseSpanProcessorStats,
+  SpanProcessorStatsCollector,
+  StatsSpanExporter,
+} from "./stats.js";
+import {
+  LangfuseTraceBackfillConfig,
+  TraceAttributeBackfill,
+} from "./trace-backfill.js";
+import { truncatePayloadsInPlace } from "./truncation.js";
 
 /**
  * Function type for masking sensitive data in spans before export.
@@ -109,9 +146,37 @@ export interface LangfuseSpanProcessorParams {
 
   /**
    * Function to mask sensitive data in spans before export.
+   * Called for input, output and metadata of traces and observations,
+   * including each top-level key of object metadata, and for recorded error
+   * messages, stack traces and causes.
    */
   mask?: MaskFunction;
 
+  /**
+   * Declarative masking rules applied before the `mask` function.
+   * Rules can target JSON paths within input, output and metadata, span
+   * attribute keys and specific observation types, and report every masked
+   * value to an optional audit callback.
+   */
+  masking?: LangfuseMaskingConfig;
+
+  /**
+   * Redacts PII such as emails, phone numbers, credit cards, IBANs, IP addresses,
+   * JWTs and API keys from input, output, metadata and recorded errors. Applied
+   * after masking rules and before the `mask` function. The number of redacted
+   * values per detector is reported as `pii_redactions` observation metadata.
+   */
+  redaction?: LangfuseRedactionConfig;
+
+  /**
+   * Size budgets for input, output and metadata of each span. Oversized JSON
+   * payloads are shortened while staying valid JSON, and the original sizes are
+   * recorded as `truncation` observation metadata. Applied after media upload.
+   * Can be overridden per observation via the `truncation` option of
+   * `@langfuse/tracing`.
+   */
+  truncation?: LangfuseTruncationLimits;
+
   /**
    * Function to determine whether a span should be exported to Langfuse.
    * If not provided, a smart default filter is applied to export Langfuse spans,
@@ -160,6 +225,49 @@ export interface LangfuseSpanProcessorParams {
    * @defaultValue "batched"
    */
   exportMode?: "immediate" | "batched";
+
+  /**
+   * Trace sampling configuration.
+   *
+   * Head sampling keeps a deterministic fraction of traces based on the trace id.
+   * Tail rules additionally keep traces that contain errors, exceed a latency
+   * threshold or carry a given tag; when configured, spans are buffered per trace
+   * until the trace's root span ends.
+   *
+   * Exported spans of sampled traces carry `langfuse.sampling.rate` (the
+   * probability with which the trace was kept) and `langfuse.sampling.decision`
+   * attributes, so that aggregates such as cost can be re-weighted.
+   */
+  sampling?: LangfuseSamplingConfig;
+
+  /**
+   * Backfills trace-level attributes onto spans created before they were
+   * propagated, e.g. a `userId` only known after authentication. When set,
+   * spans are buffered per trace until the trace's root span ends, and user
+   * ID, session ID, tags, trace name and environment found on any span of the
+   * trace are copied to the spans missing them. `shouldExportSpan` is
+   * evaluated on the backfilled spans.
+   *
+   * Pass `true` for the default buffer limits.
+   */
+  backfillTraceAttributes?: boolean | LangfuseTraceBackfillConfig;
+
+  /**
+   * Client-side cost calculation. When set, generation and embedding spans
+   * with a model and usage details but without cost details get their
+   * `costDetails` calculated from a local model price registry at span end.
+   * The model definition used is recorded as `pricing` observation metadata.
+   */
+  pricing?: LangfusePricingConfig;
+
+  /**
+   * Durable queue for span batches that fail to export, e.g. while Langfuse is
+   * unreachable. Failed batches are persisted and retried with backoff, also
+   * by later processes using the same queue directory.
+   *
+   * Only applies to the default OTLP exporter, not to a custom `exporter`.
+   */
+  retryQueue?: LangfuseRetryQueue;
 }
 
 /**
@@ -171,6 +279,11 @@ export interface LangfuseSpanProcessorParams {
  * - Data masking capabilities for sensitive information
  * - Conditional span export based on custom logic
  *   (or default smart filtering when no custom filter is provided)
+ * - Head and tail sampling of traces
+ * - Optional backfill of trace-level attributes onto early spans of a trace
+ * - Client-side cost calculation from a model price registry
+ * - Self-telemetry via `getStats()` and processor events
+ * - Optional durable retry of failed exports via a {@link LangfuseRetryQueue}
  * - Environment and release tagging
  *
  * @example
@@ -200,18 +313,28 @@ export interface LangfuseSpanProcessorParams {
  */
 export class LangfuseSpanProcessor implements SpanProcessor {
   private pendingEndedSpans: Set<Promise<void>> = new Set();
+  private unregisterShutdownHandler: () => void;
 
   private publicKey?: string;
   private baseUrl?: string;
   private environment?: string;
   private release?: string;
   private mask?: MaskFunction;
+  private masker: SpanMasker | null;
+  private redaction?: LangfuseRedactionConfig;
+  private truncation?: LangfuseTruncationLimits;
   private shouldExportSpan: ShouldExportSpan;
   private mediaUploadEnabled: boolean;
   private apiClient: LangfuseAPIClient;
   private processor: SpanProcessor;
   private mediaService: MediaService;
+  private sampler: TraceSampler | null;
+  private traceBackfill: TraceAttributeBackfill | null;
+  private priceRegistry: LangfuseModelPriceRegistry | null;
+  private priceSync: Promise<void> | null = null;
   private spanExportExpectationById: Map<string, boolean> = new Map();
+  private stats: SpanProcessorStatsCollector =
+    new SpanProcessorStatsCollector();
 
   /**
    * Creates a new LangfuseSpanProcessor instance.
@@ -275,19 +398,38 @@ export class LangfuseSpanProcessor implements SpanProcessor {
         ? !["false", "0"].includes(envMediaUploadEnabled.toLowerCase())
         : true);
 
-    const exporter =
+    const exportHeaders = {
+      Authorization: `Basic ${authHeaderValue}`,
+      "x-langfuse-sdk-name": "javascript",
+      "x-langfuse-sdk-version": LANGFUSE_SDK_VERSION,
+      "x-langfuse-public-key": publicKey ?? "<missing>",
+      ...params?.additionalHeaders,
+    };
+    let exporter: SpanExporter = new StatsSpanExporter(
       params?.exporter ??
-      new OTLPTraceExporter({
-        url: `${baseUrl}/api/public/otel/v1/traces`,
-        headers: {
-          Authorization: `Basic ${authHeaderValue}`,
-          "x-langfuse-sdk-name": "javascript",
-          "x-langfuse-sdk-version": LANGFUSE_SDK_VERSION,
-          "x-langfuse-public-key": publicKey ?? "<missing>",
-          ...params?.additionalHeaders,
-        },
-        timeoutMillis: timeoutSeconds * 1_000,
-      });
+        new OTLPTraceExporter({
+          url: `${baseUrl}/api/public/otel/v1/traces`,
+          headers: exportHeaders,
+          timeoutMillis: timeoutSeconds * 1_000,
+        }),
+      this.stats,
+    );
+
+    if (params?.retryQueue && params.exporter) {
+      logger.warn(
+        "The retry queue only applies to the default exporter and is ignored for the custom exporter.",
+      );
+    } else if (params?.retryQueue) {
+      exporter = new RetryQueueSpanExporter(exporter, params.retryQueue);
+      params.retryQueue.register(RETRY_QUEUE_SPANS_KIND, (payload) =>
+        uploadOtlpTraces({
+          baseUrl,
+          headers: exportHeaders,
+          body: payload,
+          timeoutMillis: timeoutSeconds * 1_000,
+        }),
+      );
+    }
 
     this.processor =
       params?.exportMode === "immediate"
@@ -305,6 +447,9 @@ export class LangfuseSpanProcessor implements SpanProcessor {
       params?.environment ?? getEnv("LANGFUSE_TRACING_ENVIRONMENT");
     this.release = params?.release ?? getEnv("LANGFUSE_RELEASE");
     this.mask = params?.mask;
+    this.masker = params?.masking ? new SpanMasker(params.masking) : null;
+    this.redaction = params?.redaction;
+    this.truncation = params?.truncation;
     this.shouldExportSpan =
       params?.shouldExportSpan ??
       (({ otelSpan }) => isDefaultExportSpan(otelSpan));
@@ -320,7 +465,46 @@ export class LangfuseSpanProcessor implements SpanProcessor {
       headers: params?.additionalHeaders,
     });
 
-    this.mediaService = new MediaService({ apiClient: this.apiClient });
+    this.mediaService = new MediaService({
+      apiClient: this.apiClient,
+      stats: this.stats,
+    });
+
+    this.priceRegistry = params?.pricing
+      ? (params.pricing.registry ?? new LangfuseModelPriceRegistry())
+      : null;
+    if (this.priceRegistry && params?.pricing?.syncFromApi) {
+      this.priceSync = this.priceRegistry
+        .syncFromApi(this.apiClient)
+        .catch((err) => {
+          logger.warn(
+            "Failed to sync model prices from Langfuse. Using local model prices.",
+            err,
+          );
+        });
+    }
+
+    const sampleRate = resolveSampleRate(params?.sampling?.sampleRate);
+    this.sampler =
+      sampleRate < 1
+        ? new TraceSampler({
+            config: { ...params?.sampling, sampleRate },
+            onRelease: (spans) => {
+              for (const span of spans) {
+                this.trackPendingEndedSpan(this.exportSpan(span));
+              }
+            },
+            onDrop: (spans) => this.stats.recordDropped(spans, "sampling"),
+          })
+        : null;
+
+    const backfillConfig = params?.backfillTraceAttributes;
+    this.traceBackfill = backfillConfig
+      ? new TraceAttributeBackfill({
+          config: backfillConfig === true ? {} : backfillConfig,
+          onRelease: (span) => this.handleEndedSpan(span),
+        })
+      : null;
 
     logger.debug("Initialized LangfuseSpanProcessor with params:", {
       publicKey,
@@ -331,13 +515,63 @@ export class LangfuseSpanProcessor implements SpanProcessor {
       flushAt,
       flushIntervalSeconds,
       mediaUploadEnabled,
+      sampleRate,
+      backfillTraceAttributes: Boolean(this.traceBackfill),
     });
+
+    // Shutting down the processor also flushes its media uploads
+    this.unregisterShutdownHandler = registerLangfuseShutdownHandler(
+      "span processor",
+      this,
+      shutdownSpanProcessor,
+    );
   }
 
   private get logger(): Logger {
     return getGlobalLogger();
   }
 
+  /**
+   * Returns a snapshot of the processor's counters and latency histograms,
+   * e.g. to monitor dropped spans or failing exports.
+   *
+   * @returns Counters since the processor was created
+   *
+   * @example
+   * ```typescript
+   * const { spans, media } = processor.getStats();
+   * console.log(`Dropped by filter: ${spans.dropped.filter}, failed uploads: ${media.failed}`);
+   * ```
+   */
+  public getStats(): LangfuseSpanProcessorStats {
+    return this.stats.snapshot({
+      spans: this.pendingEndedSpans.size,
+      media: this.mediaService.pendingUploadCount,
+    });
+  }
+
+  /**
+   * Registers a listener for a processor event. Errors thrown by listeners
+   * are logged and ignored.
+   *
+   * @param event - The event name
+   * @param listener - Called with the event payload
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * processor.on("spanDropped", ({ span, reason }) => {
+   *   console.warn(`Dropped span ${span.name}: ${reason}`);
+   * });
+   * ```
+   */
+  public on<E extends keyof LangfuseSpanProcessorEvents>(
+    event: E,
+    listener: (payload: LangfuseSpanProcessorEvents[E]) => void,
+  ): () => void {
+    return this.stats.on(event, listener);
+  }
+
   /**
    * Called when a span is started. Adds environment, release, and propagated attributes to the span.
    *
@@ -380,6 +614,10 @@ export class LangfuseSpanProcessor implements SpanProcessor {
       );
     }
 
+    this.traceBackfill?.onStart(span);
+    this.sampler?.onStart(span);
+    this.stats.recordStarted();
+
     return this.processor.onStart(span, parentContext);
   }
 
@@ -389,10 +627,13 @@ export class LangfuseSpanProcessor implements SpanProcessor {
    * This method:
    * 1. Checks if the span should be exported using shouldExportSpan
    *    (custom override or default smart filter)
-   * 2. Applies data masking to sensitive attributes
-   * 3. Handles media content extraction and upload
-   * 4. Logs span details in debug mode
-   * 5. Passes the span to the parent processor for export
+   * 2. Applies trace sampling, if configured
+   * 3. Turns log entries recorded via `observation.log()` into event observations
+   * 4. Applies data masking to sensitive attributes
+   * 5. Handles media content extraction and upload
+   * 6. Truncates oversized payloads, if configured
+   * 7. Logs span details in debug mode
+   * 8. Passes the span to the parent processor for export
    *
    * @param span - The span that ended
    *
@@ -400,8 +641,36 @@ export class LangfuseSpanProcessor implements SpanProcessor {
    */
   public onEnd(span: ReadableSpan): void {
     this.spanExportExpectationById.delete(span.spanContext().spanId);
+    this.stats.recordEnded();
 
-    const processEndedSpanPromise = this.processEndedSpan(span).catch((err) => {
+    if (this.traceBackfill) {
+      // Spans are handed back through the backfill's release callback
+      this.traceBackfill.onEnd(span);
+
+      return;
+    }
+
+    this.handleEndedSpan(span);
+  }
+
+  private handleEndedSpan(span: ReadableSpan): void {
+    // Evaluated after the backfill, so the filter sees backfilled attributes
+    const isExportable = this.isExportable(span);
+
+    if (this.sampler) {
+      // Kept spans are handed back through the sampler's release callback
+      this.sampler.onEnd(span, isExportable);
+
+      return;
+    }
+
+    if (isExportable) {
+      this.trackPendingEndedSpan(this.exportSpan(span));
+    }
+  }
+
+  private trackPendingEndedSpan(promise: Promise<void>): void {
+    const processEndedSpanPromise = promise.catch((err) => {
       this.logger.error(err);
     });
 
@@ -414,6 +683,10 @@ export class LangfuseSpanProcessor implements SpanProcessor {
   }
 
   private async flush(): Promise<void> {
+    // Release traces still buffered with the spans seen so far
+    this.traceBackfill?.flush();
+    this.sampler?.flush();
+
     await Promise.all(Array.from(this.pendingEndedSpans));
     await this.mediaService.flush();
   }
@@ -439,20 +712,22 @@ export class LangfuseSpanProcessor implements SpanProcessor {
    * @override
    */
   public async shutdown(): Promise<void> {
+    this.unregisterShutdownHandler();
     await this.flush();
 
     return this.processor.shutdown();
   }
 
-  private async processEndedSpan(span: ReadableSpan) {
+  private isExportable(span: ReadableSpan): boolean {
     try {
       if (this.shouldExportSpan({ otelSpan: span }) === false) {
         this.logger.debug("Dropped span due to shouldExportSpan filter.", {
           spanName: span.name,
           instrumentationScope: span.instrumentationScope.name,
         });
+        this.stats.recordDropped([span], "filter");
 
-        return;
+        return false;
       }
     } catch (err) {
       this.logger.error(
@@ -463,16 +738,48 @@ export class LangfuseSpanProcessor implements SpanProcessor {
         },
         err,
       );
+      this.stats.recordDropped([span], "filterError");
 
-      return;
+      return false;
     }
 
+    return true;
+  }
+
+  private async exportSpan(span: ReadableSpan) {
+    const startTime = Date.now();
+    const logEventSpans = extractLogEventSpansInPlace(span);
+
+    const maskingStartTime = Date.now();
     await this.applyMaskInPlace(span);
+    this.stats.recordLatency("masking", Date.now() - maskingStartTime);
 
     if (this.mediaUploadEnabled) {
       await this.mediaService.process(span);
     }
 
+    try {
+      truncatePayloadsInPlace(span, this.truncation);
+    } catch (err) {
+      this.logger.warn(
+        "Truncating span payloads failed. Exporting span untruncated.",
+        err,
+      );
+    }
+
+    if (this.priceRegistry) {
+      await this.priceSync;
+
+      try {
+        applyModelPricesInPlace(span, this.priceRegistry);
+      } catch (err) {
+        this.logger.warn(
+          "Calculating span costs failed. Exporting span without costs.",
+          err,
+        );
+      }
+    }
+
     if (this.logger.isLevelEnabled(LogLevel.DEBUG)) {
       this.logger.debug(
         `Processed span:\n${JSON.stringify(
@@ -496,7 +803,13 @@ export class LangfuseSpanProcessor implements SpanProcessor {
       );
     }
 
+    this.stats.recordLatency("processing", Date.now() - startTime);
     this.processor.onEnd(span);
+
+    // Log entries are exported as event observations after their parent
+    for (const logEventSpan of logEventSpans) {
+      await this.exportSpan(logEventSpan);
+    }
   }
 
   private markAppRootCandidate(span: Span, parentContext: Context): void {
@@ -548,25 +861,85 @@ export class LangfuseSpanProcessor implements SpanProcessor {
   }
 
   private async applyMaskInPlace(span: ReadableSpan): Promise<void> {
-    const maskCandidates = [
-      LangfuseOtelSpanAttributes.OBSERVATION_INPUT,
-      LangfuseOtelSpanAttributes.TRACE_INPUT,
-      LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT,
-      LangfuseOtelSpanAttributes.TRACE_OUTPUT,
-      LangfuseOtelSpanAttributes.OBSERVATION_METADATA,
-      LangfuseOtelSpanAttributes.TRACE_METADATA,
-    ];
+    try {
+      this.masker?.apply(span);
+    } catch (err) {
+      this.logger.warn(
+        `Applying masking rules failed due to error, fully masking properties. Error: ${err}`,
+      );
+      this.stats.recordMaskFailure(span, err);
+
+      for (const maskCandidate of getPayloadAttributeKeys(span)) {
+        span.attributes[maskCandidate] =
+          "<fully masked due to failed masking rules>";
+      }
+      for (const field of getErrorDetailFields(span)) {
+        field.set("<fully masked due to failed masking rules>");
+      }
+
+      return;
+    }
 
-    for (const maskCandidate of maskCandidates) {
-      if (maskCandidate in span.attributes) {
+    const redactionCounts = this.redaction
+      ? await this.applyRedactionInPlace(span, this.redaction)
+      : {};
+
+    if (this.mask) {
+      for (const maskCandidate of getPayloadAttributeKeys(span)) {
         span.attributes[maskCandidate] = await this.applyMask(
+          span,
           span.attributes[maskCandidate],
         );
       }
+      // Error messages and stack traces may quote payloads
+      for (const field of getErrorDetailFields(span)) {
+        field.set(await this.applyMask(span, field.value));
+      }
+    }
+
+    if (Object.keys(redactionCounts).length > 0) {
+      span.attributes[
+        `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.${REDACTION_COUNTS_METADATA_KEY}`
+      ] = JSON.stringify(redactionCounts);
     }
   }
 
-  private async applyMask<T>(data: T): Promise<T | string> {
+  private async applyRedactionInPlace(
+    span: ReadableSpan,
+    config: LangfuseRedactionConfig,
+  ): Promise<Record<string, number>> {
+    const totalCounts: Record<string, number> = {};
+    const fields = [
+      ...getPayloadAttributeKeys(span).map((key) => ({
+        value: span.attributes[key],
+        set: (value: AttributeValue) => (span.attributes[key] = value),
+      })),
+      ...getErrorDetailFields(span),
+    ];
+
+    for (const field of fields) {
+      try {
+        const { data, counts } = await redactPii(field.value, config);
+
+        field.set(data as AttributeValue);
+
+        for (const [detector, count] of Object.entries(counts)) {
+          totalCounts[detector] = (totalCounts[detector] ?? 0) + count;
+        }
+      } catch (err) {
+        this.logger.warn(
+          `PII redaction failed due to error, fully masking property. Error: ${err}`,
+        );
+        this.stats.recordMaskFailure(span, err);
+
+        field.set("<fully masked due to failed PII redaction>");
+      }
+    }
+
+    return totalCounts;
+  }
+
+  private async applyMask<T>(span: ReadableSpan, data: T): Promise<T | string> {
     if (!this.mask) return data;
 
     try {
@@ -575,8 +948,32 @@ export class LangfuseSpanProcessor implements SpanProcessor {
       this.logger.warn(
         `Applying mask function failed due to error, fully masking property. Error: ${err}`,
       );
+      this.stats.recordMaskFailure(span, err);
 
       return "<fully masked due to failed mask function>";
     }
   }
 }
+
+function resolveSampleRate(sampleRate: number | undefined): number {
+  const envSampleRate = getEnv("LANGFUSE_SAMPLE_RATE");
+  const rate =
+    sampleRate ?? (envSampleRate !== undefined ? Number(envSampleRate) : 1);
+
+  if (!Number.isFinite(rate) || rate < 0 || rate > 1) {
+    getGlobalLogger().warn(
+      `Sample rate must be a number between 0 and 1, got ${rate}. Sampling is disabled.`,
+    );
+
+    return 1;
+  }
+
+  return rate;
+}
+
+// Defined outside the class to not capture the processor, see LangfuseShutdownHandler
+function shutdownSpanProcessor(
+  processor: LangfuseSpanProcessor,
+): Promise<void> {
+  return processor.shutdown();
+}
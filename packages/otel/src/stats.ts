@@ -0,0 +1,300 @@
+import { getGlobalLogger } from "@langfuse/core";
+import { ExportResultCode, type ExportResult } from "@opentelemetry/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+
+const LATENCY_BUCKET_BOUNDARIES = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000,
+];
+
+/**
+ * Reason a span was not exported by the LangfuseSpanProcessor.
+ *
+ * - **filter**: `shouldExportSpan` returned false
+ * - **filterError**: `shouldExportSpan` threw
+ * - **sampling**: the trace was not kept by head or tail sampling
+ *
+ * @public
+ */
+export type LangfuseSpanDropReason = "filter" | "filterError" | "sampling";
+
+/**
+ * Operation whose duration is tracked by the LangfuseSpanProcessor.
+ *
+ * - **processing**: from span end until the span is handed to the exporter,
+ *   including masking and media extraction
+ * - **masking**: masking rules, PII redaction and the mask function
+ * - **mediaUpload**: upload of a single media item
+ * - **export**: a single call of the span exporter
+ *
+ * @public
+ */
+export type LangfuseLatencyKind =
+  | "processing"
+  | "masking"
+  | "mediaUpload"
+  | "export";
+
+/**
+ * Latency histogram in milliseconds. `bucketCounts[i]` counts the durations
+ * that are at most `boundaries[i]` and greater than the previous boundary; the
+ * last bucket counts durations above the last boundary.
+ *
+ * @public
+ */
+export type LangfuseLatencyHistogram = {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  boundaries: number[];
+  bucketCounts: number[];
+};
+
+/**
+ * Snapshot of the LangfuseSpanProcessor counters since it was created.
+ *
+ * @public
+ */
+export type LangfuseSpanProcessorStats = {
+  spans: {
+    /** Spans started on the processor */
+    started: number;
+    /** Spans ended on the processor */
+    ended: number;
+    /** Spans successfully exported by the exporter */
+    exported: number;
+    /** Spans in exporter calls that failed */
+    exportFailed: number;
+    /** Spans not exported, by reason */
+    dropped: Record<LangfuseSpanDropReason, number>;
+    /** Ended spans currently being processed, e.g. waiting on masking */
+    pending: number;
+  };
+  /** Number of failed masking rules, PII redactions or mask function calls */
+  maskFailures: number;
+  media: {
+    queued: number;
+    succeeded: number;
+    failed: number;
+    /** Uploads currently in progress */
+    pending: number;
+  };
+  latency: Record<LangfuseLatencyKind, LangfuseLatencyHistogram>;
+};
+
+/**
+ * Events emitted by the LangfuseSpanProcessor, by event name.
+ *
+ * @public
+ */
+export type LangfuseSpanProcessorEvents = {
+  /** A span was not exported */
+  spanDropped: { span: ReadableSpan; reason: LangfuseSpanDropReason };
+  /** Masking failed and the affected attributes were fully masked */
+  maskFailed: { span: ReadableSpan; error: unknown };
+  /** A media upload was queued or completed */
+  mediaUpload: {
+    status: "queued" | "succeeded" | "failed";
+    error?: unknown;
+  };
+  /** The exporter completed a call */
+  spanExport: { spanCount: number; success: boolean; error?: Error };
+  /** A tracked operation completed */
+  latency: { kind: LangfuseLatencyKind; durationMs: number };
+};
+
+type Listener<E extends keyof LangfuseSpanProcessorEvents> = (
+  event: LangfuseSpanProcessorEvents[E],
+) => void;
+
+/**
+ * Collects the counters returned by `LangfuseSpanProcessor.getStats()` and
+ * notifies event listeners.
+ *
+ * @internal
+ */
+export class SpanProcessorStatsCollector {
+  private stats: Omit<LangfuseSpanProcessorStats, "latency"> = {
+    spans: {
+      started: 0,
+      ended: 0,
+      exported: 0,
+      exportFailed: 0,
+      dropped: { filter: 0, filterError: 0, sampling: 0 },
+      pending: 0,
+    },
+    maskFailures: 0,
+    media: { queued: 0, succeeded: 0, failed: 0, pending: 0 },
+  };
+  private latency: Record<LangfuseLatencyKind, LangfuseLatencyHistogram> = {
+    processing: createHistogram(),
+    masking: createHistogram(),
+    mediaUpload: createHistogram(),
+    export: createHistogram(),
+  };
+  private listeners: Map<
+    keyof LangfuseSpanProcessorEvents,
+    Set<Listener<any>>
+  > = new Map();
+
+  public on<E extends keyof LangfuseSpanProcessorEvents>(
+    event: E,
+    listener: Listener<E>,
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  public snapshot(pending: {
+    spans: number;
+    media: number;
+  }): LangfuseSpanProcessorStats {
+    return {
+      spans: {
+        ...this.stats.spans,
+        dropped: { ...this.stats.spans.dropped },
+        pending: pending.spans,
+      },
+      maskFailures: this.stats.maskFailures,
+      media: { ...this.stats.media, pending: pending.media },
+      latency: Object.fromEntries(
+        Object.entries(this.latency).map(([kind, histogram]) => [
+          kind,
+          { ...histogram, bucketCounts: [...histogram.bucketCounts] },
+        ]),
+      ) as Record<LangfuseLatencyKind, LangfuseLatencyHistogram>,
+    };
+  }
+
+  public recordStarted(): void {
+    this.stats.spans.started++;
+  }
+
+  public recordEnded(): void {
+    this.stats.spans.ended++;
+  }
+
+  public recordDropped(
+    spans: ReadableSpan[],
+    reason: LangfuseSpanDropReason,
+  ): void {
+    for (const span of spans) {
+      this.stats.spans.dropped[reason]++;
+      this.emit("spanDropped", { span, reason });
+    }
+  }
+
+  public recordMaskFailure(span: ReadableSpan, error: unknown): void {
+    this.stats.maskFailures++;
+    this.emit("maskFailed", { span, error });
+  }
+
+  public recordMediaUpload(
+    status: "queued" | "succeeded" | "failed",
+    error?: unknown,
+  ): void {
+    this.stats.media[status]++;
+    this.emit(
+      "mediaUpload",
+      error === undefined ? { status } : { status, error },
+    );
+  }
+
+  public recordExport(spanCount: number, result: ExportResult): void {
+    const success = result.code === ExportResultCode.SUCCESS;
+
+    if (success) {
+      this.stats.spans.exported += spanCount;
+    } else {
+      this.stats.spans.exportFailed += spanCount;
+    }
+
+    this.emit("spanExport", { spanCount, success, error: result.error });
+  }
+
+  public recordLatency(kind: LangfuseLatencyKind, durationMs: number): void {
+    const histogram = this.latency[kind];
+    const bucketIndex = histogram.boundaries.findIndex(
+      (boundary) => durationMs <= boundary,
+    );
+
+    histogram.min =
+      histogram.count === 0 ? durationMs : Math.min(histogram.min, durationMs);
+    histogram.max = Math.max(histogram.max, durationMs);
+    histogram.count++;
+    histogram.sum += durationMs;
+    histogram.bucketCounts[
+      bucketIndex === -1 ? histogram.boundaries.length : bucketIndex
+    ]++;
+
+    this.emit("latency", { kind, durationMs });
+  }
+
+  private emit<E extends keyof LangfuseSpanProcessorEvents>(
+    event: E,
+    payload: LangfuseSpanProcessorEvents[E],
+  ): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        listener(payload);
+      } catch (err) {
+        getGlobalLogger().warn(
+          `LangfuseSpanProcessor '${event}' listener failed.`,
+          err,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Span exporter that records the result and duration of each call of the
+ * wrapped exporter.
+ *
+ * @internal
+ */
+export class StatsSpanExporter implements SpanExporter {
+  constructor(
+    private exporter: SpanExporter,
+    private stats: SpanProcessorStatsCollector,
+  ) {}
+
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    const startTime = Date.now();
+
+    this.exporter.export(spans, (result) => {
+      this.stats.recordLatency("export", Date.now() - startTime);
+      this.stats.recordExport(spans.length, result);
+
+      resultCallback(result);
+    });
+  }
+
+  public forceFlush(): Promise<void> {
+    return this.exporter.forceFlush?.() ?? Promise.resolve();
+  }
+
+  public shutdown(): Promise<void> {
+    return this.exporter.shutdown();
+  }
+}
+
+function createHistogram(): LangfuseLatencyHistogram {
+  return {
+    count: 0,
+    sum: 0,
+    min: 0,
+    max: 0,
+    boundaries: [...LATENCY_BUCKET_BOUNDARIES],
+    bucketCounts: new Array(LATENCY_BUCKET_BOUNDARIES.length + 1).fill(0),
+  };
+}
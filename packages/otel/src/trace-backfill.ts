@@ -0,0 +1,165 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import type { AttributeValue } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import type { ReadableSpan, Span } from "@opentelemetry/sdk-trace-base";
+
+import { TraceBuffer } from "./trace-buffer.js";
+
+const DEFAULT_MAX_BUFFERED_TRACES = 1_000;
+const DEFAULT_TRACE_TIMEOUT_MS = 60_000;
+const MAX_REMEMBERED_TRACES = 10_000;
+
+const BACKFILLED_STRING_ATTRIBUTES = [
+  LangfuseOtelSpanAttributes.TRACE_USER_ID,
+  LangfuseOtelSpanAttributes.TRACE_SESSION_ID,
+  LangfuseOtelSpanAttributes.TRACE_NAME,
+  LangfuseOtelSpanAttributes.ENVIRONMENT,
+];
+
+/**
+ * Configuration for backfilling trace-level attributes in the
+ * LangfuseSpanProcessor.
+ *
+ * @public
+ */
+export interface LangfuseTraceBackfillConfig {
+  /**
+   * Maximum number of traces buffered at once. The oldest trace is released
+   * early when exceeded.
+   *
+   * @defaultValue 1000
+   */
+  maxBufferedTraces?: number;
+
+  /**
+   * Maximum time in milliseconds a trace is buffered before its spans are
+   * released with the attributes seen so far.
+   *
+   * @defaultValue 60000
+   */
+  traceTimeoutMs?: number;
+}
+
+type TraceAttributes = Map<string, AttributeValue>;
+
+/**
+ * Holds ended spans per trace until the trace's local root has ended, and
+ * copies the trace-level attributes user ID, session ID, trace name and
+ * environment found on any span of the trace onto the spans missing them.
+ *
+ * Attributes already set on a span are kept, and the value of the earliest
+ * started span wins. Tags are merged across the trace. Spans ending after
+ * their trace was released get the attributes remembered for the trace.
+ *
+ * @internal
+ */
+export class TraceAttributeBackfill {
+  private traceBuffer: TraceBuffer;
+  private attributesByTraceId: Map<string, TraceAttributes> = new Map();
+  private onRelease: (span: ReadableSpan) => void;
+
+  constructor(params: {
+    config: LangfuseTraceBackfillConfig;
+    onRelease: (span: ReadableSpan) => void;
+  }) {
+    const { config, onRelease } = params;
+
+    this.onRelease = onRelease;
+    this.traceBuffer = new TraceBuffer({
+      maxTraces: config.maxBufferedTraces ?? DEFAULT_MAX_BUFFERED_TRACES,
+      timeoutMs: config.traceTimeoutMs ?? DEFAULT_TRACE_TIMEOUT_MS,
+      onComplete: (traceId, spans) => this.release(traceId, spans),
+    });
+  }
+
+  public onStart(span: Span): void {
+    this.traceBuffer.trackStart(span);
+  }
+
+  public onEnd(span: ReadableSpan): void {
+    this.traceBuffer.trackEnd(span, true);
+  }
+
+  /**
+   * Releases all buffered traces immediately with the attributes seen so far.
+   */
+  public flush(): void {
+    this.traceBuffer.flush();
+  }
+
+  private release(traceId: string, spans: ReadableSpan[]): void {
+    const attributes = this.collectAttributes(traceId, spans);
+    this.rememberAttributes(traceId, attributes);
+
+    for (const span of spans) {
+      for (const [key, value] of attributes) {
+        if (
+          key === LangfuseOtelSpanAttributes.TRACE_TAGS ||
+          span.attributes[key] == null
+        ) {
+          span.attributes[key] = value;
+        }
+      }
+
+      this.onRelease(span);
+    }
+  }
+
+  private collectAttributes(
+    traceId: string,
+    spans: ReadableSpan[],
+  ): TraceAttributes {
+    const attributes: TraceAttributes = new Map(
+      this.attributesByTraceId.get(traceId),
+    );
+    const tags = new Set<string>(
+      (attributes.get(LangfuseOtelSpanAttributes.TRACE_TAGS) as string[]) ?? [],
+    );
+
+    // Values of earlier spans win, as later ones may come from nested scopes
+    const spansByStartTime = [...spans].sort(
+      (a, b) =>
+        hrTimeToMilliseconds(a.startTime) - hrTimeToMilliseconds(b.startTime),
+    );
+
+    for (const span of spansByStartTime) {
+      for (const key of BACKFILLED_STRING_ATTRIBUTES) {
+        const value = span.attributes[key];
+
+        if (typeof value === "string" && !attributes.has(key)) {
+          attributes.set(key, value);
+        }
+      }
+
+      const spanTags = span.attributes[LangfuseOtelSpanAttributes.TRACE_TAGS];
+      if (Array.isArray(spanTags)) {
+        for (const tag of spanTags) {
+          if (typeof tag === "string") tags.add(tag);
+        }
+      }
+    }
+
+    if (tags.size > 0) {
+      attributes.set(LangfuseOtelSpanAttributes.TRACE_TAGS, Array.from(tags));
+    }
+
+    return attributes;
+  }
+
+  private rememberAttributes(
+    traceId: string,
+    attributes: TraceAttributes,
+  ): void {
+    this.attributesByTraceId.delete(traceId);
+
+    if (this.attributesByTraceId.size >= MAX_REMEMBERED_TRACES) {
+      const oldestTraceId = this.attributesByTraceId.keys().next().value;
+
+      if (oldestTraceId !== undefined) {
+        this.attributesByTraceId.delete(oldestTraceId);
+      }
+    }
+
+    this.attributesByTraceId.set(traceId, attributes);
+  }
+}
@@ -0,0 +1,135 @@
+import { getGlobalLogger, safeSetTimeout } from "@langfuse/core";
+import type { ReadableSpan, Span } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Configuration for a {@link TraceBuffer}.
+ *
+ * @internal
+ */
+export type TraceBufferParams = {
+  /** Maximum number of traces held at once. The oldest trace is completed early when exceeded. */
+  maxTraces: number;
+  /** Maximum time in milliseconds a trace is held before it is completed with the spans seen so far. */
+  timeoutMs: number;
+  /** Called once per trace with all buffered spans when the trace completes. */
+  onComplete: (traceId: string, spans: ReadableSpan[]) => void;
+};
+
+type BufferedTrace = {
+  openSpanIds: Set<string>;
+  spans: ReadableSpan[];
+  timer: ReturnType<typeof safeSetTimeout>;
+};
+
+/**
+ * Holds ended spans per trace until every span of that trace started on this
+ * processor has ended, i.e. until the local root of the trace has ended.
+ *
+ * A trace is tracked from its first started or ended span on, so that traces
+ * whose spans never end are completed by the timeout as well.
+ *
+ * Spans that end after their trace was completed (e.g. fire-and-forget work
+ * outliving the root span) are not buffered again; callers are expected to
+ * remember per-trace decisions themselves.
+ *
+ * @internal
+ */
+export class TraceBuffer {
+  private bufferedTraces: Map<string, BufferedTrace> = new Map();
+  private params: TraceBufferParams;
+
+  constructor(params: TraceBufferParams) {
+    this.params = params;
+  }
+
+  /** Number of traces currently held in the buffer. */
+  public get size(): number {
+    return this.bufferedTraces.size;
+  }
+
+  /**
+   * Registers a started span so the buffer knows its trace is still open.
+   */
+  public trackStart(span: Span): void {
+    const { traceId, spanId } = span.spanContext();
+
+    this.getOrCreateBufferedTrace(traceId).openSpanIds.add(spanId);
+  }
+
+  /**
+   * Registers an ended span. If `buffer` is true, the span is held until its
+   * trace completes. Completes the trace once no started span remains open.
+   */
+  public trackEnd(span: ReadableSpan, buffer: boolean): void {
+    const { traceId, spanId } = span.spanContext();
+    const bufferedTrace = buffer
+      ? this.getOrCreateBufferedTrace(traceId)
+      : this.bufferedTraces.get(traceId);
+
+    if (!bufferedTrace) return;
+
+    bufferedTrace.openSpanIds.delete(spanId);
+    if (buffer) bufferedTrace.spans.push(span);
+
+    if (bufferedTrace.openSpanIds.size === 0) {
+      this.complete(traceId);
+    }
+  }
+
+  /**
+   * Completes all buffered traces immediately with the spans seen so far.
+   */
+  public flush(): void {
+    for (const traceId of Array.from(this.bufferedTraces.keys())) {
+      this.complete(traceId);
+    }
+  }
+
+  private getOrCreateBufferedTrace(traceId: string): BufferedTrace {
+    const existing = this.bufferedTraces.get(traceId);
+    if (existing) return existing;
+
+    if (this.bufferedTraces.size >= this.params.maxTraces) {
+      const oldestTraceId = this.bufferedTraces.keys().next().value;
+
+      if (oldestTraceId !== undefined) {
+        getGlobalLogger().debug(
+          `Trace buffer is at max size ${this.params.maxTraces}. Completing oldest trace early.`,
+          { traceId: oldestTraceId },
+        );
+
+        this.complete(oldestTraceId);
+      }
+    }
+
+    const bufferedTrace: BufferedTrace = {
+      openSpanIds: new Set(),
+      spans: [],
+      timer: safeSetTimeout(() => {
+        getGlobalLogger().debug(
+          `Trace was buffered for more than ${this.params.timeoutMs}ms. Completing with spans seen so far.`,
+          { traceId },
+        );
+
+        this.complete(traceId);
+      }, this.params.timeoutMs),
+    };
+
+    this.bufferedTraces.set(traceId, bufferedTrace);
+
+    return bufferedTrace;
+  }
+
+  private complete(traceId: string): void {
+    const bufferedTrace = this.bufferedTraces.get(traceId);
+    if (!bufferedTrace) return;
+
+    clearTimeout(bufferedTrace.timer);
+    this.bufferedTraces.delete(traceId);
+
+    // Traces whose spans were all left unbuffered or never ended hold no spans
+    if (bufferedTrace.spans.length > 0) {
+      this.params.onComplete(traceId, bufferedTrace.spans);
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import {
+  LangfuseOtelSpanAttributes,
+  type LangfuseTruncationLimits,
+} from "@langfuse/core";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+import { getPayloadAttributeKeys } from "./masking.js";
+
+/**
+ * Observation metadata key under which the LangfuseSpanProcessor records the
+ * original and truncated sizes of truncated attributes.
+ *
+ * @internal
+ */
+export const TRUNCATION_METADATA_KEY = "truncation";
+
+const MAX_SHRINK_ITERATIONS = 32;
+
+type Unit = NonNullable<LangfuseTruncationLimits["unit"]>;
+
+type TruncatedField = { originalSize: number; size: number };
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Truncates input, output and metadata attributes of a span in place so that
+ * they fit the given size budgets. Limits set on the observation via the
+ * internal truncation attribute take precedence over the given defaults.
+ *
+ * JSON values stay valid JSON: long strings and arrays within them are
+ * shortened and marked with `…truncated N chars` / `…truncated N items`.
+ * The original sizes are recorded as `truncation` observation metadata.
+ *
+ * @internal
+ */
+export function truncatePayloadsInPlace(
+  span: ReadableSpan,
+  defaultLimits: LangfuseTruncationLimits | undefined,
+): void {
+  const limits = {
+    ...defaultLimits,
+    ...parseObservationLimits(span),
+  };
+  const { maxFieldSize, maxSpanSize } = limits;
+  const unit: Unit = limits.unit ?? "bytes";
+
+  if (maxFieldSize === undefined && maxSpanSize === undefined) return;
+
+  const fields = new Map<string, TruncatedField>();
+  const sizes = new Map<string, number>();
+
+  for (const key of getPayloadAttributeKeys(span)) {
+    const value = span.attributes[key];
+    if (typeof value !== "string") continue;
+
+    const size = measure(value, unit);
+    sizes.set(key, size);
+
+    if (maxFieldSize !== undefined && size > maxFieldSize) {
+      const truncated = truncatePayload(value, maxFieldSize, unit);
+      span.attributes[key] = truncated;
+
+      const truncatedSize = measure(truncated, unit);
+      sizes.set(key, truncatedSize);
+      fields.set(key, { originalSize: size, size: truncatedSize });
+    }
+  }
+
+  const totalSize = Array.from(sizes.values()).reduce((a, b) => a + b, 0);
+
+  if (maxSpanSize !== undefined && totalSize > maxSpanSize) {
+    // Share the span budget fairly: small fields are kept as they are and the
+    // remaining budget is split evenly across the larger fields.
+    const bySize = Array.from(sizes.entries()).sort((a, b) => a[1] - b[1]);
+    let remainingBudget = maxSpanSize;
+
+    bySize.forEach(([key, size], index) => {
+      const fairShare = Math.floor(remainingBudget / (bySize.length - index));
+
+      if (size <= fairShare) {
+        remainingBudget -= size;
+
+        return;
+      }
+
+      const truncated = truncatePayload(
+        span.attributes[key] as string,
+        fairShare,
+        unit,
+      );
+      span.attributes[key] = truncated;
+
+      const truncatedSize = measure(truncated, unit);
+      remainingBudget -= truncatedSize;
+      fields.set(key, {
+        originalSize: fields.get(key)?.originalSize ?? size,
+        size: truncatedSize,
+      });
+    });
+  }
+
+  if (fields.size > 0) {
+    span.attributes[
+      `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.${TRUNCATION_METADATA_KEY}`
+    ] = JSON.stringify({ unit, fields: Object.fromEntries(fields) });
+  }
+}
+
+/**
+ * Truncates a serialized payload to fit the budget, keeping JSON values valid.
+ *
+ * @internal
+ */
+export function truncatePayload(
+  value: string,
+  budget: number,
+  unit: Unit,
+): string {
+  if (measure(value, unit) <= budget) return value;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return truncateString(value, budget, unit);
+  }
+
+  let maxStringLength = budget;
+  let maxArrayItems = Math.max(longestArrayLength(parsed), 1);
+
+  for (let i = 0; i < MAX_SHRINK_ITERATIONS; i++) {
+    const shrunk = JSON.stringify(
+      shrink(parsed, maxStringLength, maxArrayItems),
+    );
+    if (measure(shrunk, unit) <= budget) return shrunk;
+
+    if (maxStringLength === 0 && maxArrayItems === 0) break;
+
+    maxStringLength = Math.floor(maxStringLength / 2);
+    maxArrayItems = Math.floor(maxArrayItems / 2);
+  }
+
+  // Structure itself exceeds the budget: fall back to a JSON string
+  // holding the truncated serialization.
+  const overhead = measure(JSON.stringify(""), unit);
+  let stringBudget = budget - overhead;
+
+  while (stringBudget > 0) {
+    const fallback = JSON.stringify(truncateString(value, stringBudget, unit));
+    if (measure(fallback, unit) <= budget) return fallback;
+
+    stringBudget = Math.floor(stringBudget * 0.9);
+  }
+
+  return truncateString(value, budget, unit);
+}
+
+function parseObservationLimits(
+  span: ReadableSpan,
+): LangfuseTruncationLimits | undefined {
+  const raw = span.attributes[LangfuseOtelSpanAttributes.TRUNCATION_LIMITS];
+  if (typeof raw !== "string") return undefined;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+function measure(value: string, unit: Unit): number {
+  return unit === "characters"
+    ? value.length
+    : textEncoder.encode(value).length;
+}
+
+function truncationMarker(count: number, what: "chars" | "items"): string {
+  return `…truncated ${count} ${what}`;
+}
+
+function sliceChars(value: string, length: number): string {
+  // Do not split surrogate pairs
+  const code = value.charCodeAt(length - 1);
+  const end = code >= 0xd800 && code <= 0xdbff ? length - 1 : length;
+
+  return value.slice(0, end);
+}
+
+function truncateString(value: string, budget: number, unit: Unit): string {
+  const fits = (length: number) =>
+    measure(
+      sliceChars(value, length) +
+        truncationMarker(value.length - length, "chars"),
+      unit,
+    ) <= budget;
+
+  // Every character takes at least one byte, so the prefix is at most budget long
+  let low = 0;
+  let high = Math.min(value.length, budget);
+
+  // Find the longest prefix that fits together with the marker
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+
+    if (fits(mid)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const prefix = sliceChars(value, low);
+
+  return prefix + truncationMarker(value.length - prefix.length, "chars");
+}
+
+function shrink(
+  value: unknown,
+  maxStringLength: number,
+  maxArrayItems: number,
+): unknown {
+  if (typeof value === "string") {
+    if (value.length <= maxStringLength) return value;
+
+    const prefix = sliceChars(value, maxStringLength);
+
+    return prefix + truncationMarker(value.length - prefix.length, "chars");
+  }
+
+  if (Array.isArray(value)) {
+    const items = value
+      .slice(0, maxArrayItems)
+      .map((item) => shrink(item, maxStringLength, maxArrayItems));
+
+    if (value.length > maxArrayItems) {
+      items.push(truncationMarker(value.length - maxArrayItems, "items"));
+    }
+
+    return items;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        shrink(item, maxStringLength, maxArrayItems),
+      ]),
+    );
+  }
+
+  return value;
+}
+
+function longestArrayLength(value: unknown): number {
+  if (typeof value !== "object" || value === null) return 0;
+
+  const children = Array.isArray(value) ? value : Object.values(value);
+  let longest = Array.isArray(value) ? value.length : 0;
+
+  for (const child of children) {
+    longest = Math.max(longest, longestArrayLength(child));
+  }
+
+  return longest;
+}
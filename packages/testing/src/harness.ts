@@ -0,0 +1,167 @@
+import type { ScoreBody } from "@langfuse/core";
+import {
+  LangfuseSpanProcessor,
+  type LangfuseSpanProcessorParams,
+} from "@langfuse/otel";
+import {
+  setLangfuseScoreSink,
+  setLangfuseTracerProvider,
+} from "@langfuse/tracing";
+import { context, type ContextManager } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+
+import { decodeObservations } from "./observation.js";
+import { CapturedObservations } from "./query.js";
+
+/**
+ * Configuration for a {@link LangfuseTestHarness}.
+ *
+ * @public
+ */
+export type LangfuseTestHarnessParams = {
+  /**
+   * Options of the LangfuseSpanProcessor that captures the spans, e.g. to test
+   * masking or `shouldExportSpan` filters. Media upload is disabled by default.
+   */
+  processor?: Omit<LangfuseSpanProcessorParams, "exporter" | "exportMode">;
+  /**
+   * Context manager to register while the harness is installed, e.g. an
+   * `AsyncLocalStorageContextManager` from `@opentelemetry/context-async-hooks`.
+   * Required for active observations to nest unless the test setup already
+   * registers one. Ignored if a global context manager is registered.
+   */
+  contextManager?: ContextManager;
+};
+
+/**
+ * Captures the observations and scores emitted by Langfuse instrumentation in
+ * memory, for asserting on them in tests.
+ *
+ * The harness installs an isolated tracer provider via
+ * `setLangfuseTracerProvider`, so it does not interfere with a globally
+ * registered OpenTelemetry SDK. Spans go through a `LangfuseSpanProcessor` as
+ * they would in production.
+ *
+ * @example
+ * ```typescript
+ * import { LangfuseTestHarness } from '@langfuse/testing';
+ * import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+ *
+ * const harness = new LangfuseTestHarness({
+ *   contextManager: new AsyncLocalStorageContextManager(),
+ * });
+ *
+ * beforeEach(() => harness.install());
+ * afterEach(() => harness.reset());
+ * afterAll(() => harness.shutdown());
+ *
+ * it('traces the answer generation', async () => {
+ *   await answerQuestion('What is Langfuse?');
+ *
+ *   const observations = await harness.getObservations();
+ *   const generation = observations.get({ type: 'generation' });
+ *
+ *   expect(generation.model).toBe('gpt-4o');
+ *   expect(generation.usageDetails).toMatchObject({ input: expect.any(Number) });
+ * });
+ * ```
+ *
+ * @public
+ */
+export class LangfuseTestHarness {
+  /** The exporter holding the captured spans */
+  public readonly exporter: InMemorySpanExporter;
+  /** The span processor the captured spans go through */
+  public readonly processor: LangfuseSpanProcessor;
+  /** The isolated tracer provider installed by the harness */
+  public readonly tracerProvider: BasicTracerProvider;
+
+  private capturedScores: ScoreBody[] = [];
+  private contextManager: ContextManager | null;
+  private isContextManagerRegistered = false;
+
+  constructor(params: LangfuseTestHarnessParams = {}) {
+    this.contextManager = params.contextManager ?? null;
+    this.exporter = new InMemorySpanExporter();
+    this.processor = new LangfuseSpanProcessor({
+      mediaUploadEnabled: false,
+      ...params.processor,
+      exporter: this.exporter,
+      exportMode: "immediate",
+    });
+    this.tracerProvider = new BasicTracerProvider({
+      spanProcessors: [this.processor],
+    });
+  }
+
+  /** Scores created via `observation.score()` and `observation.scoreTrace()` */
+  public get scores(): ScoreBody[] {
+    return [...this.capturedScores];
+  }
+
+  /**
+   * Installs the harness as Langfuse tracer provider and score sink, and
+   * registers the configured context manager.
+   *
+   * @returns The harness for method chaining
+   */
+  public install(): this {
+    setLangfuseTracerProvider(this.tracerProvider);
+    setLangfuseScoreSink({
+      create: (score) => this.capturedScores.push(score),
+    });
+
+    if (this.contextManager && !this.isContextManagerRegistered) {
+      this.contextManager.enable();
+      this.isContextManagerRegistered = context.setGlobalContextManager(
+        this.contextManager,
+      );
+
+      if (!this.isContextManagerRegistered) this.contextManager.disable();
+    }
+
+    return this;
+  }
+
+  /**
+   * Flushes pending spans and returns all observations captured since the
+   * last {@link reset}.
+   *
+   * @returns The captured observations with query helpers
+   */
+  public async getObservations(): Promise<CapturedObservations> {
+    await this.processor.forceFlush();
+
+    return new CapturedObservations(
+      decodeObservations(this.exporter.getFinishedSpans()),
+    );
+  }
+
+  /**
+   * Flushes pending spans and discards the captured observations and scores.
+   */
+  public async reset(): Promise<void> {
+    await this.processor.forceFlush();
+
+    this.exporter.reset();
+    this.capturedScores = [];
+  }
+
+  /**
+   * Uninstalls the harness and shuts down its tracer provider.
+   */
+  public async shutdown(): Promise<void> {
+    setLangfuseTracerProvider(null);
+    setLangfuseScoreSink(null);
+
+    if (this.isContextManagerRegistered) {
+      context.disable();
+      this.isContextManagerRegistered = false;
+    }
+
+    await this.tracerProvider.shutdown();
+  }
+}
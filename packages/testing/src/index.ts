@@ -0,0 +1,10 @@
+export {
+  LangfuseTestHarness,
+  type LangfuseTestHarnessParams,
+} from "./harness.js";
+export { langfuseMatchers, type LangfuseMatchers } from "./matchers.js";
+export type {
+  CapturedObservation,
+  CapturedTraceAttributes,
+} from "./observation.js";
+export { CapturedObservations, type ObservationQuery } from "./query.js";
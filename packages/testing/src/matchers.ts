@@ -0,0 +1,116 @@
+import type { CapturedObservation } from "./observation.js";
+import {
+  CapturedObservations,
+  formatQuery,
+  matchesObservation,
+  type ObservationQuery,
+} from "./query.js";
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+/**
+ * Type declarations of the Langfuse matchers, for augmenting the assertion
+ * types of Vitest or Jest.
+ *
+ * @example
+ * ```typescript
+ * // vitest.d.ts
+ * import type { LangfuseMatchers } from '@langfuse/testing';
+ *
+ * declare module 'vitest' {
+ *   interface Assertion<T = any> extends LangfuseMatchers<T> {}
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface LangfuseMatchers<R = unknown> {
+  /** Asserts that an observation matching the query was captured */
+  toHaveObservation(query?: ObservationQuery): R;
+  /** Asserts that a generation matching the query was captured */
+  toHaveGeneration(query?: Omit<ObservationQuery, "type">): R;
+  /** Asserts that a captured observation has a child matching the query */
+  toHaveChildObservation(query?: ObservationQuery): R;
+}
+
+/**
+ * Vitest and Jest matchers for captured observations. Register them with
+ * `expect.extend(langfuseMatchers)`.
+ *
+ * The matchers accept {@link CapturedObservations}, arrays of captured
+ * observations, or, for `toHaveChildObservation`, a single observation.
+ *
+ * @example
+ * ```typescript
+ * import { langfuseMatchers } from '@langfuse/testing';
+ *
+ * expect.extend(langfuseMatchers);
+ *
+ * const observations = await harness.getObservations();
+ * expect(observations).toHaveGeneration({ model: 'gpt-4o', level: undefined });
+ * expect(observations.get({ name: 'agent' })).toHaveChildObservation({ type: 'tool' });
+ * ```
+ *
+ * @public
+ */
+export const langfuseMatchers = {
+  toHaveObservation(
+    received: CapturedObservations | CapturedObservation[],
+    query: ObservationQuery = {},
+  ): MatcherResult {
+    return matchObservations(toObservations(received), query, "an observation");
+  },
+
+  toHaveGeneration(
+    received: CapturedObservations | CapturedObservation[],
+    query: Omit<ObservationQuery, "type"> = {},
+  ): MatcherResult {
+    return matchObservations(
+      toObservations(received),
+      { ...query, type: "generation" },
+      "a generation",
+    );
+  },
+
+  toHaveChildObservation(
+    received: CapturedObservation,
+    query: ObservationQuery = {},
+  ): MatcherResult {
+    return matchObservations(
+      new CapturedObservations(received.children),
+      query,
+      `a child observation of "${received.name}"`,
+    );
+  },
+};
+
+function toObservations(
+  received: CapturedObservations | CapturedObservation[],
+): CapturedObservations {
+  if (received instanceof CapturedObservations) return received;
+
+  if (Array.isArray(received)) return new CapturedObservations(received);
+
+  throw new TypeError(
+    "Expected captured observations, e.g. from harness.getObservations().",
+  );
+}
+
+function matchObservations(
+  observations: CapturedObservations,
+  query: ObservationQuery,
+  description: string,
+): MatcherResult {
+  const matches = observations.all.filter((observation) =>
+    matchesObservation(observation, query),
+  );
+  const pass = matches.length > 0;
+
+  return {
+    pass,
+    message: () =>
+      pass
+        ? `Expected no ${description.replace(/^an? /, "")} matching ${formatQuery(query)}, but found ${matches.length}:\n${new CapturedObservations(matches).format()}`
+        : `Expected ${description} matching ${formatQuery(query)}. Captured observations:\n${observations.format()}`,
+  };
+}
@@ -0,0 +1,207 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import type {
+  LangfuseObservationType,
+  ObservationLevel,
+} from "@langfuse/tracing";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Trace-level attributes recorded on a captured observation, e.g. via
+ * `propagateAttributes`.
+ *
+ * @public
+ */
+export type CapturedTraceAttributes = {
+  /** Trace name */
+  name?: string;
+  /** User ID */
+  userId?: string;
+  /** Session ID */
+  sessionId?: string;
+  /** Trace tags */
+  tags?: string[];
+  /** Whether the trace is public */
+  public?: boolean;
+  /** Decoded trace metadata */
+  metadata: Record<string, unknown>;
+  /** Decoded trace input, set via the deprecated `setTraceIO` */
+  input?: unknown;
+  /** Decoded trace output, set via the deprecated `setTraceIO` */
+  output?: unknown;
+};
+
+/**
+ * An observation captured by the {@link LangfuseTestHarness}, decoded from the
+ * `langfuse.*` attributes of the exported span.
+ *
+ * Input, output and metadata values that were serialized to JSON are parsed
+ * back. Note that strings that are valid JSON, e.g. `"42"`, are therefore
+ * decoded to the JSON value.
+ *
+ * @public
+ */
+export type CapturedObservation = {
+  /** Observation ID (span ID) */
+  id: string;
+  /** Trace ID */
+  traceId: string;
+  /** ID of the parent observation, if any */
+  parentId?: string;
+  /** Observation name (span name) */
+  name: string;
+  /** Observation type. Spans without Langfuse type are decoded as `span` */
+  type: LangfuseObservationType;
+  /** Severity level */
+  level?: ObservationLevel;
+  /** Status message */
+  statusMessage?: string;
+  /** Decoded input */
+  input?: unknown;
+  /** Decoded output */
+  output?: unknown;
+  /** Decoded observation metadata */
+  metadata: Record<string, unknown>;
+  /** Model name of generations */
+  model?: string;
+  /** Decoded model parameters of generations */
+  modelParameters?: Record<string, unknown>;
+  /** Decoded usage details of generations */
+  usageDetails?: Record<string, number>;
+  /** Decoded cost details of generations */
+  costDetails?: Record<string, number>;
+  /** Linked prompt of generations */
+  prompt?: { name: string; version: number };
+  /** Time of the first streamed token of generations */
+  completionStartTime?: Date;
+  /** Version of the code or model */
+  version?: string;
+  /** Tracing environment */
+  environment?: string;
+  /** Release */
+  release?: string;
+  /** Trace-level attributes */
+  trace: CapturedTraceAttributes;
+  /** Start time */
+  startTime: Date;
+  /** End time */
+  endTime: Date;
+  /** Captured child observations, ordered by start time */
+  children: CapturedObservation[];
+  /** The exported OpenTelemetry span */
+  otelSpan: ReadableSpan;
+};
+
+const Attr = LangfuseOtelSpanAttributes;
+
+/**
+ * Decodes the captured observations from exported spans and links them into
+ * trees, ordered by start time.
+ *
+ * @internal
+ */
+export function decodeObservations(
+  spans: ReadableSpan[],
+): CapturedObservation[] {
+  const observations = spans
+    .map(decodeObservation)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const observationsById = new Map(
+    observations.map((observation) => [observation.id, observation]),
+  );
+
+  for (const observation of observations) {
+    if (observation.parentId) {
+      observationsById.get(observation.parentId)?.children.push(observation);
+    }
+  }
+
+  return observations;
+}
+
+function decodeObservation(span: ReadableSpan): CapturedObservation {
+  const attributes = span.attributes;
+  const promptName = attributes[Attr.OBSERVATION_PROMPT_NAME];
+  const completionStartTime = decodeValue(
+    attributes[Attr.OBSERVATION_COMPLETION_START_TIME],
+  );
+
+  return {
+    id: span.spanContext().spanId,
+    traceId: span.spanContext().traceId,
+    parentId: span.parentSpanContext?.spanId,
+    name: span.name,
+    type:
+      (attributes[Attr.OBSERVATION_TYPE] as LangfuseObservationType) ?? "span",
+    level: attributes[Attr.OBSERVATION_LEVEL] as ObservationLevel | undefined,
+    statusMessage: attributes[Attr.OBSERVATION_STATUS_MESSAGE] as
+      | string
+      | undefined,
+    input: decodeValue(attributes[Attr.OBSERVATION_INPUT]),
+    output: decodeValue(attributes[Attr.OBSERVATION_OUTPUT]),
+    metadata: decodeMetadata(span, Attr.OBSERVATION_METADATA),
+    model: attributes[Attr.OBSERVATION_MODEL] as string | undefined,
+    modelParameters: decodeValue(
+      attributes[Attr.OBSERVATION_MODEL_PARAMETERS],
+    ) as Record<string, unknown> | undefined,
+    usageDetails: decodeValue(attributes[Attr.OBSERVATION_USAGE_DETAILS]) as
+      | Record<string, number>
+      | undefined,
+    costDetails: decodeValue(attributes[Attr.OBSERVATION_COST_DETAILS]) as
+      | Record<string, number>
+      | undefined,
+    prompt:
+      typeof promptName === "string"
+        ? {
+            name: promptName,
+            version: Number(attributes[Attr.OBSERVATION_PROMPT_VERSION]),
+          }
+        : undefined,
+    completionStartTime:
+      typeof completionStartTime === "string"
+        ? new Date(completionStartTime)
+        : undefined,
+    version: attributes[Attr.VERSION] as string | undefined,
+    environment: attributes[Attr.ENVIRONMENT] as string | undefined,
+    release: attributes[Attr.RELEASE] as string | undefined,
+    trace: {
+      name: attributes[Attr.TRACE_NAME] as string | undefined,
+      userId: attributes[Attr.TRACE_USER_ID] as string | undefined,
+      sessionId: attributes[Attr.TRACE_SESSION_ID] as string | undefined,
+      tags: attributes[Attr.TRACE_TAGS] as string[] | undefined,
+      public: attributes[Attr.TRACE_PUBLIC] as boolean | undefined,
+      metadata: decodeMetadata(span, Attr.TRACE_METADATA),
+      input: decodeValue(attributes[Attr.TRACE_INPUT]),
+      output: decodeValue(attributes[Attr.TRACE_OUTPUT]),
+    },
+    startTime: new Date(hrTimeToMilliseconds(span.startTime)),
+    endTime: new Date(hrTimeToMilliseconds(span.endTime)),
+    children: [],
+    otelSpan: span,
+  };
+}
+
+function decodeMetadata(
+  span: ReadableSpan,
+  prefix: string,
+): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(span.attributes)) {
+    if (key.startsWith(`${prefix}.`)) {
+      metadata[key.slice(prefix.length + 1)] = decodeValue(value);
+    }
+  }
+
+  return metadata;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,177 @@
+import type { CapturedObservation } from "./observation.js";
+
+/**
+ * Query for captured observations. Every given field must match: strings and
+ * numbers by equality, `name` also by regular expression, and objects such as
+ * `metadata` or `usageDetails` by their given keys only.
+ *
+ * @example
+ * ```typescript
+ * observations.find({ type: 'generation', model: 'gpt-4o' });
+ * observations.filter({ name: /^retrieve-/, metadata: { source: 'web' } });
+ * ```
+ *
+ * @public
+ */
+export type ObservationQuery = {
+  [K in keyof Omit<
+    CapturedObservation,
+    "name" | "children" | "otelSpan"
+  >]?: CapturedObservation[K] extends Record<string, unknown> | undefined
+    ? Partial<CapturedObservation[K]>
+    : CapturedObservation[K];
+} & {
+  /** Observation name or pattern */
+  name?: string | RegExp;
+};
+
+/**
+ * Captured observations with query helpers, as returned by
+ * {@link LangfuseTestHarness.getObservations}.
+ *
+ * @public
+ */
+export class CapturedObservations {
+  /** All captured observations, ordered by start time */
+  public readonly all: CapturedObservation[];
+
+  constructor(observations: CapturedObservation[]) {
+    this.all = observations;
+  }
+
+  /** Number of captured observations */
+  public get length(): number {
+    return this.all.length;
+  }
+
+  /**
+   * Returns the first observation matching the query, if any.
+   *
+   * @param query - Fields the observation must match
+   */
+  public find(query: ObservationQuery = {}): CapturedObservation | undefined {
+    return this.all.find((observation) =>
+      matchesObservation(observation, query),
+    );
+  }
+
+  /**
+   * Returns the first observation matching the query or throws if there is
+   * none, listing the captured observations.
+   *
+   * @param query - Fields the observation must match
+   */
+  public get(query: ObservationQuery = {}): CapturedObservation {
+    const observation = this.find(query);
+
+    if (!observation) {
+      throw new Error(
+        `No observation matches ${formatQuery(query)}. Captured observations:\n${this.format()}`,
+      );
+    }
+
+    return observation;
+  }
+
+  /**
+   * Returns all observations matching the query.
+   *
+   * @param query - Fields the observations must match
+   */
+  public filter(query: ObservationQuery = {}): CapturedObservation[] {
+    return this.all.filter((observation) =>
+      matchesObservation(observation, query),
+    );
+  }
+
+  /**
+   * Returns the observations without captured parent, i.e. the roots of the
+   * observation trees. Use `children` to walk the trees.
+   */
+  public roots(): CapturedObservation[] {
+    const ids = new Set(this.all.map((observation) => observation.id));
+
+    return this.all.filter(
+      (observation) => !observation.parentId || !ids.has(observation.parentId),
+    );
+  }
+
+  /** Returns the IDs of all captured traces, ordered by first start time */
+  public traceIds(): string[] {
+    return [...new Set(this.all.map((observation) => observation.traceId))];
+  }
+
+  /**
+   * Formats the observation trees as indented list of type and name, e.g.
+   * for assertion messages or snapshots.
+   */
+  public format(): string {
+    const lines: string[] = [];
+    const visit = (observation: CapturedObservation, depth: number) => {
+      lines.push(
+        `${"  ".repeat(depth)}- ${observation.type} "${observation.name}"`,
+      );
+      observation.children.forEach((child) => visit(child, depth + 1));
+    };
+    this.roots().forEach((root) => visit(root, 0));
+
+    return lines.length > 0 ? lines.join("\n") : "(none)";
+  }
+}
+
+/**
+ * Whether an observation matches all fields of a query.
+ *
+ * @internal
+ */
+export function matchesObservation(
+  observation: CapturedObservation,
+  query: ObservationQuery,
+): boolean {
+  return Object.entries(query).every(([key, expected]) =>
+    matchesValue(observation[key as keyof CapturedObservation], expected),
+  );
+}
+
+function matchesValue(actual: unknown, expected: unknown): boolean {
+  if (expected === undefined) return true;
+
+  if (expected instanceof RegExp) {
+    return typeof actual === "string" && expected.test(actual);
+  }
+
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime();
+  }
+
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, index) => matchesValue(actual[index], value))
+    );
+  }
+
+  if (expected !== null && typeof expected === "object") {
+    return (
+      actual !== null &&
+      typeof actual === "object" &&
+      Object.entries(expected).every(([key, value]) =>
+        matchesValue((actual as Record<string, unknown>)[key], value),
+      )
+    );
+  }
+
+  return Object.is(actual, expected);
+}
+
+/**
+ * Formats a query for assertion messages.
+ *
+ * @internal
+ */
+export function formatQuery(query: ObservationQuery): string {
+  return JSON.stringify(query, (_, value) =>
+    value instanceof RegExp ? String(value) : value,
+  );
+}
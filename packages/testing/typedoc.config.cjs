@@ -0,0 +1,4 @@
+/** @type {import('typedoc').TypeDocOptions} */
+module.exports = {
+  entryPoints: ["./src/index.ts"],
+};
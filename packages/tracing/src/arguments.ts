@@ -0,0 +1,127 @@
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const UNPARENTHESIZED_ARROW = /^(?:async\s+)?([A-Za-z_$][\w$]*)\s*=>/;
+const COMMENTS = /\/\*[\s\S]*?\*\/|\/\/[^\n]*/g;
+
+/**
+ * A function parameter as declared in the function source.
+ *
+ * @internal
+ */
+export type ParameterName = {
+  /** The parameter name, or `argN` for destructured parameters */
+  name: string;
+  /** Whether this is a rest parameter collecting the remaining arguments */
+  isRest: boolean;
+};
+
+type AnyFunction = (...args: any[]) => unknown;
+
+const parameterNamesCache = new WeakMap<AnyFunction, ParameterName[]>();
+
+/**
+ * Reads the parameter names of a function from its source.
+ *
+ * Destructured parameters get positional names (`arg0`, `arg1`, ...). Returns
+ * an empty list if the source cannot be parsed, e.g. for native or bound
+ * functions.
+ *
+ * @internal
+ */
+export function getParameterNames(fn: AnyFunction): ParameterName[] {
+  const cached = parameterNamesCache.get(fn);
+  if (cached) return cached;
+
+  let names: ParameterName[] = [];
+
+  try {
+    names = parseParameterNames(Function.prototype.toString.call(fn));
+  } catch {
+    // Fall back to positional argument capture
+  }
+
+  parameterNamesCache.set(fn, names);
+
+  return names;
+}
+
+/**
+ * Returns the parameter receiving the argument at the given position.
+ * Arguments beyond the declared parameters are named `argN`, unless a rest
+ * parameter collects them.
+ *
+ * @internal
+ */
+export function getArgumentParameter(
+  index: number,
+  parameters: ParameterName[],
+): ParameterName {
+  const last = parameters[parameters.length - 1];
+
+  if (last?.isRest && index >= parameters.length - 1) return last;
+
+  return parameters[index] ?? { name: `arg${index}`, isRest: false };
+}
+
+function parseParameterNames(source: string): ParameterName[] {
+  const code = source.replace(COMMENTS, "").trim();
+
+  const arrow = UNPARENTHESIZED_ARROW.exec(code);
+  if (arrow) return [{ name: arrow[1], isRest: false }];
+
+  const start = code.indexOf("(");
+  if (start === -1) return [];
+
+  return splitTopLevel(code, start + 1).map((parameter, index) => {
+    const isRest = parameter.startsWith("...");
+    const name = (isRest ? parameter.slice(3) : parameter).split("=")[0].trim();
+
+    return {
+      name: IDENTIFIER.test(name) ? name : `arg${index}`,
+      isRest,
+    };
+  });
+}
+
+/**
+ * Splits the parameter list starting at `start` on top-level commas, up to
+ * the closing parenthesis. Default values may contain nested brackets and
+ * strings.
+ */
+function splitTopLevel(code: string, start: number): string[] {
+  const parameters: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+
+    if (quote) {
+      if (char === "\\") {
+        current += char + code[++i];
+
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if (char === "(" || char === "[" || char === "{") {
+      depth++;
+    } else if (char === ")" || char === "]" || char === "}") {
+      if (depth === 0) break;
+
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parameters.push(current.trim());
+      current = "";
+
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (current.trim()) parameters.push(current.trim());
+
+  return parameters;
+}
@@ -1,4 +1,4 @@
-import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import { LangfuseOtelSpanAttributes, serializeValue } from "@langfuse/core";
 import { type Attributes } from "@opentelemetry/api";
 
 import {
@@ -26,8 +26,8 @@ export function createTraceAttributes({
   output,
 }: LangfuseTraceAttributes = {}): Attributes {
   const attributes = {
-    [LangfuseOtelSpanAttributes.TRACE_INPUT]: _serialize(input),
-    [LangfuseOtelSpanAttributes.TRACE_OUTPUT]: _serialize(output),
+    [LangfuseOtelSpanAttributes.TRACE_INPUT]: serializeValue(input),
+    [LangfuseOtelSpanAttributes.TRACE_OUTPUT]: serializeValue(output),
   };
 
   return Object.fromEntries(
@@ -61,17 +61,17 @@ export function createObservationAttributes(
     [LangfuseOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE]: statusMessage,
     [LangfuseOtelSpanAttributes.VERSION]: version,
     [LangfuseOtelSpanAttributes.ENVIRONMENT]: environment,
-    [LangfuseOtelSpanAttributes.OBSERVATION_INPUT]: _serialize(input),
-    [LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT]: _serialize(output),
+    [LangfuseOtelSpanAttributes.OBSERVATION_INPUT]: serializeValue(input),
+    [LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT]: serializeValue(output),
     [LangfuseOtelSpanAttributes.OBSERVATION_MODEL]: model,
     [LangfuseOtelSpanAttributes.OBSERVATION_USAGE_DETAILS]:
-      _serialize(usageDetails),
+      serializeValue(usageDetails),
     [LangfuseOtelSpanAttributes.OBSERVATION_COST_DETAILS]:
-      _serialize(costDetails),
+      serializeValue(costDetails),
     [LangfuseOtelSpanAttributes.OBSERVATION_COMPLETION_START_TIME]:
-      _serialize(completionStartTime),
+      serializeValue(completionStartTime),
     [LangfuseOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS]:
-      _serialize(modelParameters),
+      serializeValue(modelParameters),
     ...(prompt && !prompt.isFallback
       ? {
           [LangfuseOtelSpanAttributes.OBSERVATION_PROMPT_NAME]: prompt.name,
@@ -87,23 +87,6 @@ export function createObservationAttributes(
   );
 }
 
-/**
- * Safely serializes an object to JSON string.
- *
- * @param obj - Object to serialize
- * @returns JSON string or undefined if null/undefined, error message if serialization fails
- * @internal
- */
-function _serialize(obj: unknown): string | undefined {
-  try {
-    if (typeof obj === "string") return obj;
-
-    return obj != null ? JSON.stringify(obj) : undefined;
-  } catch {
-    return "<failed to serialize>";
-  }
-}
-
 /**
  * Flattens and serializes metadata into OpenTelemetry attribute format.
  *
@@ -132,13 +115,13 @@ function _flattenAndSerializeMetadata(
   }
 
   if (typeof metadata !== "object" || Array.isArray(metadata)) {
-    const serialized = _serialize(metadata);
+    const serialized = serializeValue(metadata);
     if (serialized) {
       metadataAttributes[prefix] = serialized;
     }
   } else {
     for (const [key, value] of Object.entries(metadata)) {
-      const serialized = typeof value === "string" ? value : _serialize(value);
+      const serialized = serializeValue(value);
       if (serialized) {
         metadataAttributes[`${prefix}.${key}`] = serialized;
       }
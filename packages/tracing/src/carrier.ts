@@ -0,0 +1,476 @@
+import {
+  getGlobalLogger,
+  getPropagatedAttributesFromContext,
+  LANGFUSE_TRACE_ID_BAGGAGE_KEY,
+  LangfuseOtelSpanAttributes,
+  propagateAttributes,
+  PropagateAttributesParams,
+} from "@langfuse/core";
+import {
+  Attributes,
+  context,
+  Context,
+  createContextKey,
+  Link,
+  propagation,
+  Span,
+  trace,
+} from "@opentelemetry/api";
+
+import {
+  extractParentSpanContext,
+  extractTraceContext,
+  injectTraceContext,
+} from "./headers.js";
+import type { LangfuseObservationType } from "./types.js";
+
+import { startActiveObservation } from "./index.js";
+
+const CARRIED_LINKS_KEY = createContextKey("langfuse_carried_links");
+
+/**
+ * Key under which {@link attachTraceCarrier} stores the trace carrier in job
+ * data.
+ *
+ * @public
+ */
+export const LANGFUSE_TRACE_CARRIER_KEY = "__langfuseTraceCarrier";
+
+/**
+ * Trace-level attributes captured in a {@link LangfuseTraceCarrier}.
+ *
+ * @public
+ */
+export type LangfuseCarriedAttributes = Pick<
+  PropagateAttributesParams,
+  | "userId"
+  | "sessionId"
+  | "metadata"
+  | "version"
+  | "tags"
+  | "traceName"
+  | "environment"
+> & {
+  prompt?: { name: string; version: number };
+};
+
+/**
+ * Serializable snapshot of a trace context, used to continue a trace across
+ * process boundaries such as background job queues.
+ *
+ * Holds the W3C trace context and baggage of the producer plus the
+ * attributes propagated via `propagateAttributes`. It is a plain JSON object
+ * and can be stored in job payloads or message attributes as is.
+ *
+ * @public
+ */
+export type LangfuseTraceCarrier = {
+  traceparent?: string;
+  tracestate?: string;
+  baggage?: string;
+  attributes?: LangfuseCarriedAttributes;
+};
+
+/**
+ * How a restored trace carrier relates the consumer to the producer.
+ *
+ * - `parent`: observations of the consumer continue the producer's trace
+ * - `link`: the consumer starts a new trace whose root observation links to the
+ *   producer's observation. Use this for work that should be analyzed on its
+ *   own, e.g. retries or scheduled follow-ups.
+ *
+ * @public
+ */
+export type LangfuseTraceCarrierMode = "parent" | "link";
+
+/**
+ * Options for {@link restoreTraceContext}.
+ *
+ * @public
+ */
+export type RestoreTraceContextOptions = {
+  /** How to relate the consumer to the producer. Default is `parent` */
+  mode?: LangfuseTraceCarrierMode;
+  /** Attributes of the span link in `link` mode, e.g. `{ relation: 'retry-of' }` */
+  linkAttributes?: Attributes;
+  /** The context to extend. Defaults to the active context */
+  baseContext?: Context;
+};
+
+/**
+ * Captures the active trace context and propagated attributes into a
+ * serializable {@link LangfuseTraceCarrier}.
+ *
+ * @param source - The observation or context to capture. Defaults to the active context
+ * @returns The trace carrier
+ *
+ * @example
+ * ```typescript
+ * import { createTraceCarrier, startActiveObservation } from '@langfuse/tracing';
+ *
+ * await startActiveObservation('enqueue-summary', async () => {
+ *   await sqs.sendMessage({
+ *     QueueUrl: queueUrl,
+ *     MessageBody: JSON.stringify({ documentId, carrier: createTraceCarrier() }),
+ *   });
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createTraceCarrier(
+  source?: Context | { otelSpan: Span },
+): LangfuseTraceCarrier {
+  const sourceContext =
+    source && !("otelSpan" in source) ? source : context.active();
+
+  const carrier: LangfuseTraceCarrier = injectTraceContext({}, source);
+  const attributes = getCarriedAttributes(sourceContext);
+
+  if (Object.keys(attributes).length > 0) carrier.attributes = attributes;
+
+  return carrier;
+}
+
+/**
+ * Restores an OpenTelemetry context from a {@link LangfuseTraceCarrier}.
+ *
+ * The returned context carries the propagated attributes of the producer. In
+ * `parent` mode it also carries the producer's span as remote parent, so that
+ * observations started within it continue the producer's trace. In `link`
+ * mode the next root observation started within it begins a new trace that
+ * links to the producer's span.
+ *
+ * @param carrier - The trace carrier created by the producer
+ * @param options - How to restore the carrier
+ * @returns The restored context
+ *
+ * @public
+ */
+export function restoreTraceContext(
+  carrier: LangfuseTraceCarrier,
+  options: RestoreTraceContextOptions = {},
+): Context {
+  const { mode = "parent", baseContext = context.active() } = options;
+  const headers = {
+    traceparent: carrier.traceparent,
+    tracestate: carrier.tracestate,
+    baggage: carrier.baggage,
+  };
+
+  let restored = extractTraceContext(headers, baseContext);
+
+  if (mode === "link") {
+    restored = trace.deleteSpan(restored);
+
+    // The trace id claim belongs to the producer's trace
+    const baggage = propagation.getBaggage(restored);
+    if (baggage?.getEntry(LANGFUSE_TRACE_ID_BAGGAGE_KEY)) {
+      restored = propagation.setBaggage(
+        restored,
+        baggage.removeEntry(LANGFUSE_TRACE_ID_BAGGAGE_KEY),
+      );
+    }
+
+    const spanContext = extractParentSpanContext(headers);
+    if (spanContext) {
+      restored = restored.setValue(CARRIED_LINKS_KEY, [
+        { context: spanContext, attributes: options.linkAttributes },
+      ]);
+    }
+  }
+
+  const attributes = carrier.attributes;
+  if (!attributes) return restored;
+
+  return context.with(restored, () =>
+    propagateAttributes(attributes, () => context.active()),
+  );
+}
+
+/**
+ * Runs a function within the context restored from a
+ * {@link LangfuseTraceCarrier}.
+ *
+ * @param carrier - The trace carrier created by the producer
+ * @param fn - The function to run
+ * @param options - How to restore the carrier
+ * @returns The result of the function
+ *
+ * @example
+ * ```typescript
+ * import { runWithTraceCarrier, startActiveObservation } from '@langfuse/tracing';
+ *
+ * consumer.on('message', (message) => {
+ *   const { documentId, carrier } = JSON.parse(message.Body);
+ *
+ *   return runWithTraceCarrier(carrier, () =>
+ *     startActiveObservation('summarize-document', async () => {
+ *       // Part of the producer's trace, with its userId and sessionId
+ *     }),
+ *   );
+ * });
+ * ```
+ *
+ * @public
+ */
+export function runWithTraceCarrier<T>(
+  carrier: LangfuseTraceCarrier | undefined,
+  fn: () => T,
+  options?: RestoreTraceContextOptions,
+): T {
+  if (!carrier) return fn();
+
+  return context.with(restoreTraceContext(carrier, options), fn);
+}
+
+/**
+ * Adds a {@link LangfuseTraceCarrier} of the active trace to job data, for
+ * job queues such as BullMQ. Restore it on the worker with
+ * {@link observeJob} or {@link extractTraceCarrier}.
+ *
+ * @param data - The job data
+ * @param source - The observation or context to capture. Defaults to the active context
+ * @returns A copy of the job data with the trace carrier
+ *
+ * @example
+ * ```typescript
+ * import { Queue } from 'bullmq';
+ * import { attachTraceCarrier } from '@langfuse/tracing';
+ *
+ * const queue = new Queue('summaries');
+ * await queue.add('summarize', attachTraceCarrier({ documentId }));
+ * ```
+ *
+ * @public
+ */
+export function attachTraceCarrier<T extends object>(
+  data: T,
+  source?: Context | { otelSpan: Span },
+): T & { [LANGFUSE_TRACE_CARRIER_KEY]: LangfuseTraceCarrier } {
+  return { ...data, [LANGFUSE_TRACE_CARRIER_KEY]: createTraceCarrier(source) };
+}
+
+/**
+ * Reads the {@link LangfuseTraceCarrier} added by {@link attachTraceCarrier}
+ * from job data.
+ *
+ * @param data - The job data
+ * @returns The trace carrier, or undefined if the data carries none
+ *
+ * @public
+ */
+export function extractTraceCarrier(
+  data: unknown,
+): LangfuseTraceCarrier | undefined {
+  if (!data || typeof data !== "object") return undefined;
+
+  const carrier = (data as Record<string, unknown>)[LANGFUSE_TRACE_CARRIER_KEY];
+
+  return carrier && typeof carrier === "object"
+    ? (carrier as LangfuseTraceCarrier)
+    : undefined;
+}
+
+/**
+ * The parts of a BullMQ-style job used by {@link observeJob}.
+ *
+ * @public
+ */
+export interface LangfuseJobLike {
+  name: string;
+  id?: string;
+  data: unknown;
+  queueName?: string;
+  attemptsMade?: number;
+}
+
+/**
+ * Options for {@link observeJob}.
+ *
+ * @public
+ */
+export type ObserveJobOptions<TJob extends LangfuseJobLike> = {
+  /** Name of the job observation. Defaults to the job name */
+  name?: string | ((job: TJob) => string);
+  /** Type of the job observation. Default is `span` */
+  asType?: LangfuseObservationType;
+  /**
+   * How to relate the job to the trace that enqueued it. Default is `parent`.
+   * Pass a function to decide per job, e.g. to start linked traces for retries.
+   */
+  mode?: LangfuseTraceCarrierMode | ((job: TJob) => LangfuseTraceCarrierMode);
+  /** Attributes of the span link in `link` mode */
+  linkAttributes?: Attributes | ((job: TJob) => Attributes | undefined);
+  /** Whether to record the job data as observation input. Default is true */
+  captureInput?: boolean;
+  /** Whether to record the job result as observation output. Default is true */
+  captureOutput?: boolean;
+  /**
+   * Classifies job errors as expected, e.g. retryable errors. Expected errors
+   * are recorded with level `WARNING` instead of `ERROR`.
+   */
+  isExpectedError?: (error: unknown) => boolean;
+};
+
+/**
+ * Wraps a BullMQ-style job processor to trace each job as an observation
+ * that continues the trace that enqueued it.
+ *
+ * Jobs enqueued with {@link attachTraceCarrier} restore the producer's trace
+ * context and propagated attributes. Jobs without a carrier start a new
+ * trace.
+ *
+ * @param processor - The job processor to wrap
+ * @param options - Configuration of the job observations
+ * @returns The wrapped job processor
+ *
+ * @example
+ * ```typescript
+ * import { Worker } from 'bullmq';
+ * import { observeJob } from '@langfuse/tracing';
+ *
+ * new Worker('summaries', observeJob(async (job) => {
+ *   return await summarize(job.data.documentId);
+ * }, {
+ *   mode: (job) => (job.attemptsMade > 0 ? 'link' : 'parent'),
+ *   linkAttributes: { relation: 'retry-of' },
+ * }));
+ * ```
+ *
+ * @public
+ */
+export function observeJob<
+  TJob extends LangfuseJobLike,
+  TArgs extends unknown[],
+  TResult,
+>(
+  processor: (job: TJob, ...args: TArgs) => Promise<TResult>,
+  options: ObserveJobOptions<TJob> = {},
+): (job: TJob, ...args: TArgs) => Promise<TResult> {
+  return function observedJob(job, ...args) {
+    const carrier = extractTraceCarrier(job.data);
+    const name =
+      typeof options.name === "function"
+        ? options.name(job)
+        : (options.name ?? job.name);
+    const mode =
+      typeof options.mode === "function" ? options.mode(job) : options.mode;
+    const linkAttributes =
+      typeof options.linkAttributes === "function"
+        ? options.linkAttributes(job)
+        : options.linkAttributes;
+
+    return runWithTraceCarrier(
+      carrier,
+      () =>
+        startActiveObservation(
+          name,
+          async (observation) => {
+            observation.update({
+              input:
+                options.captureInput === false
+                  ? undefined
+                  : getJobInput(job.data),
+              metadata: {
+                jobId: job.id,
+                queueName: job.queueName,
+                attemptsMade: job.attemptsMade,
+              },
+            });
+
+            const result = await processor(job, ...args);
+
+            if (options.captureOutput !== false) {
+              observation.update({ output: result });
+            }
+
+            return result;
+          },
+          {
+            asType: options.asType as "span",
+            isExpectedError: options.isExpectedError,
+          },
+        ),
+      { mode, linkAttributes },
+    );
+  };
+}
+
+/**
+ * Returns the span links carried by a context restored in `link` mode. Links
+ * only apply to root observations, i.e. if the context has no active span.
+ *
+ * @internal
+ */
+export function getCarriedLinks(ctx: Context): Link[] | undefined {
+  if (trace.getSpan(ctx)) return undefined;
+
+  return ctx.getValue(CARRIED_LINKS_KEY) as Link[] | undefined;
+}
+
+function getJobInput(data: unknown): unknown {
+  if (!extractTraceCarrier(data)) return data;
+
+  const { [LANGFUSE_TRACE_CARRIER_KEY]: _carrier, ...rest } = data as Record<
+    string,
+    unknown
+  >;
+
+  return rest;
+}
+
+function getCarriedAttributes(ctx: Context): LangfuseCarriedAttributes {
+  const attributes: LangfuseCarriedAttributes = {};
+  const metadataPrefix = `${LangfuseOtelSpanAttributes.TRACE_METADATA}.`;
+  let promptName: string | undefined;
+  let promptVersion: number | undefined;
+
+  for (const [key, value] of Object.entries(
+    getPropagatedAttributesFromContext(ctx),
+  )) {
+    switch (key) {
+      case LangfuseOtelSpanAttributes.TRACE_USER_ID:
+        attributes.userId = String(value);
+        break;
+      case LangfuseOtelSpanAttributes.TRACE_SESSION_ID:
+        attributes.sessionId = String(value);
+        break;
+      case LangfuseOtelSpanAttributes.VERSION:
+        attributes.version = String(value);
+        break;
+      case LangfuseOtelSpanAttributes.TRACE_NAME:
+        attributes.traceName = String(value);
+        break;
+      case LangfuseOtelSpanAttributes.ENVIRONMENT:
+        attributes.environment = String(value);
+        break;
+      case LangfuseOtelSpanAttributes.TRACE_TAGS:
+        attributes.tags = Array.isArray(value) ? value : [String(value)];
+        break;
+      case LangfuseOtelSpanAttributes.OBSERVATION_PROMPT_NAME:
+        promptName = String(value);
+        break;
+      case LangfuseOtelSpanAttributes.OBSERVATION_PROMPT_VERSION:
+        promptVersion = Number(value);
+        break;
+      default:
+        if (key.startsWith(metadataPrefix)) {
+          attributes.metadata = {
+            ...attributes.metadata,
+            [key.slice(metadataPrefix.length)]: String(value),
+          };
+        } else {
+          getGlobalLogger().debug(
+            `Attribute '${key}' is not captured in trace carriers`,
+          );
+        }
+    }
+  }
+
+  if (promptName && promptVersion !== undefined) {
+    attributes.prompt = { name: promptName, version: promptVersion };
+  }
+
+  return attributes;
+}
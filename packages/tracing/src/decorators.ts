@@ -0,0 +1,173 @@
+import { observe, ObserveOptions } from "./observe.js";
+
+const OBSERVED_METHOD = Symbol.for("langfuse.observedMethod");
+
+/**
+ * Options for the {@link observed} and {@link observedClass} decorators.
+ *
+ * @public
+ */
+export type ObservedOptions = ObserveOptions & {
+  /**
+   * Whether to name observations `ClassName.method` instead of `method`.
+   * Ignored if `name` is set. Default is false.
+   */
+  includeClassName?: boolean;
+};
+
+/**
+ * Options for the {@link observedClass} decorator.
+ *
+ * @public
+ */
+export type ObservedClassOptions = Omit<ObservedOptions, "name"> & {
+  /** Names of methods that should not be instrumented */
+  exclude?: string[];
+};
+
+type Method = (this: unknown, ...args: any[]) => any;
+
+/**
+ * Method decorator that wraps a class method with {@link observe}.
+ *
+ * Uses standard (TC39) decorators as supported by TypeScript 5 without
+ * `experimentalDecorators`. Accepts the same options as `observe`, preserves
+ * `this`, and names observations after the method unless `name` is set.
+ *
+ * @param options - Configuration for observation behavior and capture settings
+ * @returns The method decorator
+ *
+ * @example
+ * ```typescript
+ * import { observed } from '@langfuse/tracing';
+ *
+ * class WeatherService {
+ *   @observed({ asType: 'tool', includeClassName: true })
+ *   async getForecast(city: string) {
+ *     // Traced as observation 'WeatherService.getForecast'
+ *     return await this.api.fetchForecast(city);
+ *   }
+ * }
+ * ```
+ *
+ * @see {@link observe} for wrapping standalone functions
+ * @see {@link observedClass} for instrumenting all methods of a class
+ *
+ * @public
+ */
+export function observed(options: ObservedOptions = {}) {
+  return function <T extends Method>(
+    method: T,
+    context: ClassMethodDecoratorContext,
+  ): T {
+    return wrapMethod(method, String(context.name), context.static, options);
+  };
+}
+
+/**
+ * Class decorator that wraps all public methods of a class with {@link observe}.
+ *
+ * Instruments the methods defined on the class prototype, except the
+ * constructor, getters and setters, methods starting with `_`, methods listed
+ * in `exclude`, and methods already decorated with {@link observed}.
+ *
+ * @param options - Configuration applied to all instrumented methods
+ * @returns The class decorator
+ *
+ * @example
+ * ```typescript
+ * import { observedClass } from '@langfuse/tracing';
+ *
+ * @observedClass({ includeClassName: true, exclude: ['healthCheck'] })
+ * class RetrievalService {
+ *   async search(query: string) { ... } // Traced as 'RetrievalService.search'
+ *   async rerank(documents: Document[]) { ... } // Traced as 'RetrievalService.rerank'
+ *   healthCheck() { ... } // Not traced
+ * }
+ * ```
+ *
+ * @public
+ */
+export function observedClass(options: ObservedClassOptions = {}) {
+  const { exclude = [], ...observeOptions } = options;
+
+  return function <T extends abstract new (...args: any[]) => unknown>(
+    target: T,
+    _context: ClassDecoratorContext<T>,
+  ): void {
+    const prototype = target.prototype as Record<string, unknown>;
+
+    for (const key of Object.getOwnPropertyNames(prototype)) {
+      if (
+        key === "constructor" ||
+        key.startsWith("_") ||
+        exclude.includes(key)
+      ) {
+        continue;
+      }
+
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+      if (
+        !descriptor ||
+        typeof descriptor.value !== "function" ||
+        OBSERVED_METHOD in descriptor.value
+      ) {
+        continue;
+      }
+
+      Object.defineProperty(prototype, key, {
+        ...descriptor,
+        value: wrapMethod(descriptor.value, key, false, observeOptions),
+      });
+    }
+  };
+}
+
+function wrapMethod<T extends Method>(
+  method: T,
+  methodName: string,
+  isStatic: boolean,
+  options: ObservedOptions,
+): T {
+  const { includeClassName = false, ...observeOptions } = options;
+  const createObserved = (name: string) =>
+    observe(method, { ...observeOptions, name });
+
+  const fixedName =
+    observeOptions.name ?? (includeClassName ? undefined : methodName);
+  const observedMethod = fixedName ? createObserved(fixedName) : undefined;
+  // Class names are only known at call time, e.g. for subclasses
+  const observedByClassName = new Map<string, T>();
+
+  const wrapped = function (this: unknown, ...args: unknown[]) {
+    let observedFn = observedMethod;
+
+    if (!observedFn) {
+      const name = `${getClassName(this, isStatic)}.${methodName}`;
+
+      observedFn = observedByClassName.get(name);
+      if (!observedFn) {
+        observedFn = createObserved(name);
+        observedByClassName.set(name, observedFn);
+      }
+    }
+
+    return observedFn.apply(this, args);
+  };
+
+  Object.defineProperty(wrapped, "name", { value: method.name });
+  Object.defineProperty(wrapped, OBSERVED_METHOD, { value: true });
+
+  return wrapped as T;
+}
+
+function getClassName(self: unknown, isStatic: boolean): string {
+  if (isStatic) {
+    return typeof self === "function" ? self.name : "anonymous-class";
+  }
+
+  return (
+    (self as { constructor?: { name?: string } } | null)?.constructor?.name ||
+    "anonymous-class"
+  );
+}
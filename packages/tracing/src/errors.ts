@@ -0,0 +1,163 @@
+import { getGlobalLogger } from "@langfuse/core";
+
+const MAX_CAUSE_DEPTH = 5;
+
+const REQUEST_ID_HEADERS = ["x-request-id", "request-id", "x-amzn-requestid"];
+
+/**
+ * Structured description of an error recorded on an observation.
+ *
+ * @public
+ */
+export type LangfuseErrorDetails = {
+  /** Error class name, e.g. `RateLimitError`, or the type of thrown non-errors */
+  type: string;
+  /** Error message */
+  message: string;
+  /** Stack trace, if available */
+  stack?: string;
+  /** Error code, e.g. `rate_limit_exceeded` or `ECONNRESET` */
+  code?: string;
+  /** HTTP status code of failed API calls */
+  statusCode?: number;
+  /** Request ID of failed API calls, for provider support requests */
+  requestId?: string;
+  /** The error that caused this error */
+  cause?: LangfuseErrorDetails;
+};
+
+/**
+ * Options for recording errors on observations.
+ *
+ * @public
+ */
+export type RecordErrorOptions = {
+  /**
+   * Whether the error is expected, e.g. a handled rate limit or validation
+   * error. Expected errors are recorded with level `WARNING` and leave the
+   * span status unset. Default is false.
+   */
+  expected?: boolean;
+};
+
+/**
+ * Extracts the structured details of a thrown value, including the `cause`
+ * chain and provider-specific fields of API errors such as those of
+ * `LangfuseAPIError` and the OpenAI SDK.
+ *
+ * @internal
+ */
+export function getErrorDetails(
+  error: unknown,
+  seen: Set<unknown> = new Set(),
+): LangfuseErrorDetails {
+  if (!(error instanceof Error)) {
+    return {
+      type: error === null ? "null" : typeof error,
+      message: stringify(error),
+    };
+  }
+
+  seen.add(error);
+
+  const fields = error as Error & Record<string, unknown>;
+  const details: LangfuseErrorDetails = {
+    type: getErrorType(error),
+    message: error.message,
+  };
+
+  if (error.stack) details.stack = error.stack;
+
+  if (typeof fields.code === "string" || typeof fields.code === "number") {
+    details.code = String(fields.code);
+  }
+
+  const statusCode = [fields.statusCode, fields.status].find(
+    (value) => typeof value === "number",
+  );
+  if (statusCode !== undefined) details.statusCode = statusCode as number;
+
+  const requestId = getRequestId(fields);
+  if (requestId) details.requestId = requestId;
+
+  const cause = fields.cause;
+  if (cause !== undefined && !seen.has(cause) && seen.size < MAX_CAUSE_DEPTH) {
+    details.cause = getErrorDetails(cause, seen);
+  }
+
+  return details;
+}
+
+function getErrorType(error: Error): string {
+  const constructorName = error.constructor?.name;
+
+  return constructorName && constructorName !== "Error"
+    ? constructorName
+    : error.name || "Error";
+}
+
+function getRequestId(fields: Record<string, unknown>): string | undefined {
+  // OpenAI SDK: requestID; other SDKs: requestId or request_id
+  for (const key of ["requestID", "requestId", "request_id"]) {
+    if (typeof fields[key] === "string" && fields[key]) {
+      return fields[key] as string;
+    }
+  }
+
+  // LangfuseAPIError exposes the response headers via rawResponse
+  const rawResponse = fields.rawResponse as { headers?: unknown } | undefined;
+
+  return (
+    getHeader(fields.headers, REQUEST_ID_HEADERS) ??
+    getHeader(rawResponse?.headers, REQUEST_ID_HEADERS)
+  );
+}
+
+function getHeader(headers: unknown, names: string[]): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+
+  for (const name of names) {
+    const value =
+      typeof (headers as Headers).get === "function"
+        ? (headers as Headers).get(name)
+        : (headers as Record<string, unknown>)[name];
+
+    if (typeof value === "string" && value) return value;
+  }
+
+  return undefined;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") return value;
+
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Classifies an error as expected via the user-provided `isExpectedError`
+ * option, treating errors thrown by the classifier itself as unexpected.
+ *
+ * @internal
+ */
+export function classifyError(
+  error: unknown,
+  isExpectedError: ((error: unknown) => boolean) | undefined,
+): RecordErrorOptions {
+  if (!isExpectedError) return { expected: false };
+
+  try {
+    return { expected: isExpectedError(error) };
+  } catch (err) {
+    getGlobalLogger().warn(
+      "isExpectedError threw an error. Recording error as unexpected.",
+      err,
+    );
+
+    return { expected: false };
+  }
+}
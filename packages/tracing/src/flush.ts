@@ -0,0 +1,92 @@
+import { getGlobalLogger, safeSetTimeout } from "@langfuse/core";
+import { TracerProvider } from "@opentelemetry/api";
+
+import {
+  getLangfuseScoreSink,
+  getLangfuseTracerProvider,
+} from "./tracerProvider.js";
+
+/**
+ * Options for {@link flushLangfuse}.
+ *
+ * @public
+ */
+export type FlushLangfuseOptions = {
+  /**
+   * Maximum time in milliseconds to wait for the flush. Pending exports
+   * continue in the background afterwards, but are lost if the process is
+   * frozen. By default, there is no deadline.
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * Flushes pending spans, media uploads and scores to Langfuse.
+ *
+ * Flushes the registered Langfuse tracer provider, and thereby its
+ * LangfuseSpanProcessor with pending media uploads, as well as the registered
+ * score sink, e.g. the score manager of a `LangfuseClient`. Never rejects;
+ * failures and missed deadlines are logged.
+ *
+ * @param options - Optional flush deadline
+ *
+ * @example
+ * ```typescript
+ * import { flushLangfuse } from '@langfuse/tracing';
+ *
+ * export async function handler(event: unknown) {
+ *   const result = await answer(event);
+ *   await flushLangfuse({ timeoutMs: 2_000 });
+ *
+ *   return result;
+ * }
+ * ```
+ *
+ * @public
+ */
+export async function flushLangfuse(
+  options: FlushLangfuseOptions = {},
+): Promise<void> {
+  const logger = getGlobalLogger();
+  const flush = Promise.all([
+    forceFlushTracerProvider(),
+    getLangfuseScoreSink()?.flush?.(),
+  ]).then(
+    () => undefined,
+    (err) => {
+      logger.warn("Failed to flush Langfuse", err);
+    },
+  );
+
+  const { timeoutMs } = options;
+  if (timeoutMs === undefined) return flush;
+
+  let timer: ReturnType<typeof safeSetTimeout> | undefined;
+  const deadline = new Promise<void>((resolve) => {
+    timer = safeSetTimeout(() => {
+      logger.warn(
+        `Flushing Langfuse did not complete within ${timeoutMs} ms. Continuing without waiting.`,
+      );
+      resolve();
+    }, timeoutMs);
+  });
+
+  await Promise.race([flush, deadline]);
+  clearTimeout(timer);
+}
+
+async function forceFlushTracerProvider(): Promise<void> {
+  let provider = getLangfuseTracerProvider() as TracerProvider & {
+    forceFlush?: () => Promise<void>;
+    getDelegate?: () => TracerProvider;
+  };
+
+  // The global provider is a proxy to the registered provider
+  if (typeof provider.getDelegate === "function") {
+    provider = provider.getDelegate();
+  }
+
+  if (typeof provider.forceFlush === "function") {
+    await provider.forceFlush();
+  }
+}
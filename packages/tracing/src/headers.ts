@@ -0,0 +1,307 @@
+import {
+  LANGFUSE_TRACE_ID_BAGGAGE_KEY,
+  setLangfuseTraceIdInBaggage,
+} from "@langfuse/core";
+import {
+  BaggageEntry,
+  baggageEntryMetadataFromString,
+  context,
+  Context,
+  createTraceState,
+  isSpanContextValid,
+  propagation,
+  Span,
+  SpanContext,
+  trace,
+} from "@opentelemetry/api";
+
+const TRACEPARENT_HEADER = "traceparent";
+const TRACESTATE_HEADER = "tracestate";
+const BAGGAGE_HEADER = "baggage";
+
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+// Limits from the W3C Baggage specification
+const MAX_BAGGAGE_ENTRIES = 180;
+const MAX_BAGGAGE_LENGTH = 8192;
+
+/**
+ * Carrier for trace context headers: a plain header object, as in Node.js
+ * `IncomingMessage.headers` or message attributes, or a fetch `Headers` instance.
+ *
+ * @public
+ */
+export type LangfuseHeaderCarrier =
+  | Record<string, string | string[] | undefined>
+  | Headers;
+
+/**
+ * Extracts the remote parent span context from W3C `traceparent` and
+ * `tracestate` headers.
+ *
+ * Use it as `parentSpanContext` of an observation to continue the trace of an
+ * incoming request. Header names are matched case-insensitively.
+ *
+ * @param headers - The incoming headers
+ * @returns The remote span context, or undefined if `traceparent` is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * import { extractParentSpanContext, startObservation } from '@langfuse/tracing';
+ *
+ * app.post('/chat', (req, res) => {
+ *   const span = startObservation('handle-chat', { input: req.body }, {
+ *     parentSpanContext: extractParentSpanContext(req.headers),
+ *   });
+ *   // ...
+ * });
+ * ```
+ *
+ * @public
+ */
+export function extractParentSpanContext(
+  headers: LangfuseHeaderCarrier,
+): SpanContext | undefined {
+  const traceparent = getHeader(headers, TRACEPARENT_HEADER);
+  const match = traceparent && TRACEPARENT_PATTERN.exec(traceparent.trim());
+  if (!match) return undefined;
+
+  const [, version, traceId, spanId, traceFlags, rest] = match;
+
+  // Version 00 has no further fields; version ff is invalid
+  if (version === "ff" || (version === "00" && rest)) return undefined;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  const tracestate = getHeader(headers, TRACESTATE_HEADER);
+
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(traceFlags, 16),
+    isRemote: true,
+    traceState: tracestate ? createTraceState(tracestate) : undefined,
+  };
+}
+
+/**
+ * Extracts an OpenTelemetry context from W3C `traceparent`, `tracestate` and
+ * `baggage` headers, without requiring a global OpenTelemetry propagator.
+ *
+ * The returned context carries the remote parent span and the incoming
+ * baggage, including attributes propagated as baggage via
+ * `propagateAttributes` and the `langfuse_trace_id` entry that marks an
+ * upstream Langfuse scope. Observations started within it continue the
+ * incoming trace.
+ *
+ * @param headers - The incoming headers
+ * @param baseContext - The context to extend. Defaults to the active context
+ * @returns The context with the remote parent span and baggage
+ *
+ * @example
+ * ```typescript
+ * import { context } from '@opentelemetry/api';
+ * import { extractTraceContext, startActiveObservation } from '@langfuse/tracing';
+ *
+ * consumer.on('message', (message) => {
+ *   context.with(extractTraceContext(message.headers), () =>
+ *     startActiveObservation('process-message', async (span) => {
+ *       // Part of the producer's trace
+ *     }),
+ *   );
+ * });
+ * ```
+ *
+ * @public
+ */
+export function extractTraceContext(
+  headers: LangfuseHeaderCarrier,
+  baseContext: Context = context.active(),
+): Context {
+  let extracted = baseContext;
+
+  const parentSpanContext = extractParentSpanContext(headers);
+  if (parentSpanContext) {
+    extracted = trace.setSpanContext(extracted, parentSpanContext);
+  }
+
+  const entries = parseBaggage(getHeader(headers, BAGGAGE_HEADER));
+  if (Object.keys(entries).length > 0) {
+    const existing = propagation.getBaggage(extracted)?.getAllEntries() ?? [];
+
+    extracted = propagation.setBaggage(
+      extracted,
+      propagation.createBaggage({
+        ...Object.fromEntries(existing),
+        ...entries,
+      }),
+    );
+  }
+
+  return extracted;
+}
+
+/**
+ * Writes W3C `traceparent`, `tracestate` and `baggage` headers for an
+ * outbound call, so that the receiving service can continue the trace with
+ * {@link extractTraceContext}.
+ *
+ * Pass an observation to propagate it as the parent; the headers then also
+ * carry the `langfuse_trace_id` baggage entry marking it as a Langfuse scope.
+ * Otherwise the active context is used.
+ *
+ * @param headers - The carrier to write to. Defaults to a new object
+ * @param source - The observation or context to propagate. Defaults to the active context
+ * @returns The carrier with the trace context headers
+ *
+ * @example
+ * ```typescript
+ * import { injectTraceContext, startObservation } from '@langfuse/tracing';
+ *
+ * const span = startObservation('call-retriever');
+ * const response = await fetch(retrieverUrl, {
+ *   method: 'POST',
+ *   headers: injectTraceContext({ 'content-type': 'application/json' }, span),
+ *   body: JSON.stringify({ query }),
+ * });
+ * span.end();
+ * ```
+ *
+ * @public
+ */
+export function injectTraceContext<
+  T extends LangfuseHeaderCarrier = Record<string, string>,
+>(headers?: T, source?: Context | { otelSpan: Span }): T {
+  const carrier = headers ?? ({} as T);
+  const sourceContext = resolveSourceContext(source);
+
+  const spanContext = trace.getSpanContext(sourceContext);
+  if (spanContext && isSpanContextValid(spanContext)) {
+    const flags = (spanContext.traceFlags & 0xff).toString(16).padStart(2, "0");
+
+    setHeader(
+      carrier,
+      TRACEPARENT_HEADER,
+      `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`,
+    );
+
+    const tracestate = spanContext.traceState?.serialize();
+    if (tracestate) setHeader(carrier, TRACESTATE_HEADER, tracestate);
+  }
+
+  const baggage = serializeBaggage(
+    propagation.getBaggage(sourceContext)?.getAllEntries() ?? [],
+  );
+  if (baggage) setHeader(carrier, BAGGAGE_HEADER, baggage);
+
+  return carrier;
+}
+
+function resolveSourceContext(
+  source: Context | { otelSpan: Span } | undefined,
+): Context {
+  if (!source) return context.active();
+  if (!("otelSpan" in source)) return source;
+
+  const { traceId } = source.otelSpan.spanContext();
+
+  return setLangfuseTraceIdInBaggage(
+    trace.setSpan(context.active(), source.otelSpan),
+    traceId,
+  );
+}
+
+function getHeader(
+  headers: LangfuseHeaderCarrier,
+  name: string,
+): string | undefined {
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+  const value = key === undefined ? undefined : record[key];
+
+  // Repeated headers are combined as a comma-separated list
+  return Array.isArray(value) ? value.join(",") : value;
+}
+
+function setHeader(
+  headers: LangfuseHeaderCarrier,
+  name: string,
+  value: string,
+): void {
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    headers.set(name, value);
+
+    return;
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  for (const key of Object.keys(record)) {
+    if (key.toLowerCase() === name && key !== name) delete record[key];
+  }
+
+  record[name] = value;
+}
+
+function parseBaggage(
+  header: string | undefined,
+): Record<string, BaggageEntry> {
+  const entries: Record<string, BaggageEntry> = {};
+  if (!header) return entries;
+
+  for (const member of header.split(",").slice(0, MAX_BAGGAGE_ENTRIES)) {
+    const [keyValue, ...properties] = member.split(";");
+    const separator = keyValue.indexOf("=");
+    if (separator <= 0) continue;
+
+    const key = keyValue.slice(0, separator).trim();
+    const value = safeDecode(keyValue.slice(separator + 1).trim());
+    if (!key || value === undefined) continue;
+
+    entries[key] = properties.length
+      ? {
+          value,
+          metadata: baggageEntryMetadataFromString(properties.join(";")),
+        }
+      : { value };
+  }
+
+  // Trace-id claims are lowercased, see setLangfuseTraceIdInBaggage
+  const claim = entries[LANGFUSE_TRACE_ID_BAGGAGE_KEY];
+  if (claim) claim.value = claim.value.toLowerCase();
+
+  return entries;
+}
+
+function serializeBaggage(entries: [string, BaggageEntry][]): string {
+  const members: string[] = [];
+  let length = 0;
+
+  for (const [key, entry] of entries.slice(0, MAX_BAGGAGE_ENTRIES)) {
+    const metadata = entry.metadata?.toString();
+    const member = `${key}=${encodeURIComponent(entry.value)}${metadata ? `;${metadata}` : ""}`;
+    const memberLength = member.length + (members.length > 0 ? 1 : 0);
+
+    if (length + memberLength > MAX_BAGGAGE_LENGTH) continue;
+
+    members.push(member);
+    length += memberLength;
+  }
+
+  return members.join(",");
+}
+
+function safeDecode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
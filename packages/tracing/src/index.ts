@@ -1,15 +1,18 @@
 import {
   getGlobalLogger,
   LangfuseOtelSpanAttributes,
+  LangfuseTruncationLimits,
   setLangfuseTraceIdInBaggage,
 } from "@langfuse/core";
 import {
   trace,
   context,
+  Attributes,
   TimeInput,
   SpanStatusCode,
   Span,
   Context,
+  Link,
   SpanContext,
 } from "@opentelemetry/api";
 
@@ -17,6 +20,9 @@ import {
   createObservationAttributes,
   createTraceAttributes,
 } from "./attributes.js";
+import { getCarriedLinks } from "./carrier.js";
+import { classifyError } from "./errors.js";
+import { createOtelLinks } from "./links.js";
 import {
   LangfuseAgent,
   LangfuseEvent,
@@ -45,6 +51,7 @@ import {
   LangfuseSpanAttributes,
   LangfuseTraceAttributes,
   LangfuseObservationAttributes,
+  LangfuseLink,
 } from "./types.js";
 
 export type {
@@ -55,9 +62,34 @@ export type {
   LangfuseGenerationAttributes,
   LangfuseObservationAttributes,
   LangfuseTraceAttributes,
+  LangfuseObservationScore,
+  LangfuseScoreSink,
+  LangfuseLink,
+  LangfuseLogAttributes,
 } from "./types.js";
 
 export * from "./spanWrapper.js";
+export * from "./observe.js";
+export * from "./decorators.js";
+export * from "./headers.js";
+export * from "./middleware/index.js";
+export {
+  LANGFUSE_TRACE_CARRIER_KEY,
+  createTraceCarrier,
+  restoreTraceContext,
+  runWithTraceCarrier,
+  attachTraceCarrier,
+  extractTraceCarrier,
+  observeJob,
+  type LangfuseCarriedAttributes,
+  type LangfuseTraceCarrier,
+  type LangfuseTraceCarrierMode,
+  type RestoreTraceContextOptions,
+  type LangfuseJobLike,
+  type ObserveJobOptions,
+} from "./carrier.js";
+export type { LangfuseErrorDetails, RecordErrorOptions } from "./errors.js";
+export { flushLangfuse, type FlushLangfuseOptions } from "./flush.js";
 export {
   createTraceAttributes,
   createObservationAttributes,
@@ -66,11 +98,22 @@ export {
   setLangfuseTracerProvider,
   getLangfuseTracerProvider,
   getLangfuseTracer,
+  setLangfuseScoreSink,
+  getLangfuseScoreSink,
 } from "./tracerProvider.js";
 export {
   propagateAttributes,
   type PropagateAttributesParams,
   type PropagatedPromptInput,
+  configurePropagateAttributesValidation,
+  resetPropagateAttributesValidation,
+  PropagateAttributesValidationError,
+  type PropagateAttributesValidationConfig,
+  type PropagateAttributesValidationIssue,
+  type PropagateAttributesValidationMode,
+  type LangfuseTruncationLimits,
+  registerSerializerTypeHandler,
+  type SerializerTypeHandler,
 } from "@langfuse/core";
 
 export { LangfuseOtelSpanAttributes } from "@langfuse/core";
@@ -85,6 +128,13 @@ export type StartObservationOptions = {
   startTime?: Date;
   /** Parent span context to attach this observation to */
   parentSpanContext?: SpanContext;
+  /** Size budgets for this observation's payloads, overriding those of the LangfuseSpanProcessor */
+  truncation?: LangfuseTruncationLimits;
+  /**
+   * Links to related observations, e.g. in other traces. Use link attributes
+   * to describe the relation, e.g. `{ relation: 'retry-of' }`.
+   */
+  links?: (LangfuseLink | Link)[];
 };
 
 /**
@@ -97,6 +147,11 @@ export type StartObservationOptions = {
 export type StartActiveObservationContext = StartObservationOptions & {
   /** Whether to automatically end the observation when exiting the context. Default is true */
   endOnExit?: boolean;
+  /**
+   * Classifies thrown errors as expected, e.g. handled rate limits. Expected
+   * errors are recorded with level `WARNING` instead of `ERROR`.
+   */
+  isExpectedError?: (error: unknown) => boolean;
 };
 
 /**
@@ -130,14 +185,62 @@ function createOtelSpan(params: {
   name: string;
   startTime?: TimeInput;
   parentSpanContext?: SpanContext;
+  truncation?: LangfuseTruncationLimits;
+  links?: (LangfuseLink | Link)[];
 }): Span {
+  const parentContext = createParentContext(params.parentSpanContext);
+
   return getLangfuseTracer().startSpan(
     params.name,
-    { startTime: params.startTime },
-    createParentContext(params.parentSpanContext),
+    {
+      startTime: params.startTime,
+      attributes: createInternalAttributes(params),
+      links: createSpanLinks(parentContext ?? context.active(), params.links),
+    },
+    parentContext,
   );
 }
 
+/**
+ * Creates the span links of a new observation from the given links and the
+ * links carried by a trace carrier restored in link mode.
+ *
+ * @param parentContext - The context the observation is started in
+ * @param links - The links passed in the observation options
+ * @returns The span links, or undefined if there are none
+ * @internal
+ */
+function createSpanLinks(
+  parentContext: Context,
+  links: (LangfuseLink | Link)[] | undefined,
+): Link[] | undefined {
+  const spanLinks = [
+    ...(getCarriedLinks(parentContext) ?? []),
+    ...createOtelLinks(links),
+  ];
+
+  return spanLinks.length > 0 ? spanLinks : undefined;
+}
+
+/**
+ * Creates internal span attributes for the LangfuseSpanProcessor from observation options.
+ *
+ * @param options - The observation options
+ * @returns The internal attributes
+ * @internal
+ */
+function createInternalAttributes(options: {
+  truncation?: LangfuseTruncationLimits;
+}): Attributes | undefined {
+  if (!options.truncation) return;
+
+  return {
+    [LangfuseOtelSpanAttributes.TRUNCATION_LIMITS]: JSON.stringify(
+      options.truncation,
+    ),
+  };
+}
+
 /**
  * Creates a parent context from a span context.
  *
@@ -157,31 +260,32 @@ function createParentContext(
  * Wraps a promise to automatically end the span when the promise resolves or rejects.
  *
  * @param promise - The promise to wrap
- * @param span - The span to end when promise completes
+ * @param observation - The observation to end when promise completes
+ * @param options - Whether to end the observation and how to classify errors
  * @returns The wrapped promise
  * @internal
  */
 function wrapPromise<T>(
   promise: Promise<T>,
-  span: Span,
-  endOnExit: boolean | undefined,
+  observation: LangfuseObservation,
+  options: StartActiveObservationContext | undefined,
 ): Promise<T> {
   return promise.then(
     (value) => {
-      if (endOnExit !== false) {
-        span.end(); // End span AFTER Promise resolves
+      if (options?.endOnExit !== false) {
+        observation.end(); // End span AFTER Promise resolves
       }
 
       return value;
     },
     (err: unknown) => {
-      span.setStatus({
-        code: SpanStatusCode.ERROR,
-        message: err instanceof Error ? err.message : "Unknown error",
-      });
+      observation.recordError(
+        err,
+        classifyError(err, options?.isExpectedError),
+      );
 
-      if (endOnExit !== false) {
-        span.end(); // End span AFTER Promise rejects
+      if (options?.endOnExit !== false) {
+        observation.end(); // End span AFTER Promise rejects
       }
 
       throw err;
@@ -776,12 +880,18 @@ export function startActiveObservation<
   F extends (observation: LangfuseSpan | LangfuseGeneration) => unknown,
 >(name: string, fn: F, options?: StartActiveObservationOpts): ReturnType<F> {
   const { asType = "span", ...observationOptions } = options || {};
+  const parentContext =
+    createParentContext(observationOptions?.parentSpanContext) ??
+    context.active();
 
   return getLangfuseTracer().startActiveSpan(
     name,
-    { startTime: observationOptions?.startTime },
-    createParentContext(observationOptions?.parentSpanContext) ??
-      context.active(),
+    {
+      startTime: observationOptions?.startTime,
+      attributes: createInternalAttributes(observationOptions),
+      links: createSpanLinks(parentContext, observationOptions?.links),
+    },
+    parentContext,
     (span) => {
       // Establish the trace-bound app-root claim for descendants. The span's
       // own onStart has already run against the unmodified parent context, so
@@ -792,9 +902,9 @@ export function startActiveObservation<
       );
 
       return context.with(claimContext, () => {
-        try {
-          let observation: LangfuseObservation;
+        let observation: LangfuseObservation | undefined;
 
+        try {
           switch (asType) {
             case "generation":
               observation = new LangfuseGeneration({
@@ -864,8 +974,8 @@ export function startActiveObservation<
           if (result instanceof Promise) {
             return wrapPromise(
               result,
-              span,
-              observationOptions?.endOnExit,
+              observation,
+              observationOptions,
             ) as ReturnType<F>;
           } else {
             if (observationOptions?.endOnExit !== false) {
@@ -875,10 +985,17 @@ export function startActiveObservation<
             return result as ReturnType<F>;
           }
         } catch (err) {
-          span.setStatus({
-            code: SpanStatusCode.ERROR,
-            message: err instanceof Error ? err.message : "Unknown error",
-          });
+          if (observation) {
+            observation.recordError(
+              err,
+              classifyError(err, observationOptions?.isExpectedError),
+            );
+          } else {
+            span.setStatus({
+              code: SpanStatusCode.ERROR,
+              message: err instanceof Error ? err.message : "Unknown error",
+            });
+          }
 
           if (observationOptions?.endOnExit !== false) {
             span.end();
@@ -1166,416 +1283,6 @@ export function updateActiveObservation(
   span.setAttributes(otelAttributes);
 }
 
-/**
- * Options for the observe decorator function.
- *
- * @public
- */
-export interface ObserveOptions {
-  /** Name for the observation (defaults to function name) */
-  name?: string;
-  /** Type of observation to create */
-  asType?: LangfuseObservationType;
-  /** Whether to capture function input as observation input */
-  captureInput?: boolean;
-  /** Whether to capture function output as observation output */
-  captureOutput?: boolean;
-  /** Parent span context to attach this observation to */
-  parentSpanContext?: SpanContext;
-  /** Whether to automatically end the observation when exiting the context. Default is true */
-  endOnExit?: boolean;
-}
-
-/**
- * Decorator function that automatically wraps any function with Langfuse observability.
- *
- * This higher-order function creates a traced version of your function that automatically
- * handles observation lifecycle, input/output capture, and error tracking. It's perfect
- * for instrumenting existing functions without modifying their internal logic.
- *
- * ## Key Features
- * - **Zero Code Changes**: Wrap existing functions without modifying their implementation
- * - **Automatic I/O Capture**: Optionally captures function arguments and return values
- * - **Error Tracking**: Automatically captures exceptions and sets error status
- * - **Type Preservation**: Maintains original function signature and return types
- * - **Async Support**: Works seamlessly with both sync and async functions
- * - **Flexible Configuration**: Control observation type, naming, and capture behavior
- *
- * ## Use Cases
- * - Instrumenting business logic functions
- * - Wrapping API calls and external service interactions
- * - Adding observability to utility functions
- * - Creating traced versions of third-party functions
- * - Decorating class methods for observability
- *
- * @param fn - The function to wrap with observability (preserves original signature)
- * @param options - Configuration for observation behavior and capture settings
- * @returns An instrumented version of the function with identical behavior plus tracing
- *
- * @example
- * ```typescript
- * import { observe } from '@langfuse/tracing';
- *
- * // Basic function wrapping with automatic I/O capture
- * const processOrder = observe(
- *   async (orderId: string, items: CartItem[]) => {
- *     const validation = await validateOrder(orderId, items);
- *     const payment = await processPayment(validation);
- *     const shipping = await scheduleShipping(payment);
- *     return { orderId, status: 'confirmed', trackingId: shipping.id };
- *   },
- *   {
- *     name: 'process-order',
- *     asType: 'span',
- *     captureInput: true,
- *     captureOutput: true
- *   }
- * );
- *
- * // LLM function with generation tracking
- * const generateSummary = observe(
- *   async (document: string, maxWords: number = 100) => {
- *     const response = await openai.chat.completions.create({
- *       model: 'gpt-4-turbo',
- *       messages: [
- *         { role: 'system', content: `Summarize in ${maxWords} words or less` },
- *         { role: 'user', content: document }
- *       ],
- *       max_tokens: maxWords * 2
- *     });
- *     return response.choices[0].message.content;
- *   },
- *   {
- *     name: 'document-summarizer',
- *     asType: 'generation',
- *     captureInput: true,
- *     captureOutput: true
- *   }
- * );
- *
- * // Database query with automatic error tracking
- * const fetchUserProfile = observe(
- *   async (userId: string) => {
- *     const user = await db.users.findUnique({ where: { id: userId } });
- *     if (!user) throw new Error(`User ${userId} not found`);
- *
- *     const preferences = await db.preferences.findMany({
- *       where: { userId }
- *     });
- *
- *     return { ...user, preferences };
- *   },
- *   {
- *     name: 'fetch-user-profile',
- *     asType: 'span',
- *     captureInput: false, // Don't capture sensitive user IDs
- *     captureOutput: true
- *   }
- * );
- *
- * // Vector search with retriever semantics
- * const searchDocuments = observe(
- *   async (query: string, topK: number = 5) => {
- *     const embedding = await embedText(query);
- *     const results = await vectorDb.search(embedding, topK);
- *     return results.map(r => ({
- *       content: r.metadata.content,
- *       score: r.score,
- *       source: r.metadata.source
- *     }));
- *   },
- *   {
- *     name: 'document-search',
- *     asType: 'retriever',
- *     captureInput: true,
- *     captureOutput: true
- *   }
- * );
- *
- * // Quality evaluation function
- * const evaluateResponse = observe(
- *   (response: string, reference: string, metric: string = 'similarity') => {
- *     let score: number;
- *
- *     switch (metric) {
- *       case 'similarity':
- *         score = calculateCosineSimilarity(response, reference);
- *         break;
- *       case 'bleu':
- *         score = calculateBleuScore(response, reference);
- *         break;
- *       default:
- *         throw new Error(`Unknown metric: ${metric}`);
- *     }
- *
- *     return {
- *       score,
- *       passed: score > 0.8,
- *       metric,
- *       grade: score > 0.9 ? 'excellent' : score > 0.7 ? 'good' : 'needs_improvement'
- *     };
- *   },
- *   {
- *     name: 'response-evaluator',
- *     asType: 'evaluator',
- *     captureInput: true,
- *     captureOutput: true
- *   }
- * );
- *
- * // Content moderation with guardrails
- * const moderateContent = observe(
- *   async (text: string, policies: string[] = ['profanity', 'spam']) => {
- *     const violations = [];
- *
- *     for (const policy of policies) {
- *       const result = await checkPolicy(text, policy);
- *       if (result.violation) {
- *         violations.push({ policy, severity: result.severity });
- *       }
- *     }
- *
- *     return {
- *       allowed: violations.length === 0,
- *       violations,
- *       confidence: 0.95
- *     };
- *   },
- *   {
- *     name: 'content-moderator',
- *     asType: 'guardrail',
- *     captureInput: true,
- *     captureOutput: true
- *   }
- * );
- *
- * // AI agent function with tool usage
- * const researchAgent = observe(
- *   async (query: string, maxSources: number = 3) => {
- *     // Search for relevant documents
- *     const documents = await searchDocuments(query, maxSources * 2);
- *
- *     // Filter and rank results
- *     const topDocs = documents
- *       .filter(d => d.score > 0.7)
- *       .slice(0, maxSources);
- *
- *     // Generate comprehensive answer
- *     const context = topDocs.map(d => d.content).join('\n\n');
- *     const answer = await generateSummary(
- *       `Based on: ${context}\n\nQuestion: ${query}`,
- *       200
- *     );
- *
- *     return {
- *       answer,
- *       sources: topDocs.map(d => d.source),
- *       confidence: Math.min(...topDocs.map(d => d.score))
- *     };
- *   },
- *   {
- *     name: 'research-agent',
- *     asType: 'agent',
- *     captureInput: true,
- *     captureOutput: true
- *   }
- * );
- *
- * // Class method decoration
- * class UserService {
- *   private db: Database;
- *
- *   // Wrap methods during class construction
- *   constructor(database: Database) {
- *     this.db = database;
- *     this.createUser = observe(this.createUser.bind(this), {
- *       name: 'create-user',
- *       asType: 'span',
- *       captureInput: false, // Sensitive data
- *       captureOutput: true
- *     });
- *   }
- *
- *   async createUser(userData: UserData) {
- *     // Implementation automatically traced
- *     return await this.db.users.create(userData);
- *   }
- * }
- *
- * // Chain composition - functions remain composable
- * const processDocument = observe(
- *   async (document: string) => {
- *     const summary = await generateSummary(document, 150);
- *     const moderation = await moderateContent(summary);
- *     const evaluation = evaluateResponse(summary, document, 'similarity');
- *
- *     return {
- *       summary: moderation.allowed ? summary : '[Content Filtered]',
- *       safe: moderation.allowed,
- *       quality: evaluation.score
- *     };
- *   },
- *   {
- *     name: 'document-processor',
- *     asType: 'chain',
- *     captureInput: true,
- *     captureOutput: true
- *   }
- * );
- *
- * // Usage - functions work exactly as before, just with observability
- * const order = await processOrder('ord_123', cartItems);
- * const profile = await fetchUserProfile('user_456');
- * const research = await researchAgent('What is quantum computing?');
- * const processed = await processDocument(documentText);
- * ```
- *
- * @see {@link startObservation} for manual observation creation
- * @see {@link startActiveObservation} for function-scoped observations
- *
- * @public
- */
-export function observe<T extends (...args: any[]) => any>(
-  fn: T,
-  options: ObserveOptions = {},
-): T {
-  const {
-    name = fn.name || "anonymous-function",
-    asType = "span",
-    captureInput = true,
-    captureOutput = true,
-    parentSpanContext = undefined,
-  } = options;
-
-  const wrappedFunction = function (
-    this: any,
-    ...args: Parameters<T>
-  ): ReturnType<T> {
-    // Prepare input data
-    const inputData = captureInput ? _captureArguments(args) : undefined;
-
-    // Create the appropriate observation type
-    const observation = startObservation(
-      name,
-      inputData ? { input: inputData } : {},
-      {
-        asType: asType as "span", // typecast necessary as ts cannot narrow down type
-        parentSpanContext,
-      },
-    );
-
-    // Set the observation span as active in the context, and carry the
-    // app-root claim for descendants. The observation was already started by
-    // startObservation above, so its onStart ran against the unmodified
-    // parent context and cannot self-suppress.
-    const activeContext = setLangfuseTraceIdInBaggage(
-      trace.setSpan(context.active(), observation.otelSpan),
-      observation.otelSpan.spanContext().traceId,
-    );
-
-    try {
-      const result = context.with(activeContext, () => fn.apply(this, args));
-
-      // Handle async functions - check if result is a Promise
-      if (result instanceof Promise) {
-        return result.then(
-          (value) => {
-            if (captureOutput) {
-              observation.update({ output: _captureOutput(value) });
-            }
-
-            if (options?.endOnExit !== false) {
-              observation.end();
-            }
-
-            return value;
-          },
-          (error: unknown) => {
-            observation.update({
-              level: "ERROR",
-              statusMessage:
-                (error instanceof Error ? error.message : String(error)) ||
-                "Function threw an error",
-              output: captureOutput ? { error: String(error) } : undefined,
-            });
-
-            if (options?.endOnExit !== false) {
-              observation.end();
-            }
-
-            throw error;
-          },
-        ) as ReturnType<T>;
-      } else {
-        // Handle sync functions
-        if (captureOutput) {
-          observation.update({ output: _captureOutput(result) });
-        }
-
-        if (options?.endOnExit !== false) {
-          observation.end();
-        }
-
-        return result as ReturnType<T>;
-      }
-    } catch (error: unknown) {
-      observation.update({
-        level: "ERROR",
-        statusMessage:
-          (error instanceof Error ? error.message : String(error)) ||
-          "Function threw an error",
-        output: captureOutput ? { error: String(error) } : undefined,
-      });
-
-      if (options?.endOnExit !== false) {
-        observation.end();
-      }
-      throw error;
-    }
-  };
-
-  return wrappedFunction as T;
-}
-
-/**
- * Helper function to safely capture function arguments.
- *
- * @param args - Function arguments array
- * @returns Captured arguments or error message
- * @internal
- */
-function _captureArguments(args: unknown[]): unknown {
-  try {
-    if (args.length === 0) return undefined;
-    if (args.length === 1) return args[0];
-    return args;
-  } catch {
-    return "<failed to capture arguments>";
-  }
-}
-
-/**
- * Helper function to safely capture function output.
- *
- * @param value - Function return value
- * @returns Captured output or error message
- * @internal
- */
-function _captureOutput(value: unknown): unknown {
-  try {
-    // Handle undefined/null
-    if (value === undefined || value === null) return value;
-
-    // For primitive types, return as-is
-    if (typeof value !== "object") return value;
-
-    // For objects, return them directly (serialization happens in span processor)
-    return value;
-  } catch {
-    return "<failed to capture output>";
-  }
-}
-
 /**
  * Creates a trace ID for OpenTelemetry spans.
  *
@@ -0,0 +1,48 @@
+import { getGlobalLogger } from "@langfuse/core";
+import {
+  isSpanContextValid,
+  Link,
+  SpanContext,
+  TraceFlags,
+} from "@opentelemetry/api";
+
+import type { LangfuseLink } from "./types.js";
+
+/**
+ * Converts a Langfuse link or an OpenTelemetry link into an OpenTelemetry
+ * link. Returns undefined with a warning if the trace or span ID is invalid.
+ *
+ * @internal
+ */
+export function createOtelLink(link: LangfuseLink | Link): Link | undefined {
+  const spanContext: SpanContext =
+    "context" in link
+      ? link.context
+      : {
+          traceId: link.traceId,
+          spanId: link.spanId,
+          traceFlags: TraceFlags.SAMPLED,
+          isRemote: true,
+        };
+
+  if (!isSpanContextValid(spanContext)) {
+    getGlobalLogger().warn(
+      `Invalid span link to trace '${spanContext.traceId}' and span '${spanContext.spanId}'. Dropping link.`,
+    );
+
+    return undefined;
+  }
+
+  return { context: spanContext, attributes: link.attributes };
+}
+
+/**
+ * Converts the given links, dropping invalid ones.
+ *
+ * @internal
+ */
+export function createOtelLinks(
+  links: (LangfuseLink | Link)[] | undefined,
+): Link[] {
+  return (links ?? []).flatMap((link) => createOtelLink(link) ?? []);
+}
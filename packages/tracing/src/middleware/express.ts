@@ -0,0 +1,164 @@
+import { getGlobalLogger } from "@langfuse/core";
+import { context } from "@opentelemetry/api";
+
+import {
+  flushRequestObservations,
+  getPathname,
+  LangfuseHttpMiddlewareOptions,
+  parseTextBody,
+  startRequestObservation,
+} from "./shared.js";
+
+/**
+ * The parts of an Express (or Node.js `http`) request used by
+ * {@link createExpressMiddleware}.
+ *
+ * @public
+ */
+export interface ExpressRequestLike {
+  method?: string;
+  url?: string;
+  originalUrl?: string;
+  baseUrl?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  route?: { path?: unknown };
+}
+
+/**
+ * The parts of an Express (or Node.js `http`) response used by
+ * {@link createExpressMiddleware}.
+ *
+ * @public
+ */
+export interface ExpressResponseLike {
+  statusCode: number;
+  once(event: "finish" | "close", listener: () => void): unknown;
+  getHeader?(name: string): unknown;
+  end: (...args: any[]) => any;
+  send?: (...args: any[]) => any;
+  json?: (...args: any[]) => any;
+}
+
+/**
+ * Creates an Express middleware that traces each request as a root
+ * observation.
+ *
+ * Register it before the routes. The request handlers run with the request
+ * observation active, so observations created while handling the request are
+ * nested below it. The trace is named after the matched route pattern, e.g.
+ * `GET /users/:id`, and incoming W3C trace context headers are continued.
+ * The middleware also works with plain Node.js `http` servers.
+ *
+ * @param options - Configuration of the request observations
+ * @returns The Express middleware
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createExpressMiddleware } from '@langfuse/tracing';
+ *
+ * const app = express();
+ * app.use(express.json());
+ * app.use(createExpressMiddleware({
+ *   captureRequestBody: true,
+ *   captureResponseBody: true,
+ *   resolveUserId: (req) => req.header('x-user-id'),
+ * }));
+ *
+ * app.post('/chats/:id', async (req, res) => {
+ *   // Traced as 'POST /chats/:id'
+ *   res.json(await answer(req.body));
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createExpressMiddleware<
+  TRequest extends ExpressRequestLike = ExpressRequestLike,
+>(options: LangfuseHttpMiddlewareOptions<TRequest> = {}) {
+  return function langfuseMiddleware(
+    req: TRequest,
+    res: ExpressResponseLike,
+    next: (err?: unknown) => void,
+  ): void {
+    if (options.ignore?.(req)) return next();
+
+    const url = req.originalUrl ?? req.url ?? "/";
+    const captured = options.captureResponseBody
+      ? captureResponseBody(res)
+      : undefined;
+
+    startRequestObservation(
+      req,
+      { method: req.method ?? "GET", url, headers: req.headers },
+      options,
+      options.captureRequestBody ? req.body : undefined,
+    ).then(
+      ({ context: requestContext, end }) => {
+        const onDone = () => {
+          const route =
+            typeof req.route?.path === "string"
+              ? `${req.baseUrl ?? ""}${req.route.path}`
+              : getPathname(url);
+
+          end({
+            statusCode: res.statusCode,
+            route,
+            output: captured?.(),
+          })
+            .then(() => flushRequestObservations(options))
+            .catch((err) => {
+              getGlobalLogger().error("Failed to end HTTP request trace", err);
+            });
+        };
+
+        res.once("finish", onDone);
+        res.once("close", onDone);
+
+        context.with(requestContext, next);
+      },
+      (err) => {
+        getGlobalLogger().error("Failed to trace HTTP request", err);
+
+        next();
+      },
+    );
+  };
+}
+
+function captureResponseBody(res: ExpressResponseLike): () => unknown {
+  let body: unknown;
+  let isCaptured = false;
+
+  const capture = (value: unknown) => {
+    if (isCaptured || value === undefined) return;
+    isCaptured = true;
+
+    const contentType = res.getHeader?.("content-type");
+    const text =
+      value instanceof Uint8Array ? new TextDecoder().decode(value) : value;
+
+    body =
+      typeof text === "string"
+        ? parseTextBody(
+            text,
+            typeof contentType === "string" ? contentType : undefined,
+          )
+        : text;
+  };
+
+  // res.json calls res.send with the serialized body, which calls res.end
+  for (const method of ["json", "send", "end"] as const) {
+    const original = res[method];
+    if (typeof original !== "function") continue;
+
+    res[method] = function (this: unknown, ...args: any[]) {
+      if (typeof args[0] !== "function") capture(args[0]);
+
+      return original.apply(this, args);
+    };
+  }
+
+  return () => body;
+}
@@ -0,0 +1,186 @@
+import { getGlobalLogger } from "@langfuse/core";
+import { context } from "@opentelemetry/api";
+
+import {
+  flushRequestObservations,
+  getPathname,
+  LangfuseHttpMiddlewareOptions,
+  parseTextBody,
+  RequestObservation,
+  startRequestObservation,
+} from "./shared.js";
+
+/**
+ * The parts of a Fastify request used by {@link createFastifyPlugin}.
+ *
+ * @public
+ */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  routeOptions?: { url?: string };
+}
+
+/**
+ * The parts of a Fastify reply used by {@link createFastifyPlugin}.
+ *
+ * @public
+ */
+export interface FastifyReplyLike {
+  statusCode: number;
+  getHeader?(name: string): unknown;
+}
+
+/**
+ * The parts of a Fastify instance used by {@link createFastifyPlugin}.
+ *
+ * @public
+ */
+export interface FastifyInstanceLike {
+  addHook(name: string, hook: (...args: any[]) => unknown): unknown;
+}
+
+type TracedRequest = RequestObservation & {
+  output?: unknown;
+  error?: unknown;
+};
+
+/**
+ * Creates a Fastify plugin that traces each request as a root observation.
+ *
+ * The plugin applies to all routes of the instance it is registered on. Route
+ * handlers run with the request observation active, so observations created
+ * while handling the request are nested below it. The trace is named after
+ * the route pattern, e.g. `GET /users/:id`, and incoming W3C trace context
+ * headers are continued.
+ *
+ * @param options - Configuration of the request observations
+ * @returns The Fastify plugin
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import { createFastifyPlugin } from '@langfuse/tracing';
+ *
+ * const fastify = Fastify();
+ * await fastify.register(createFastifyPlugin({ captureResponseBody: true }));
+ *
+ * fastify.get('/users/:id', async (request) => {
+ *   // Traced as 'GET /users/:id'
+ *   return await loadUser(request.params.id);
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createFastifyPlugin<
+  TRequest extends FastifyRequestLike = FastifyRequestLike,
+>(options: LangfuseHttpMiddlewareOptions<TRequest> = {}) {
+  const tracedRequests = new WeakMap<TRequest, TracedRequest>();
+
+  const plugin = (
+    fastify: FastifyInstanceLike,
+    _opts: unknown,
+    done: (err?: Error) => void,
+  ): void => {
+    fastify.addHook("onRequest", async (request: TRequest) => {
+      if (options.ignore?.(request)) return;
+
+      try {
+        tracedRequests.set(
+          request,
+          await startRequestObservation(
+            request,
+            {
+              method: request.method,
+              url: request.url,
+              headers: request.headers,
+            },
+            options,
+          ),
+        );
+      } catch (err) {
+        getGlobalLogger().error("Failed to trace HTTP request", err);
+      }
+    });
+
+    // Route handlers are invoked from the callback of the last preHandler
+    // hook, so they inherit the context it is called in.
+    fastify.addHook(
+      "preHandler",
+      (request: TRequest, _reply: unknown, next: () => void) => {
+        const traced = tracedRequests.get(request);
+        if (!traced) return next();
+
+        if (options.captureRequestBody && request.body !== undefined) {
+          traced.observation.update({ input: request.body });
+        }
+
+        context.with(traced.context, next);
+      },
+    );
+
+    fastify.addHook(
+      "onSend",
+      async (request: TRequest, reply: FastifyReplyLike, payload: unknown) => {
+        const traced = tracedRequests.get(request);
+
+        if (traced && options.captureResponseBody) {
+          const contentType = reply.getHeader?.("content-type");
+
+          traced.output =
+            typeof payload === "string"
+              ? parseTextBody(
+                  payload,
+                  typeof contentType === "string" ? contentType : undefined,
+                )
+              : undefined;
+        }
+
+        return payload;
+      },
+    );
+
+    fastify.addHook(
+      "onError",
+      async (request: TRequest, _reply: unknown, error: unknown) => {
+        const traced = tracedRequests.get(request);
+        if (traced) traced.error = error;
+      },
+    );
+
+    fastify.addHook(
+      "onResponse",
+      async (request: TRequest, reply: FastifyReplyLike) => {
+        const traced = tracedRequests.get(request);
+        if (!traced) return;
+
+        tracedRequests.delete(request);
+
+        try {
+          await traced.end({
+            statusCode: reply.statusCode,
+            route: request.routeOptions?.url ?? getPathname(request.url),
+            output: traced.output,
+            error: traced.error,
+          });
+        } catch (err) {
+          getGlobalLogger().error("Failed to end HTTP request trace", err);
+        }
+
+        await flushRequestObservations(options);
+      },
+    );
+
+    done();
+  };
+
+  // Like fastify-plugin: apply the hooks to the parent instance instead of an
+  // encapsulated child context
+  return Object.assign(plugin, {
+    [Symbol.for("skip-override")]: true,
+    [Symbol.for("fastify.display-name")]: "@langfuse/tracing",
+  });
+}
@@ -0,0 +1,150 @@
+import { getGlobalLogger } from "@langfuse/core";
+import { context } from "@opentelemetry/api";
+
+import {
+  flushRequestObservations,
+  getPathname,
+  hasStreamedBody,
+  LangfuseHttpMiddlewareOptions,
+  readFetchBody,
+  RequestObservation,
+  startRequestObservation,
+} from "./shared.js";
+
+/**
+ * The parts of a Hono context used by {@link createHonoMiddleware}.
+ *
+ * @public
+ */
+export interface HonoContextLike {
+  req: {
+    raw: Request;
+    matchedRoutes?: { path: string; method: string }[];
+  };
+  res: Response;
+  error?: unknown;
+  readonly executionCtx?: {
+    waitUntil(promise: Promise<unknown>): void;
+  };
+}
+
+/**
+ * Creates a Hono middleware that traces each request as a root observation.
+ *
+ * Handlers run with the request observation active, so observations created
+ * while handling the request are nested below it. The trace is named after
+ * the matched route pattern, e.g. `GET /users/:id`, and incoming W3C trace
+ * context headers are continued. On runtimes with an execution context such
+ * as Cloudflare Workers, flushes are handed to its `waitUntil`.
+ *
+ * @param options - Configuration of the request observations. Resolvers receive the Hono context
+ * @returns The Hono middleware
+ *
+ * @example
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { createHonoMiddleware } from '@langfuse/tracing';
+ *
+ * const app = new Hono();
+ * app.use(createHonoMiddleware({
+ *   captureRequestBody: true,
+ *   resolveSessionId: (c) => c.req.header('x-session-id'),
+ *   flush: true,
+ * }));
+ *
+ * app.post('/chats/:id', async (c) => c.json(await answer(await c.req.json())));
+ * ```
+ *
+ * @public
+ */
+export function createHonoMiddleware<
+  TContext extends HonoContextLike = HonoContextLike,
+>(options: LangfuseHttpMiddlewareOptions<TContext> = {}) {
+  return async function langfuseMiddleware(
+    c: TContext,
+    next: () => Promise<void>,
+  ): Promise<void> {
+    if (options.ignore?.(c)) return next();
+
+    const request = c.req.raw;
+    let traced: RequestObservation | undefined;
+
+    try {
+      traced = await startRequestObservation(
+        c,
+        { method: request.method, url: request.url, headers: request.headers },
+        options,
+        options.captureRequestBody ? await readFetchBody(request) : undefined,
+      );
+    } catch (err) {
+      getGlobalLogger().error("Failed to trace HTTP request", err);
+    }
+
+    if (!traced) return next();
+
+    const { end } = traced;
+    const waitUntil = options.waitUntil ?? getWaitUntil(c);
+
+    try {
+      await context.with(traced.context, next);
+    } finally {
+      const response = c.res;
+      const route = getRoutePath(c) ?? getPathname(request.url);
+      const error = c.error;
+
+      const finish = async (
+        flushWaitUntil: typeof waitUntil,
+      ): Promise<void> => {
+        try {
+          await end({
+            statusCode: response.status,
+            route,
+            output: options.captureResponseBody
+              ? await readFetchBody(response)
+              : undefined,
+            error,
+          });
+        } catch (err) {
+          getGlobalLogger().error("Failed to end HTTP request trace", err);
+        }
+
+        await flushRequestObservations({
+          ...options,
+          waitUntil: flushWaitUntil,
+        });
+      };
+
+      if (options.captureResponseBody && hasStreamedBody(response)) {
+        // Ends the observation once the body is streamed, without delaying it
+        const done = finish(undefined);
+        if (options.flush) waitUntil?.(done);
+      } else {
+        await finish(waitUntil);
+      }
+    }
+  };
+}
+
+function getRoutePath(c: HonoContextLike): string | undefined {
+  // Middleware registered with app.use matches all methods
+  const handlerRoute = c.req.matchedRoutes
+    ?.filter((route) => route.method !== "ALL")
+    .pop();
+
+  return handlerRoute?.path;
+}
+
+function getWaitUntil(
+  c: HonoContextLike,
+): ((promise: Promise<unknown>) => void) | undefined {
+  try {
+    // Throws on runtimes without an execution context
+    const executionCtx = c.executionCtx;
+
+    return executionCtx
+      ? (promise) => executionCtx.waitUntil(promise)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,6 @@
+export type { LangfuseHttpMiddlewareOptions } from "./shared.js";
+export * from "./express.js";
+export * from "./fastify.js";
+export * from "./hono.js";
+export * from "./nextjs.js";
+export * from "./serverless.js";
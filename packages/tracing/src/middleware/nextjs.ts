@@ -0,0 +1,174 @@
+import { getGlobalLogger } from "@langfuse/core";
+import { context } from "@opentelemetry/api";
+
+import {
+  flushRequestObservations,
+  getPathname,
+  hasStreamedBody,
+  HttpResponseInfo,
+  LangfuseHttpMiddlewareOptions,
+  readFetchBody,
+  RequestObservation,
+  startRequestObservation,
+} from "./shared.js";
+
+/**
+ * Options for {@link observeRouteHandler}.
+ *
+ * @public
+ */
+export type ObserveRouteHandlerOptions<TRequest extends Request = Request> =
+  LangfuseHttpMiddlewareOptions<TRequest> & {
+    /**
+     * Route pattern of the handler, e.g. `/api/chats/[id]`. Defaults to the
+     * request path with dynamic segments replaced by their parameter names.
+     */
+    route?: string;
+  };
+
+type RouteParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Wraps a Next.js App Router route handler to trace each request as a root
+ * observation.
+ *
+ * The handler runs with the request observation active, so observations
+ * created while handling the request are nested below it. Incoming W3C trace
+ * context headers are continued. Enable `flush` on serverless deployments and
+ * pass `after` from `next/server` as `waitUntil` to flush without delaying
+ * the response.
+ *
+ * @param handler - The route handler to wrap
+ * @param options - Configuration of the request observations
+ * @returns The wrapped route handler
+ *
+ * @example
+ * ```typescript
+ * // app/api/chats/[id]/route.ts
+ * import { after } from 'next/server';
+ * import { observeRouteHandler } from '@langfuse/tracing';
+ *
+ * export const POST = observeRouteHandler(
+ *   async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+ *     // Traced as 'POST /api/chats/[id]'
+ *     return Response.json(await answer((await params).id, await request.json()));
+ *   },
+ *   { captureRequestBody: true, flush: true, waitUntil: after },
+ * );
+ * ```
+ *
+ * @public
+ */
+export function observeRouteHandler<
+  TRequest extends Request,
+  TContext extends { params?: unknown },
+>(
+  handler: (request: TRequest, ctx: TContext) => Response | Promise<Response>,
+  options: ObserveRouteHandlerOptions<TRequest> = {},
+): (request: TRequest, ctx: TContext) => Promise<Response> {
+  return async function observedRouteHandler(request, ctx) {
+    if (options.ignore?.(request)) return handler(request, ctx);
+
+    let traced: RequestObservation | undefined;
+
+    try {
+      traced = await startRequestObservation(
+        request,
+        { method: request.method, url: request.url, headers: request.headers },
+        options,
+        options.captureRequestBody ? await readFetchBody(request) : undefined,
+      );
+    } catch (err) {
+      getGlobalLogger().error("Failed to trace HTTP request", err);
+    }
+
+    if (!traced) return handler(request, ctx);
+
+    const { end } = traced;
+    const resolveRoute = async (): Promise<string> => {
+      const pathname = getPathname(request.url);
+      if (options.route) return options.route;
+
+      try {
+        return getRoutePattern(pathname, await ctx?.params);
+      } catch {
+        // Keeps the error of the handler if the params reject
+        return pathname;
+      }
+    };
+    const endTrace = (response: HttpResponseInfo) =>
+      end(response).catch((err) => {
+        getGlobalLogger().error("Failed to end HTTP request trace", err);
+      });
+
+    let response: Response;
+
+    try {
+      response = await context.with(traced.context, () =>
+        handler(request, ctx),
+      );
+    } catch (error) {
+      await endTrace({ statusCode: 500, route: await resolveRoute(), error });
+      await flushRequestObservations(options);
+
+      throw error;
+    }
+
+    const finish = async (
+      waitUntil: ObserveRouteHandlerOptions<TRequest>["waitUntil"],
+    ): Promise<void> => {
+      await endTrace({
+        statusCode: response.status,
+        route: await resolveRoute(),
+        output: options.captureResponseBody
+          ? await readFetchBody(response)
+          : undefined,
+      });
+      await flushRequestObservations({ ...options, waitUntil });
+    };
+
+    if (options.captureResponseBody && hasStreamedBody(response)) {
+      // Ends the observation once the body is streamed, without delaying it
+      const done = finish(undefined);
+      if (options.flush) options.waitUntil?.(done);
+
+      return response;
+    }
+
+    await finish(options.waitUntil);
+
+    return response;
+  };
+}
+
+/**
+ * Reconstructs the route pattern of a dynamic route from the request path
+ * and the route parameters, e.g. `/chats/42` with `{ id: '42' }` becomes
+ * `/chats/[id]`.
+ */
+function getRoutePattern(pathname: string, params: unknown): string {
+  if (!params || typeof params !== "object") return pathname;
+
+  let pattern = pathname;
+
+  for (const [name, value] of Object.entries(params as RouteParams)) {
+    if (value === undefined) continue;
+
+    const [segment, replacement] = Array.isArray(value)
+      ? [value.map(encodeURIComponent).join("/"), `[...${name}]`]
+      : [encodeURIComponent(value), `[${name}]`];
+
+    if (!segment) continue;
+
+    pattern = pattern.replace(
+      new RegExp(`/${escapeRegExp(segment)}(?=/|$)`),
+      `/${replacement}`,
+    );
+  }
+
+  return pattern;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,273 @@
+import { context } from "@opentelemetry/api";
+
+import { flushLangfuse } from "../flush.js";
+import { extractTraceContext, LangfuseHeaderCarrier } from "../headers.js";
+import { startActiveObservation } from "../index.js";
+
+import { observeRouteHandler, ObserveRouteHandlerOptions } from "./nextjs.js";
+import { LangfuseHttpMiddlewareOptions } from "./shared.js";
+
+const DEFAULT_FLUSH_TIMEOUT_MS = 2_000;
+// Time left to the Lambda runtime to return the result after flushing
+const LAMBDA_TIMEOUT_MARGIN_MS = 250;
+
+let isColdStart = true;
+
+/**
+ * The parts of an AWS Lambda context used by {@link withLangfuseLambda}.
+ *
+ * @public
+ */
+export interface LambdaContextLike {
+  functionName: string;
+  awsRequestId: string;
+  getRemainingTimeInMillis?: () => number;
+}
+
+/**
+ * Options for {@link withLangfuseLambda}.
+ *
+ * @public
+ */
+export type WithLangfuseLambdaOptions<TEvent> = {
+  /** Name of the invocation observation. Defaults to the function name */
+  name?: string | ((event: TEvent, context: LambdaContextLike) => string);
+  /** Whether to record the event as observation input. Default is false */
+  captureInput?: boolean;
+  /** Whether to record the result as observation output. Default is false */
+  captureOutput?: boolean;
+  /**
+   * Whether to continue traces from `traceparent` and `baggage` headers of
+   * HTTP events, e.g. from API Gateway. Default is true.
+   */
+  continueTrace?: boolean;
+  /**
+   * Maximum time in milliseconds to wait for the flush before returning. It is
+   * further limited by the remaining execution time. Default is 2000.
+   */
+  flushTimeoutMs?: number;
+  /** Classifies thrown errors as expected, recorded with level `WARNING` */
+  isExpectedError?: (error: unknown) => boolean;
+};
+
+/**
+ * Options for {@link withLangfuseRouteHandler}.
+ *
+ * @public
+ */
+export type WithLangfuseRouteHandlerOptions<
+  TRequest extends Request = Request,
+> = Omit<ObserveRouteHandlerOptions<TRequest>, "flush">;
+
+/**
+ * The parts of a Cloudflare Workers execution context used by
+ * {@link withLangfuseFetchHandler}.
+ *
+ * @public
+ */
+export interface WorkersExecutionContextLike {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+/**
+ * Wraps an async AWS Lambda handler to trace each invocation as a root
+ * observation and flush spans, media uploads and scores before returning.
+ *
+ * Lambda freezes the execution environment once the handler returns, so the
+ * flush is awaited, bounded by `flushTimeoutMs` and the remaining execution
+ * time. The observation records the request ID and whether the invocation was
+ * a cold start.
+ *
+ * @param handler - The async Lambda handler to wrap
+ * @param options - Configuration of the invocation observation
+ * @returns The wrapped handler
+ *
+ * @example
+ * ```typescript
+ * import { withLangfuseLambda } from '@langfuse/tracing';
+ *
+ * export const handler = withLangfuseLambda(
+ *   async (event: { question: string }) => answer(event.question),
+ *   { captureInput: true, captureOutput: true },
+ * );
+ * ```
+ *
+ * @public
+ */
+export function withLangfuseLambda<
+  TEvent,
+  TResult,
+  TContext extends LambdaContextLike = LambdaContextLike,
+>(
+  handler: (event: TEvent, context: TContext) => Promise<TResult>,
+  options: WithLangfuseLambdaOptions<TEvent> = {},
+): (event: TEvent, context: TContext) => Promise<TResult> {
+  return async function observedLambdaHandler(event, lambdaContext) {
+    const coldStart = isColdStart;
+    isColdStart = false;
+
+    const headers = getEventHeaders(event);
+    const parentContext =
+      options.continueTrace !== false && headers
+        ? extractTraceContext(headers)
+        : context.active();
+    const name =
+      typeof options.name === "function"
+        ? options.name(event, lambdaContext)
+        : (options.name ?? lambdaContext.functionName);
+
+    try {
+      return await context.with(parentContext, () =>
+        startActiveObservation(
+          name,
+          async (observation) => {
+            observation.update({
+              input: options.captureInput ? event : undefined,
+              metadata: {
+                awsRequestId: lambdaContext.awsRequestId,
+                coldStart,
+              },
+            });
+
+            const result = await handler(event, lambdaContext);
+
+            if (options.captureOutput) observation.update({ output: result });
+
+            return result;
+          },
+          { isExpectedError: options.isExpectedError },
+        ),
+      );
+    } finally {
+      await flushLangfuse({
+        timeoutMs: getLambdaFlushTimeout(
+          options.flushTimeoutMs ?? DEFAULT_FLUSH_TIMEOUT_MS,
+          lambdaContext,
+        ),
+      });
+    }
+  };
+}
+
+/**
+ * Wraps a Next.js App Router route handler on Vercel to trace each request as
+ * a root observation and flush spans, media uploads and scores after the
+ * response.
+ *
+ * The flush is handed to Vercel's `waitUntil` if available, so that it does
+ * not delay the response. Otherwise, it is awaited with a deadline of
+ * `flushTimeoutMs`, by default 2000 ms. Pass `after` from `next/server` as
+ * `waitUntil` on other platforms.
+ *
+ * @param handler - The route handler to wrap
+ * @param options - Configuration of the request observations
+ * @returns The wrapped route handler
+ *
+ * @example
+ * ```typescript
+ * // app/api/chat/route.ts
+ * import { withLangfuseRouteHandler } from '@langfuse/tracing';
+ *
+ * export const POST = withLangfuseRouteHandler(async (request: Request) =>
+ *   Response.json(await answer(await request.json())),
+ * );
+ * ```
+ *
+ * @public
+ */
+export function withLangfuseRouteHandler<
+  TRequest extends Request,
+  TContext extends { params?: unknown },
+>(
+  handler: (request: TRequest, ctx: TContext) => Response | Promise<Response>,
+  options: WithLangfuseRouteHandlerOptions<TRequest> = {},
+): (request: TRequest, ctx: TContext) => Promise<Response> {
+  return function observedRouteHandler(request, ctx) {
+    // The request context and its waitUntil are scoped to the invocation
+    return observeRouteHandler(handler, {
+      flushTimeoutMs: DEFAULT_FLUSH_TIMEOUT_MS,
+      ...options,
+      flush: true,
+      waitUntil: options.waitUntil ?? getVercelWaitUntil(),
+    })(request, ctx);
+  };
+}
+
+/**
+ * Wraps the `fetch` handler of a Cloudflare Worker to trace each request as a
+ * root observation and flush spans, media uploads and scores via
+ * `ctx.waitUntil` after the response.
+ *
+ * @param handler - The fetch handler to wrap
+ * @param options - Configuration of the request observations
+ * @returns The wrapped fetch handler
+ *
+ * @example
+ * ```typescript
+ * import { withLangfuseFetchHandler } from '@langfuse/tracing';
+ *
+ * export default {
+ *   fetch: withLangfuseFetchHandler(async (request, env: Env) =>
+ *     Response.json(await answer(await request.json(), env)),
+ *   ),
+ * };
+ * ```
+ *
+ * @public
+ */
+export function withLangfuseFetchHandler<
+  TEnv,
+  TContext extends WorkersExecutionContextLike = WorkersExecutionContextLike,
+>(
+  handler: (
+    request: Request,
+    env: TEnv,
+    ctx: TContext,
+  ) => Response | Promise<Response>,
+  options: Omit<LangfuseHttpMiddlewareOptions<Request>, "flush"> = {},
+): (request: Request, env: TEnv, ctx: TContext) => Promise<Response> {
+  return function observedFetchHandler(request, env, ctx) {
+    return observeRouteHandler((req: Request) => handler(req, env, ctx), {
+      flushTimeoutMs: DEFAULT_FLUSH_TIMEOUT_MS,
+      ...options,
+      flush: true,
+      waitUntil: options.waitUntil ?? ((promise) => ctx.waitUntil(promise)),
+    })(request, {});
+  };
+}
+
+function getEventHeaders(event: unknown): LangfuseHeaderCarrier | undefined {
+  const headers = (event as { headers?: unknown } | null)?.headers;
+
+  return headers && typeof headers === "object"
+    ? (headers as LangfuseHeaderCarrier)
+    : undefined;
+}
+
+function getLambdaFlushTimeout(
+  flushTimeoutMs: number,
+  lambdaContext: LambdaContextLike,
+): number {
+  const remainingMs = lambdaContext.getRemainingTimeInMillis?.();
+  if (remainingMs === undefined) return flushTimeoutMs;
+
+  return Math.max(
+    0,
+    Math.min(flushTimeoutMs, remainingMs - LAMBDA_TIMEOUT_MARGIN_MS),
+  );
+}
+
+function getVercelWaitUntil():
+  | ((promise: Promise<unknown>) => void)
+  | undefined {
+  // Request context set by the Vercel runtime, as read by @vercel/functions
+  const requestContext = (
+    globalThis as {
+      [key: symbol]:
+        | { get?: () => { waitUntil?: (promise: Promise<unknown>) => void } }
+        | undefined;
+    }
+  )[Symbol.for("@vercel/request-context")]?.get?.();
+
+  return requestContext?.waitUntil;
+}
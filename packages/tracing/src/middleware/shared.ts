@@ -0,0 +1,365 @@
+import {
+  getGlobalLogger,
+  LangfuseOtelSpanAttributes,
+  propagateAttributes,
+} from "@langfuse/core";
+import { context, Context, trace } from "@opentelemetry/api";
+
+import { flushLangfuse } from "../flush.js";
+import { extractTraceContext, LangfuseHeaderCarrier } from "../headers.js";
+import { startObservation } from "../index.js";
+import { LangfuseSpan } from "../spanWrapper.js";
+import type { ObservationLevel } from "../types.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Options shared by the Langfuse HTTP middleware adapters.
+ *
+ * Each request is traced as a root observation named `METHOD /route/pattern`.
+ * Request and response bodies are recorded as the observation's input and
+ * output and pass through the masking and truncation of the
+ * LangfuseSpanProcessor like any other payload.
+ *
+ * @typeParam TRequest - The request object of the framework passed to resolvers
+ *
+ * @public
+ */
+export interface LangfuseHttpMiddlewareOptions<TRequest> {
+  /**
+   * Name of the request observation and its trace. Defaults to the HTTP
+   * method followed by the route pattern, e.g. `POST /chats/:id`, falling back
+   * to the request path if the route is unknown.
+   */
+  name?: string | ((request: TRequest, route: string) => string);
+
+  /**
+   * Resolves the user ID propagated to all observations of the request.
+   * Called when the request starts and, if it returned nothing, again when the
+   * response is sent, so that IDs set by later authentication middleware are
+   * still recorded on the trace.
+   */
+  resolveUserId?: (request: TRequest) => MaybePromise<string | undefined>;
+
+  /**
+   * Resolves the session ID propagated to all observations of the request.
+   * Resolved like `resolveUserId`.
+   */
+  resolveSessionId?: (request: TRequest) => MaybePromise<string | undefined>;
+
+  /** Resolves string metadata propagated to all observations of the request */
+  resolveMetadata?: (
+    request: TRequest,
+  ) => MaybePromise<Record<string, string> | undefined>;
+
+  /** Tags propagated to all observations of the request */
+  tags?: string[];
+
+  /** Whether to record the request body as observation input. Default is false */
+  captureRequestBody?: boolean;
+
+  /** Whether to record the response body as observation output. Default is false */
+  captureResponseBody?: boolean;
+
+  /**
+   * Whether to continue traces from incoming `traceparent` and `baggage`
+   * headers. Default is true.
+   */
+  continueTrace?: boolean;
+
+  /** Returns true for requests that should not be traced, e.g. health checks */
+  ignore?: (request: TRequest) => boolean;
+
+  /**
+   * Maps the response status code to the observation level. Defaults to
+   * `ERROR` for 5xx and `WARNING` for 4xx responses.
+   */
+  levelForStatus?: (statusCode: number) => ObservationLevel | undefined;
+
+  /**
+   * Whether to flush spans, media uploads and scores after each request.
+   * Enable this in serverless functions that may be frozen once the response
+   * is sent. Default is false.
+   */
+  flush?: boolean;
+
+  /**
+   * Maximum time in milliseconds to wait for the flush, so that slow exports
+   * do not delay responses. By default, there is no deadline.
+   */
+  flushTimeoutMs?: number;
+
+  /**
+   * Hands the flush promise to the platform instead of delaying the response,
+   * e.g. `waitUntil` of Vercel Functions or `after` of Next.js. Only used if
+   * `flush` is enabled.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+/**
+ * Framework-independent view of an incoming request.
+ *
+ * @internal
+ */
+export type HttpRequestInfo = {
+  method: string;
+  url: string;
+  headers: LangfuseHeaderCarrier;
+};
+
+/**
+ * Outcome of a traced request.
+ *
+ * @internal
+ */
+export type HttpResponseInfo = {
+  statusCode: number;
+  route?: string;
+  output?: unknown;
+  error?: unknown;
+};
+
+/**
+ * Root observation of a traced request.
+ *
+ * @internal
+ */
+export type RequestObservation = {
+  observation: LangfuseSpan;
+  /** Context with the request observation active and its attributes propagated */
+  context: Context;
+  /** Records the response and ends the observation. Only the first call has an effect */
+  end: (response: HttpResponseInfo) => Promise<void>;
+};
+
+/**
+ * Starts the root observation of an incoming request.
+ *
+ * @internal
+ */
+export async function startRequestObservation<TRequest>(
+  request: TRequest,
+  info: HttpRequestInfo,
+  options: LangfuseHttpMiddlewareOptions<TRequest>,
+  input?: unknown,
+): Promise<RequestObservation> {
+  const method = info.method.toUpperCase();
+  const path = getPathname(info.url);
+
+  const parentContext =
+    options.continueTrace === false
+      ? context.active()
+      : extractTraceContext(info.headers);
+
+  const observation = context.with(parentContext, () =>
+    startObservation(`${method} ${path}`, {
+      input,
+      // Query strings may carry tokens or signatures
+      metadata: { method, path },
+    }),
+  );
+
+  const [userId, sessionId, metadata] = await Promise.all([
+    resolve(options.resolveUserId, request, "user ID"),
+    resolve(options.resolveSessionId, request, "session ID"),
+    resolve(options.resolveMetadata, request, "metadata"),
+  ]);
+
+  const activeContext = context.with(
+    trace.setSpan(parentContext, observation.otelSpan),
+    () =>
+      propagateAttributes(
+        { userId, sessionId, metadata, tags: options.tags },
+        () => context.active(),
+      ),
+  );
+
+  let ended = false;
+
+  const end = async (response: HttpResponseInfo): Promise<void> => {
+    if (ended) return;
+    ended = true;
+
+    const { statusCode, route = path, output, error } = response;
+    const name = resolveName(options.name, request, method, route);
+
+    const [lateUserId, lateSessionId] = await Promise.all([
+      userId ? undefined : resolve(options.resolveUserId, request, "user ID"),
+      sessionId
+        ? undefined
+        : resolve(options.resolveSessionId, request, "session ID"),
+    ]);
+
+    const { otelSpan } = observation;
+    otelSpan.updateName(name);
+    otelSpan.setAttribute(LangfuseOtelSpanAttributes.TRACE_NAME, name);
+    if (lateUserId) {
+      otelSpan.setAttribute(
+        LangfuseOtelSpanAttributes.TRACE_USER_ID,
+        lateUserId,
+      );
+    }
+    if (lateSessionId) {
+      otelSpan.setAttribute(
+        LangfuseOtelSpanAttributes.TRACE_SESSION_ID,
+        lateSessionId,
+      );
+    }
+
+    if (error !== undefined) {
+      observation.recordError(error);
+    } else {
+      observation.update({
+        level: (options.levelForStatus ?? defaultLevelForStatus)(statusCode),
+        statusMessage: statusCode >= 400 ? `HTTP ${statusCode}` : undefined,
+      });
+    }
+
+    observation.update({ output, metadata: { route, statusCode } }).end();
+  };
+
+  return { observation, context: activeContext, end };
+}
+
+/**
+ * Flushes spans, media uploads and scores if enabled in the options.
+ *
+ * Resolves immediately if the flush is handed to `waitUntil`. Never rejects.
+ *
+ * @internal
+ */
+export async function flushRequestObservations(
+  options: LangfuseHttpMiddlewareOptions<any>,
+): Promise<void> {
+  if (!options.flush) return;
+
+  const flush = flushLangfuse({ timeoutMs: options.flushTimeoutMs });
+
+  if (options.waitUntil) {
+    options.waitUntil(flush);
+
+    return;
+  }
+
+  await flush;
+}
+
+/**
+ * Reads the body of a fetch Request or Response without consuming it.
+ *
+ * Parses JSON bodies and returns text bodies as is. Event streams and binary
+ * bodies are not read. Other bodies are read from a copy, so the promise only
+ * resolves once a streamed body is complete.
+ *
+ * @internal
+ */
+export async function readFetchBody(
+  message: Request | Response,
+): Promise<unknown> {
+  const contentType = message.headers.get("content-type") ?? "";
+  if (!message.body || !isTextContentType(contentType)) return undefined;
+
+  try {
+    return parseTextBody(await message.clone().text(), contentType);
+  } catch (err) {
+    getGlobalLogger().warn("Failed to read HTTP body", err);
+
+    return undefined;
+  }
+}
+
+/**
+ * Whether a fetch Response body may still be streaming, i.e. its length is
+ * unknown. Such bodies, e.g. AI SDK text streams, must not be awaited before
+ * the response is returned.
+ *
+ * @internal
+ */
+export function hasStreamedBody(response: Response): boolean {
+  return response.body !== null && !response.headers.has("content-length");
+}
+
+/**
+ * Parses a serialized JSON body, returning other text as is.
+ *
+ * @internal
+ */
+export function parseTextBody(
+  text: string,
+  contentType: string | undefined,
+): unknown {
+  if (!contentType?.includes("json")) return text;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Returns the path of a request URL without query string.
+ *
+ * @internal
+ */
+export function getPathname(url: string): string {
+  try {
+    return new URL(url, "http://localhost").pathname;
+  } catch {
+    return url.split("?")[0];
+  }
+}
+
+function isTextContentType(contentType: string): boolean {
+  if (contentType.includes("text/event-stream")) return false;
+
+  return (
+    contentType.startsWith("text/") ||
+    contentType.includes("json") ||
+    contentType.includes("xml") ||
+    contentType.includes("application/x-www-form-urlencoded")
+  );
+}
+
+function defaultLevelForStatus(
+  statusCode: number,
+): ObservationLevel | undefined {
+  if (statusCode >= 500) return "ERROR";
+  if (statusCode >= 400) return "WARNING";
+
+  return undefined;
+}
+
+function resolveName<TRequest>(
+  name: LangfuseHttpMiddlewareOptions<TRequest>["name"],
+  request: TRequest,
+  method: string,
+  route: string,
+): string {
+  if (typeof name === "string") return name;
+
+  try {
+    return name?.(request, route) ?? `${method} ${route}`;
+  } catch (err) {
+    getGlobalLogger().warn("Failed to resolve name of HTTP request", err);
+
+    return `${method} ${route}`;
+  }
+}
+
+async function resolve<TRequest, T>(
+  resolver: ((request: TRequest) => MaybePromise<T | undefined>) | undefined,
+  request: TRequest,
+  label: string,
+): Promise<T | undefined> {
+  if (!resolver) return undefined;
+
+  try {
+    return await resolver(request);
+  } catch (err) {
+    getGlobalLogger().warn(`Failed to resolve ${label} of HTTP request`, err);
+
+    return undefined;
+  }
+}
@@ -0,0 +1,693 @@
+import {
+  getGlobalLogger,
+  LangfuseTruncationLimits,
+  setLangfuseTraceIdInBaggage,
+} from "@langfuse/core";
+import { context, Link, SpanContext, trace } from "@opentelemetry/api";
+
+import {
+  getArgumentParameter,
+  getParameterNames,
+  ParameterName,
+} from "./arguments.js";
+import { classifyError } from "./errors.js";
+import { isStream, observeStream } from "./streaming.js";
+import {
+  LangfuseGenerationAttributes,
+  LangfuseLink,
+  LangfuseObservationAttributes,
+  LangfuseObservationType,
+} from "./types.js";
+
+import { startObservation } from "./index.js";
+
+const DEFAULT_STREAM_TIMEOUT_MS = 5 * 60 * 1_000;
+
+/**
+ * Options for the observe decorator function.
+ *
+ * @public
+ */
+export interface ObserveOptions {
+  /** Name for the observation (defaults to function name) */
+  name?: string;
+  /** Type of observation to create */
+  asType?: LangfuseObservationType;
+  /** Whether to capture function input as observation input */
+  captureInput?: boolean;
+  /** Whether to capture function output as observation output */
+  captureOutput?: boolean;
+  /** Parent span context to attach this observation to */
+  parentSpanContext?: SpanContext;
+  /** Whether to automatically end the observation when exiting the context. Default is true */
+  endOnExit?: boolean;
+  /** Size budgets for this observation's payloads, overriding those of the LangfuseSpanProcessor */
+  truncation?: LangfuseTruncationLimits;
+  /** Links to related observations, e.g. in other traces */
+  links?: (LangfuseLink | Link)[];
+  /**
+   * Classifies thrown errors as expected, e.g. handled rate limits. Expected
+   * errors are recorded with level `WARNING` instead of `ERROR`.
+   */
+  isExpectedError?: (error: unknown) => boolean;
+  /**
+   * Turns the chunks of a streamed return value (generator, async iterator or
+   * ReadableStream) into the observation output. By default, string chunks are
+   * concatenated and other chunks are recorded as an array.
+   */
+  reduceStreamOutput?: (chunks: unknown[]) => unknown;
+  /**
+   * Whether to also observe the consumption of returned async iterables that
+   * are not iterators themselves, such as SDK stream objects. Calling any
+   * other method of such a stream, e.g. `pipe()` or `tee()`, ends the
+   * observation. Default is false, which ends the observation once the
+   * function returns.
+   */
+  observeAsyncIterables?: boolean;
+  /**
+   * Time in milliseconds a returned stream may go without producing a chunk
+   * before the observation is ended with the output seen so far, e.g. if the
+   * stream is never read. Default is 300000.
+   */
+  streamTimeoutMs?: number;
+  /**
+   * Whether to record the input as an object keyed by parameter name instead of
+   * an array of positional arguments. Pass `true` to read the names from the
+   * function source, or the names themselves if the source is minified.
+   */
+  argumentNames?: boolean | string[];
+  /**
+   * Arguments to leave out of the input, by parameter name or position, e.g.
+   * database clients or AbortSignals.
+   */
+  excludeArguments?: (string | number)[];
+  /**
+   * Turns the function arguments into the observation input. Takes precedence
+   * over `argumentNames` and `excludeArguments`.
+   */
+  transformInput?: (args: unknown[]) => unknown;
+  /**
+   * Turns the function result into the observation output. For streams, this
+   * receives the output of `reduceStreamOutput`.
+   */
+  transformOutput?: (result: unknown) => unknown;
+  /**
+   * Derives further observation attributes from the function result, such as
+   * `metadata`, or `model` and `usageDetails` for generations. For streams,
+   * this receives the output of `reduceStreamOutput`.
+   */
+  attributesFromResult?: (result: any) => LangfuseObservationAttributes;
+}
+
+/**
+ * Decorator function that automatically wraps any function with Langfuse observability.
+ *
+ * This higher-order function creates a traced version of your function that automatically
+ * handles observation lifecycle, input/output capture, and error tracking. It's perfect
+ * for instrumenting existing functions without modifying their internal logic.
+ *
+ * ## Key Features
+ * - **Zero Code Changes**: Wrap existing functions without modifying their implementation
+ * - **Automatic I/O Capture**: Optionally captures function arguments and return values
+ * - **Error Tracking**: Automatically captures exceptions and sets error status
+ * - **Type Preservation**: Maintains original function signature and return types
+ * - **Async Support**: Works seamlessly with both sync and async functions
+ * - **Streaming Support**: Keeps the observation open while returned generators,
+ *   async iterators and ReadableStreams are consumed
+ * - **Flexible Configuration**: Control observation type, naming, and capture behavior
+ *
+ * ## Use Cases
+ * - Instrumenting business logic functions
+ * - Wrapping API calls and external service interactions
+ * - Adding observability to utility functions
+ * - Creating traced versions of third-party functions
+ * - Decorating class methods for observability
+ *
+ * @param fn - The function to wrap with observability (preserves original signature)
+ * @param options - Configuration for observation behavior and capture settings
+ * @returns An instrumented version of the function with identical behavior plus tracing
+ *
+ * @example
+ * ```typescript
+ * import { observe } from '@langfuse/tracing';
+ *
+ * // Basic function wrapping with automatic I/O capture
+ * const processOrder = observe(
+ *   async (orderId: string, items: CartItem[]) => {
+ *     const validation = await validateOrder(orderId, items);
+ *     const payment = await processPayment(validation);
+ *     const shipping = await scheduleShipping(payment);
+ *     return { orderId, status: 'confirmed', trackingId: shipping.id };
+ *   },
+ *   {
+ *     name: 'process-order',
+ *     asType: 'span',
+ *     captureInput: true,
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // LLM function with generation tracking
+ * const generateSummary = observe(
+ *   async (document: string, maxWords: number = 100) => {
+ *     const response = await openai.chat.completions.create({
+ *       model: 'gpt-4-turbo',
+ *       messages: [
+ *         { role: 'system', content: `Summarize in ${maxWords} words or less` },
+ *         { role: 'user', content: document }
+ *       ],
+ *       max_tokens: maxWords * 2
+ *     });
+ *     return response.choices[0].message.content;
+ *   },
+ *   {
+ *     name: 'document-summarizer',
+ *     asType: 'generation',
+ *     captureInput: true,
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // Database query with automatic error tracking
+ * const fetchUserProfile = observe(
+ *   async (userId: string) => {
+ *     const user = await db.users.findUnique({ where: { id: userId } });
+ *     if (!user) throw new Error(`User ${userId} not found`);
+ *
+ *     const preferences = await db.preferences.findMany({
+ *       where: { userId }
+ *     });
+ *
+ *     return { ...user, preferences };
+ *   },
+ *   {
+ *     name: 'fetch-user-profile',
+ *     asType: 'span',
+ *     captureInput: false, // Don't capture sensitive user IDs
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // Vector search with retriever semantics
+ * const searchDocuments = observe(
+ *   async (query: string, topK: number = 5) => {
+ *     const embedding = await embedText(query);
+ *     const results = await vectorDb.search(embedding, topK);
+ *     return results.map(r => ({
+ *       content: r.metadata.content,
+ *       score: r.score,
+ *       source: r.metadata.source
+ *     }));
+ *   },
+ *   {
+ *     name: 'document-search',
+ *     asType: 'retriever',
+ *     captureInput: true,
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // Quality evaluation function
+ * const evaluateResponse = observe(
+ *   (response: string, reference: string, metric: string = 'similarity') => {
+ *     let score: number;
+ *
+ *     switch (metric) {
+ *       case 'similarity':
+ *         score = calculateCosineSimilarity(response, reference);
+ *         break;
+ *       case 'bleu':
+ *         score = calculateBleuScore(response, reference);
+ *         break;
+ *       default:
+ *         throw new Error(`Unknown metric: ${metric}`);
+ *     }
+ *
+ *     return {
+ *       score,
+ *       passed: score > 0.8,
+ *       metric,
+ *       grade: score > 0.9 ? 'excellent' : score > 0.7 ? 'good' : 'needs_improvement'
+ *     };
+ *   },
+ *   {
+ *     name: 'response-evaluator',
+ *     asType: 'evaluator',
+ *     captureInput: true,
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // Content moderation with guardrails
+ * const moderateContent = observe(
+ *   async (text: string, policies: string[] = ['profanity', 'spam']) => {
+ *     const violations = [];
+ *
+ *     for (const policy of policies) {
+ *       const result = await checkPolicy(text, policy);
+ *       if (result.violation) {
+ *         violations.push({ policy, severity: result.severity });
+ *       }
+ *     }
+ *
+ *     return {
+ *       allowed: violations.length === 0,
+ *       violations,
+ *       confidence: 0.95
+ *     };
+ *   },
+ *   {
+ *     name: 'content-moderator',
+ *     asType: 'guardrail',
+ *     captureInput: true,
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // AI agent function with tool usage
+ * const researchAgent = observe(
+ *   async (query: string, maxSources: number = 3) => {
+ *     // Search for relevant documents
+ *     const documents = await searchDocuments(query, maxSources * 2);
+ *
+ *     // Filter and rank results
+ *     const topDocs = documents
+ *       .filter(d => d.score > 0.7)
+ *       .slice(0, maxSources);
+ *
+ *     // Generate comprehensive answer
+ *     const context = topDocs.map(d => d.content).join('\n\n');
+ *     const answer = await generateSummary(
+ *       `Based on: ${context}\n\nQuestion: ${query}`,
+ *       200
+ *     );
+ *
+ *     return {
+ *       answer,
+ *       sources: topDocs.map(d => d.source),
+ *       confidence: Math.min(...topDocs.map(d => d.score))
+ *     };
+ *   },
+ *   {
+ *     name: 'research-agent',
+ *     asType: 'agent',
+ *     captureInput: true,
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // Class method decoration
+ * class UserService {
+ *   private db: Database;
+ *
+ *   // Wrap methods during class construction
+ *   constructor(database: Database) {
+ *     this.db = database;
+ *     this.createUser = observe(this.createUser.bind(this), {
+ *       name: 'create-user',
+ *       asType: 'span',
+ *       captureInput: false, // Sensitive data
+ *       captureOutput: true
+ *     });
+ *   }
+ *
+ *   async createUser(userData: UserData) {
+ *     // Implementation automatically traced
+ *     return await this.db.users.create(userData);
+ *   }
+ * }
+ *
+ * // Argument naming, exclusion and attributes derived from the result
+ * const summarize = observe(
+ *   async (db: Database, documentId: string, signal?: AbortSignal) => {
+ *     const document = await db.documents.get(documentId);
+ *     return await llm.complete(`Summarize: ${document.text}`, { signal });
+ *   },
+ *   {
+ *     asType: 'generation',
+ *     argumentNames: true, // input: { documentId: '...' }
+ *     excludeArguments: ['db', 'signal'],
+ *     transformOutput: (completion) => completion.text,
+ *     attributesFromResult: (completion) => ({
+ *       model: completion.model,
+ *       usageDetails: { input: completion.inputTokens, output: completion.outputTokens }
+ *     })
+ *   }
+ * );
+ *
+ * // Streaming - the observation ends once the stream is fully consumed
+ * const streamAnswer = observe(
+ *   async function* (question: string) {
+ *     for await (const chunk of await llm.stream(question)) {
+ *       yield chunk.text;
+ *     }
+ *   },
+ *   {
+ *     name: 'stream-answer',
+ *     asType: 'generation',
+ *     reduceStreamOutput: (chunks) => (chunks as string[]).join('')
+ *   }
+ * );
+ *
+ * // Chain composition - functions remain composable
+ * const processDocument = observe(
+ *   async (document: string) => {
+ *     const summary = await generateSummary(document, 150);
+ *     const moderation = await moderateContent(summary);
+ *     const evaluation = evaluateResponse(summary, document, 'similarity');
+ *
+ *     return {
+ *       summary: moderation.allowed ? summary : '[Content Filtered]',
+ *       safe: moderation.allowed,
+ *       quality: evaluation.score
+ *     };
+ *   },
+ *   {
+ *     name: 'document-processor',
+ *     asType: 'chain',
+ *     captureInput: true,
+ *     captureOutput: true
+ *   }
+ * );
+ *
+ * // Usage - functions work exactly as before, just with observability
+ * const order = await processOrder('ord_123', cartItems);
+ * const profile = await fetchUserProfile('user_456');
+ * const research = await researchAgent('What is quantum computing?');
+ * const processed = await processDocument(documentText);
+ * ```
+ *
+ * @see {@link startObservation} for manual observation creation
+ * @see {@link startActiveObservation} for function-scoped observations
+ *
+ * @public
+ */
+export function observe<T extends (...args: any[]) => any>(
+  fn: T,
+  options: ObserveOptions = {},
+): T {
+  const {
+    name = fn.name || "anonymous-function",
+    asType = "span",
+    captureInput = true,
+    captureOutput = true,
+    parentSpanContext = undefined,
+    truncation,
+    links,
+    isExpectedError,
+    reduceStreamOutput = _reduceStreamChunks,
+    observeAsyncIterables = false,
+    streamTimeoutMs = DEFAULT_STREAM_TIMEOUT_MS,
+    transformInput,
+    transformOutput,
+    attributesFromResult,
+  } = options;
+
+  const parameters = _resolveParameterNames(fn, options);
+
+  const wrappedFunction = function (
+    this: any,
+    ...args: Parameters<T>
+  ): ReturnType<T> {
+    // Prepare input data
+    const inputData = captureInput
+      ? transformInput
+        ? _transformValue(args, transformInput, "arguments")
+        : _captureArguments(args, parameters, options)
+      : undefined;
+
+    // Create the appropriate observation type
+    const observation = startObservation(
+      name,
+      inputData ? { input: inputData } : {},
+      {
+        asType: asType as "span", // typecast necessary as ts cannot narrow down type
+        parentSpanContext,
+        truncation,
+        links,
+      },
+    );
+
+    // Set the observation span as active in the context, and carry the
+    // app-root claim for descendants. The observation was already started by
+    // startObservation above, so its onStart ran against the unmodified
+    // parent context and cannot self-suppress.
+    const activeContext = setLangfuseTraceIdInBaggage(
+      trace.setSpan(context.active(), observation.otelSpan),
+      observation.otelSpan.spanContext().traceId,
+    );
+
+    const endObservation = () => {
+      if (options?.endOnExit !== false) {
+        observation.end();
+      }
+    };
+
+    const endObservationWithError = (error: unknown) => {
+      observation.recordError(error, classifyError(error, isExpectedError));
+
+      if (captureOutput) {
+        observation.update({ output: { error: String(error) } });
+      }
+
+      endObservation();
+    };
+
+    const recordResult = (value: unknown) => {
+      if (captureOutput) {
+        observation.update({
+          output: transformOutput
+            ? _transformValue(value, transformOutput, "output")
+            : _captureOutput(value),
+        });
+      }
+
+      if (attributesFromResult) {
+        try {
+          observation.update(attributesFromResult(value));
+        } catch (err) {
+          getGlobalLogger().warn(
+            "Failed to derive observation attributes from result.",
+            err,
+          );
+        }
+      }
+    };
+
+    // Streams end the observation once they are consumed
+    const observeStreamOutput = <S>(stream: S): S => {
+      const chunks: unknown[] = [];
+      let hasReceivedChunk = false;
+
+      return observeStream(
+        stream,
+        {
+          bind: (fn) => context.with(activeContext, fn),
+          onChunk: (chunk) => {
+            if (!hasReceivedChunk) {
+              hasReceivedChunk = true;
+
+              const timeToFirstChunk: LangfuseGenerationAttributes = {
+                completionStartTime: new Date(),
+              };
+              observation.update(timeToFirstChunk);
+            }
+
+            if (captureOutput || attributesFromResult) {
+              chunks.push(chunk);
+            }
+          },
+          onEnd: (error) => {
+            if (error !== undefined) {
+              endObservationWithError(error);
+
+              return;
+            }
+
+            if (captureOutput || attributesFromResult) {
+              recordResult(
+                _transformValue(chunks, reduceStreamOutput, "output"),
+              );
+            }
+
+            endObservation();
+          },
+        },
+        streamTimeoutMs,
+      );
+    };
+
+    try {
+      const result = context.with(activeContext, () => fn.apply(this, args));
+
+      if (isStream(result, observeAsyncIterables)) {
+        return observeStreamOutput(result);
+      }
+
+      // Handle async functions - check if result is a Promise
+      if (result instanceof Promise) {
+        return result.then(
+          (value) => {
+            if (isStream(value, observeAsyncIterables)) {
+              return observeStreamOutput(value);
+            }
+
+            recordResult(value);
+            endObservation();
+
+            return value;
+          },
+          (error: unknown) => {
+            endObservationWithError(error);
+
+            throw error;
+          },
+        ) as ReturnType<T>;
+      } else {
+        // Handle sync functions
+        recordResult(result);
+        endObservation();
+
+        return result as ReturnType<T>;
+      }
+    } catch (error: unknown) {
+      endObservationWithError(error);
+
+      throw error;
+    }
+  };
+
+  return wrappedFunction as T;
+}
+
+/**
+ * Helper function to resolve the parameter names used to record arguments.
+ *
+ * @param fn - The observed function
+ * @param options - The observe options
+ * @returns The parameter names, or undefined to record positional arguments
+ * @internal
+ */
+function _resolveParameterNames(
+  fn: (...args: any[]) => unknown,
+  options: ObserveOptions,
+): ParameterName[] | undefined {
+  const { argumentNames, excludeArguments = [] } = options;
+
+  if (Array.isArray(argumentNames)) {
+    return argumentNames.map((name) => ({ name, isRest: false }));
+  }
+
+  if (
+    argumentNames === true ||
+    excludeArguments.some((argument) => typeof argument === "string")
+  ) {
+    return getParameterNames(fn);
+  }
+
+  return undefined;
+}
+
+/**
+ * Helper function to safely capture function arguments.
+ *
+ * @param args - Function arguments array
+ * @param parameters - Parameter names of the function, if resolved
+ * @param options - The observe options
+ * @returns Captured arguments or error message
+ * @internal
+ */
+function _captureArguments(
+  args: unknown[],
+  parameters: ParameterName[] | undefined,
+  options: ObserveOptions,
+): unknown {
+  try {
+    const excluded = new Set(options.excludeArguments);
+    const positional: unknown[] = [];
+    const named: Record<string, unknown> = {};
+
+    args.forEach((value, index) => {
+      const { name, isRest } = getArgumentParameter(index, parameters ?? []);
+
+      if (excluded.has(index) || excluded.has(name)) return;
+
+      positional.push(value);
+
+      if (isRest) {
+        named[name] = [
+          ...((named[name] as unknown[] | undefined) ?? []),
+          value,
+        ];
+      } else {
+        named[name] = value;
+      }
+    });
+
+    if (positional.length === 0) return undefined;
+    if (options.argumentNames) return named;
+    if (positional.length === 1) return positional[0];
+    return positional;
+  } catch {
+    return "<failed to capture arguments>";
+  }
+}
+
+/**
+ * Helper function to safely apply a user-provided transformation.
+ *
+ * @param value - The value to transform
+ * @param transform - The transformation
+ * @param what - What is transformed, used in the error message
+ * @returns Transformed value or error message
+ * @internal
+ */
+function _transformValue<V>(
+  value: V,
+  transform: (value: V) => unknown,
+  what: "arguments" | "output",
+): unknown {
+  try {
+    return transform(value);
+  } catch (err) {
+    getGlobalLogger().warn(`Failed to transform observation ${what}.`, err);
+
+    return `<failed to capture ${what}>`;
+  }
+}
+
+/**
+ * Helper function to safely capture function output.
+ *
+ * @param value - Function return value
+ * @returns Captured output or error message
+ * @internal
+ */
+function _captureOutput(value: unknown): unknown {
+  try {
+    // Handle undefined/null
+    if (value === undefined || value === null) return value;
+
+    // For primitive types, return as-is
+    if (typeof value !== "object") return value;
+
+    // For objects, return them directly (serialization happens in span processor)
+    return value;
+  } catch {
+    return "<failed to capture output>";
+  }
+}
+
+/**
+ * Default stream reducer: concatenates string chunks and returns other chunks
+ * as an array.
+ *
+ * @param chunks - Chunks produced by the stream
+ * @returns The concatenated string or the chunk array
+ * @internal
+ */
+function _reduceStreamChunks(chunks: unknown[]): unknown {
+  return chunks.length > 0 && chunks.every((chunk) => typeof chunk === "string")
+    ? chunks.join("")
+    : chunks;
+}
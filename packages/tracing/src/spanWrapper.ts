@@ -1,13 +1,28 @@
-import { LangfuseOtelSpanAttributes } from "@langfuse/core";
-import { Span, TimeInput } from "@opentelemetry/api";
+import {
+  getGlobalLogger,
+  LangfuseOtelSpanAttributes,
+  ScoreBody,
+} from "@langfuse/core";
+import {
+  Attributes,
+  Link,
+  Span,
+  SpanStatusCode,
+  TimeInput,
+} from "@opentelemetry/api";
 
 import {
   createObservationAttributes,
   createTraceAttributes,
 } from "./attributes.js";
-import { getLangfuseTracer } from "./tracerProvider.js";
+import { getErrorDetails, RecordErrorOptions } from "./errors.js";
+import { createOtelLink } from "./links.js";
+import { getLangfuseScoreSink, getLangfuseTracer } from "./tracerProvider.js";
 import {
   LangfuseGenerationAttributes,
+  LangfuseLink,
+  LangfuseLogAttributes,
+  LangfuseObservationScore,
   LangfuseSpanAttributes,
   LangfuseEventAttributes,
   LangfuseTraceAttributes,
@@ -22,6 +37,7 @@ import type {
   LangfuseObservationType,
   LangfuseRetrieverAttributes,
   LangfuseToolAttributes,
+  ObservationLevel,
 } from "./types.js";
 
 import { startObservation } from "./index.js";
@@ -229,6 +245,184 @@ abstract class LangfuseBaseObservation {
     return this;
   }
 
+  /**
+   * Creates a score for this observation, e.g. the verdict of a guardrail or
+   * evaluator at the point it is computed.
+   *
+   * The score is enqueued through the sink registered via
+   * {@link setLangfuseScoreSink}, typically a `LangfuseClient`'s score manager.
+   * If no sink is registered, the score is dropped with a warning.
+   *
+   * @param data - Score data (trace and observation ID are set automatically)
+   * @returns The observation instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * const guardrail = startObservation('toxicity-check', {}, { asType: 'guardrail' });
+   * const toxicity = await classifyToxicity(text);
+   * guardrail.score({ name: 'toxicity', value: toxicity, comment: 'classifier v2' });
+   * guardrail.end();
+   * ```
+   */
+  public score(data: LangfuseObservationScore) {
+    this.createScore({
+      ...data,
+      traceId: this.traceId,
+      observationId: this.id,
+    });
+
+    return this;
+  }
+
+  /**
+   * Creates a score for the trace this observation belongs to.
+   *
+   * @param data - Score data (trace ID is set automatically)
+   * @returns The observation instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * const evaluator = startObservation('answer-eval', {}, { asType: 'evaluator' });
+   * evaluator.scoreTrace({ name: 'correctness', value: 1, dataType: 'BOOLEAN' });
+   * evaluator.end();
+   * ```
+   */
+  public scoreTrace(data: LangfuseObservationScore) {
+    this.createScore({ ...data, traceId: this.traceId });
+
+    return this;
+  }
+
+  /**
+   * Links this observation to a related observation, e.g. in another trace.
+   *
+   * Prefer the `links` option when starting the observation if the related
+   * observation is known upfront, as samplers only see links present at start.
+   *
+   * @param link - The observation to link to, with attributes describing the relation
+   * @returns The observation instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * const retry = startObservation('retry-checkout');
+   * retry.addLink({
+   *   traceId: failedAttempt.traceId,
+   *   spanId: failedAttempt.id,
+   *   attributes: { relation: 'retry-of' },
+   * });
+   * ```
+   */
+  public addLink(link: LangfuseLink | Link) {
+    const otelLink = createOtelLink(link);
+    if (otelLink) this.otelSpan.addLink(otelLink);
+
+    return this;
+  }
+
+  /**
+   * Records a point-in-time log entry within this observation, e.g. a planner
+   * thought, cache hit or retry decision.
+   *
+   * Log entries are recorded as OpenTelemetry span events and exported by the
+   * LangfuseSpanProcessor as `event` observations that are children of this
+   * observation, without the overhead of starting a child observation.
+   *
+   * @param message - Log message, used as name of the event observation
+   * @param attributes - Input, output and metadata of the log entry
+   * @param level - Severity level of the log entry
+   * @returns The observation instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * const agent = startObservation('research-agent', {}, { asType: 'agent' });
+   * agent.log('Cache hit', { metadata: { key: cacheKey } }, 'DEBUG');
+   * agent.log('Retrying search', { input: { attempt: 2 } }, 'WARNING');
+   * agent.end();
+   * ```
+   */
+  public log(
+    message: string,
+    attributes: LangfuseLogAttributes = {},
+    level?: ObservationLevel,
+  ) {
+    this.otelSpan.addEvent(
+      message,
+      createObservationAttributes("event", { ...attributes, level }),
+    );
+
+    return this;
+  }
+
+  /**
+   * Records an error on this observation.
+   *
+   * Adds an OpenTelemetry exception event with the error type, message, stack
+   * and `cause` chain, sets the level and status message, and stores these
+   * together with API error fields such as HTTP status and request ID under
+   * the `error` metadata key.
+   *
+   * @param error - The caught error or thrown value
+   * @param options - Whether the error is expected and should be recorded as warning
+   * @returns The observation instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await openai.chat.completions.create({ ... });
+   * } catch (error) {
+   *   generation.recordError(error, { expected: error instanceof RateLimitError });
+   * }
+   * ```
+   */
+  public recordError(error: unknown, options: RecordErrorOptions = {}) {
+    const details = getErrorDetails(error);
+
+    // Event details are masked and redacted like payloads by the span processor
+    const exceptionAttributes: Attributes = {
+      "exception.type": details.type,
+      "exception.message": details.message,
+    };
+    if (details.stack)
+      exceptionAttributes["exception.stacktrace"] = details.stack;
+    if (details.cause) {
+      exceptionAttributes["exception.cause"] = JSON.stringify(details.cause);
+    }
+    this.otelSpan.addEvent("exception", exceptionAttributes);
+
+    if (!options.expected) {
+      this.otelSpan.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: details.message,
+      });
+    }
+
+    this.updateOtelSpanAttributes({
+      level: options.expected ? "WARNING" : "ERROR",
+      statusMessage: details.message || details.type,
+      metadata: { error: details },
+    });
+
+    return this;
+  }
+
+  private createScore(data: ScoreBody) {
+    const sink = getLangfuseScoreSink();
+
+    if (!sink) {
+      getGlobalLogger().warn(
+        `No Langfuse score sink registered. Dropping score '${data.name}'. Create a LangfuseClient or call setLangfuseScoreSink() first.`,
+      );
+
+      return;
+    }
+
+    try {
+      sink.create(data);
+    } catch (err) {
+      getGlobalLogger().error(`Failed to create score '${data.name}'.`, err);
+    }
+  }
+
   /**
    * Creates a new child observation within this observation's context with full type safety.
    *
@@ -0,0 +1,239 @@
+import { safeSetTimeout } from "@langfuse/core";
+
+/**
+ * Callbacks invoked while a stream returned by an observed function is
+ * consumed.
+ *
+ * @internal
+ */
+export type StreamObserver = {
+  /** Called for every chunk produced by the stream */
+  onChunk: (chunk: unknown) => void;
+  /** Called once when the stream completes, is cancelled or fails */
+  onEnd: (error?: unknown) => void;
+  /** Runs the given function in the context of the observation */
+  bind: <R>(fn: () => R) => R;
+};
+
+type AnyIterator = Iterator<unknown> | AsyncIterator<unknown>;
+
+type IteratorMethod = "next" | "return" | "throw";
+
+/**
+ * Whether the value is a stream whose consumption should be observed:
+ * a generator, an async iterator or a ReadableStream.
+ *
+ * Other async iterables, such as SDK stream objects or Node.js `Readable`
+ * streams, are only streams if `includeAsyncIterables` is set, as they are
+ * often consumed without iterating them, e.g. with `pipe()`. Plain iterables
+ * such as arrays, strings, Maps and Sets are never streams.
+ *
+ * @internal
+ */
+export function isStream(
+  value: unknown,
+  includeAsyncIterables = false,
+): boolean {
+  if (typeof value !== "object" || value === null) return false;
+
+  if (
+    typeof ReadableStream !== "undefined" &&
+    value instanceof ReadableStream
+  ) {
+    return true;
+  }
+
+  if (Object.prototype.toString.call(value) === "[object Generator]") {
+    return true;
+  }
+
+  if (!(Symbol.asyncIterator in value)) return false;
+
+  return (
+    includeAsyncIterables ||
+    ("next" in value && typeof value.next === "function")
+  );
+}
+
+/**
+ * Wraps a stream so that the observer is notified of every chunk and of the
+ * end of consumption, i.e. when iteration completes, is broken out of or
+ * throws.
+ *
+ * Non-iterator async iterables, such as SDK stream objects, are proxied so
+ * that their other properties and methods remain available. Calling any of
+ * these methods ends the observation, as the stream may then be consumed
+ * without iterating it. Streams that produce no chunk within `timeoutMs` are
+ * ended as well, e.g. if they are never read.
+ *
+ * @internal
+ */
+export function observeStream<T>(
+  stream: T,
+  observer: StreamObserver,
+  timeoutMs: number,
+): T {
+  let ended = false;
+  let timer: ReturnType<typeof safeSetTimeout> | undefined;
+
+  const onceObserver: StreamObserver = {
+    ...observer,
+    onChunk: (chunk) => {
+      if (ended) return;
+
+      armTimeout();
+      observer.onChunk(chunk);
+    },
+    onEnd: (error) => {
+      if (ended) return;
+
+      ended = true;
+      clearTimeout(timer);
+      observer.onEnd(error);
+    },
+  };
+
+  const armTimeout = () => {
+    clearTimeout(timer);
+    timer = safeSetTimeout(() => onceObserver.onEnd(), timeoutMs);
+  };
+
+  armTimeout();
+
+  if (
+    typeof ReadableStream !== "undefined" &&
+    stream instanceof ReadableStream
+  ) {
+    return observeReadableStream(stream, onceObserver) as T;
+  }
+
+  const target = stream as object;
+
+  if ("next" in target && typeof target.next === "function") {
+    return observeIterator(
+      target as AnyIterator,
+      Symbol.asyncIterator in target,
+      onceObserver,
+    ) as T;
+  }
+
+  return new Proxy(target, {
+    get(obj, property) {
+      if (property === Symbol.asyncIterator) {
+        return () =>
+          observeIterator(
+            (obj as AsyncIterable<unknown>)[Symbol.asyncIterator](),
+            true,
+            onceObserver,
+          );
+      }
+
+      const value = Reflect.get(obj, property, obj);
+
+      if (typeof value !== "function") return value;
+
+      return (...args: unknown[]) => {
+        onceObserver.onEnd();
+
+        return value.apply(obj, args);
+      };
+    },
+  }) as T;
+}
+
+function observeIterator(
+  iterator: AnyIterator,
+  isAsync: boolean,
+  observer: StreamObserver,
+): AnyIterator {
+  const handleResult = (result: IteratorResult<unknown>) => {
+    if (result.done) {
+      observer.onEnd();
+    } else {
+      observer.onChunk(result.value);
+    }
+
+    return result;
+  };
+
+  const handleError = (error: unknown) => {
+    observer.onEnd(error);
+
+    throw error;
+  };
+
+  const call = (method: IteratorMethod, args: unknown[]) => {
+    const fn = iterator[method] as
+      | ((...args: unknown[]) => unknown)
+      | undefined;
+
+    if (typeof fn !== "function") {
+      // Iterators without return/throw: finish iteration as the runtime would
+      if (method === "throw") {
+        observer.onEnd(args[0]);
+
+        if (isAsync) return Promise.reject(args[0]);
+
+        throw args[0];
+      }
+
+      const result = { done: true, value: args[0] };
+      observer.onEnd();
+
+      return isAsync ? Promise.resolve(result) : result;
+    }
+
+    let result: unknown;
+    try {
+      result = observer.bind(() => fn.apply(iterator, args));
+    } catch (error) {
+      return handleError(error);
+    }
+
+    return result instanceof Promise
+      ? result.then(handleResult, handleError)
+      : handleResult(result as IteratorResult<unknown>);
+  };
+
+  return {
+    next: (...args: unknown[]) => call("next", args),
+    return: (...args: unknown[]) => call("return", args),
+    throw: (...args: unknown[]) => call("throw", args),
+    [isAsync ? Symbol.asyncIterator : Symbol.iterator]() {
+      return this;
+    },
+  } as AnyIterator;
+}
+
+function observeReadableStream(
+  stream: ReadableStream<unknown>,
+  observer: StreamObserver,
+): ReadableStream<unknown> {
+  const reader = stream.getReader();
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await observer.bind(() => reader.read());
+
+        if (done) {
+          observer.onEnd();
+          controller.close();
+
+          return;
+        }
+
+        observer.onChunk(value);
+        controller.enqueue(value);
+      } catch (error) {
+        observer.onEnd(error);
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      observer.onEnd();
+
+      return reader.cancel(reason);
+    },
+  });
+}
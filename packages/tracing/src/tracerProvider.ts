@@ -5,15 +5,19 @@ import {
 } from "@langfuse/core";
 import { TracerProvider, trace } from "@opentelemetry/api";
 
+import type { LangfuseScoreSink } from "./types.js";
+
 const LANGFUSE_GLOBAL_SYMBOL = Symbol.for("langfuse");
 
 type LangfuseGlobalState = {
   isolatedTracerProvider: TracerProvider | null;
+  scoreSink?: LangfuseScoreSink | null;
 };
 
 function createState(): LangfuseGlobalState {
   return {
     isolatedTracerProvider: null,
+    scoreSink: null,
   };
 }
 
@@ -153,3 +157,40 @@ export function getLangfuseTracer() {
     LANGFUSE_SDK_VERSION,
   );
 }
+
+/**
+ * Sets the sink that scores created via `observation.score()` and
+ * `observation.scoreTrace()` are sent to.
+ *
+ * A `LangfuseClient` registers its score manager as sink on creation if no
+ * sink is set yet, so this is only needed to route scores elsewhere.
+ *
+ * @example
+ * ```typescript
+ * import { LangfuseClient } from '@langfuse/client';
+ * import { setLangfuseScoreSink, startObservation } from '@langfuse/tracing';
+ *
+ * const langfuse = new LangfuseClient();
+ * setLangfuseScoreSink(langfuse.score);
+ *
+ * const guardrail = startObservation('pii-check', {}, { asType: 'guardrail' });
+ * guardrail.score({ name: 'pii-detected', value: 0, dataType: 'BOOLEAN' });
+ * guardrail.end();
+ * ```
+ *
+ * @param sink - The score sink to use, or null to clear it
+ * @public
+ */
+export function setLangfuseScoreSink(sink: LangfuseScoreSink | null) {
+  getGlobalState().scoreSink = sink;
+}
+
+/**
+ * Gets the sink that observation scores are sent to.
+ *
+ * @returns The registered score sink, or null if none is set
+ * @public
+ */
+export function getLangfuseScoreSink(): LangfuseScoreSink | null {
+  return getGlobalState().scoreSink ?? null;
+}
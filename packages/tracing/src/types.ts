@@ -1,4 +1,5 @@
-import { OpenAiUsage } from "@langfuse/core";
+import { OpenAiUsage, ScoreBody } from "@langfuse/core";
+import type { Attributes } from "@opentelemetry/api";
 
 /**
  * Types of observations that can be created in Langfuse.
@@ -157,3 +158,53 @@ export type TraceContext = {
   /** Optional parent observation ID for creating hierarchical relationships */
   parentObservationId?: string;
 };
+
+/**
+ * Link from an observation to an observation of the same or another trace,
+ * e.g. the failed attempt a retry follows up on.
+ *
+ * @public
+ */
+export type LangfuseLink = {
+  /** Trace ID of the linked observation */
+  traceId: string;
+  /** ID of the linked observation */
+  spanId: string;
+  /** Attributes describing the relation, e.g. `{ relation: 'retry-of' }` */
+  attributes?: Attributes;
+};
+
+/**
+ * Attributes of a log entry recorded via `observation.log()`.
+ *
+ * @public
+ */
+export type LangfuseLogAttributes = Pick<
+  LangfuseEventAttributes,
+  "input" | "output" | "metadata" | "statusMessage"
+>;
+
+/**
+ * Score data for scoring an observation or its trace. The trace and
+ * observation IDs are taken from the observation.
+ *
+ * @public
+ */
+export type LangfuseObservationScore = Omit<
+  ScoreBody,
+  "traceId" | "sessionId" | "observationId" | "datasetRunId"
+>;
+
+/**
+ * Destination for scores created via `observation.score()` and
+ * `observation.scoreTrace()`, e.g. the `ScoreManager` of a `LangfuseClient`
+ * that batches and sends them to Langfuse.
+ *
+ * @public
+ */
+export interface LangfuseScoreSink {
+  /** Enqueues a score for delivery */
+  create(data: ScoreBody): void;
+  /** Sends all enqueued scores. Called by {@link flushLangfuse} if implemented */
+  flush?(): Promise<void>;
+}
@@ -1,5 +1,5 @@
 import type { OpenTelemetrySpanType } from "@ai-sdk/otel";
-import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import { LangfuseOtelSpanAttributes, serializeValue } from "@langfuse/core";
 import type { Attributes } from "@opentelemetry/api";
 
 import type { LangfusePrompt } from "./types.js";
@@ -36,8 +36,7 @@ export function createLangfuseObservationAttributes(params: {
   // Handle metadata
   if (metadata) {
     for (const [key, value] of Object.entries(metadata)) {
-      const serialized =
-        typeof value === "string" ? value : safeSerialize(value);
+      const serialized = serializeValue(value);
 
       if (serialized != null) {
         attributes[
@@ -70,15 +69,3 @@ function normalizePrompt(value: unknown): LangfusePrompt | undefined {
 function isPlainObject(value: unknown): value is Record<string, any> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
-
-function safeSerialize(value: unknown): string | undefined {
-  try {
-    if (value == null) {
-      return;
-    }
-
-    return JSON.stringify(value);
-  } catch {
-    return "<failed to serialize>";
-  }
-}
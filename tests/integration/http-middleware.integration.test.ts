@@ -0,0 +1,469 @@
+/**
+ * Tests for the HTTP middleware adapters of @langfuse/tracing.
+ *
+ * Express-style middleware is exercised against a local Node.js HTTP server;
+ * the fetch-based adapters are called with real Request and Response objects.
+ */
+
+import { once } from "node:events";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  createExpressMiddleware,
+  createFastifyPlugin,
+  createHonoMiddleware,
+  flushLangfuse,
+  observeRouteHandler,
+  setLangfuseScoreSink,
+  startObservation,
+  withLangfuseFetchHandler,
+  withLangfuseLambda,
+  withLangfuseRouteHandler,
+} from "@langfuse/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const PARENT_SPAN_ID = "b7ad6b7169203331";
+
+const Attr = LangfuseOtelSpanAttributes;
+
+describe("HTTP middleware", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  describe("createExpressMiddleware", () => {
+    let server: Server;
+    let baseUrl: string;
+
+    async function listen(
+      handler: (
+        req: IncomingMessage & { body?: unknown; route?: { path: string } },
+        res: import("node:http").ServerResponse,
+      ) => void,
+    ) {
+      server = createServer((req, res) => {
+        // Minimal body parser, as express.json() would run before
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => {
+          Object.assign(req, { body: raw ? JSON.parse(raw) : undefined });
+          handler(req, res);
+        });
+      });
+      server.listen(0);
+      await once(server, "listening");
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    afterEach(async () => {
+      server.close();
+      await once(server, "close");
+    });
+
+    it("traces requests with route name, propagated attributes and bodies", async () => {
+      const middleware = createExpressMiddleware({
+        captureRequestBody: true,
+        captureResponseBody: true,
+        resolveUserId: (req) => req.headers["x-user-id"] as string,
+        tags: ["api"],
+      });
+
+      await listen((req, res) =>
+        middleware(req, res, () => {
+          req.route = { path: "/chats/:id" };
+
+          setTimeout(() => {
+            startObservation("answer").end();
+
+            res.setHeader("content-type", "application/json");
+            res.statusCode = 201;
+            res.end(JSON.stringify({ answer: 42 }));
+          }, 5);
+        }),
+      );
+
+      const response = await fetch(`${baseUrl}/chats/1?stream=false`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-user-id": "user-1",
+          traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+        },
+        body: JSON.stringify({ question: "?" }),
+      });
+      expect(response.status).toBe(201);
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      const root = testEnv.mockExporter.getSpanByName("POST /chats/:id")!;
+      const child = testEnv.mockExporter.getSpanByName("answer")!;
+
+      expect(root.spanContext().traceId).toBe(TRACE_ID);
+      expect(root.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID);
+      expect(child.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+
+      expect(root.attributes[Attr.TRACE_NAME]).toBe("POST /chats/:id");
+      expect(root.attributes[Attr.TRACE_USER_ID]).toBe("user-1");
+      expect(child.attributes[Attr.TRACE_USER_ID]).toBe("user-1");
+      expect(child.attributes[Attr.TRACE_TAGS]).toEqual(["api"]);
+
+      expect(
+        JSON.parse(root.attributes[Attr.OBSERVATION_INPUT] as string),
+      ).toEqual({
+        question: "?",
+      });
+      expect(
+        JSON.parse(root.attributes[Attr.OBSERVATION_OUTPUT] as string),
+      ).toEqual({
+        answer: 42,
+      });
+      expect(root.attributes[`${Attr.OBSERVATION_METADATA}.path`]).toBe(
+        "/chats/1",
+      );
+      expect(
+        root.attributes[`${Attr.OBSERVATION_METADATA}.url`],
+      ).toBeUndefined();
+      expect(root.attributes[`${Attr.OBSERVATION_METADATA}.statusCode`]).toBe(
+        "201",
+      );
+      expect(root.attributes[Attr.OBSERVATION_LEVEL]).toBeUndefined();
+    });
+
+    it("sets the level from the status code and skips ignored requests", async () => {
+      const middleware = createExpressMiddleware({
+        ignore: (req) => req.url === "/health",
+      });
+
+      await listen((req, res) =>
+        middleware(req, res, () => {
+          res.statusCode = req.url === "/health" ? 200 : 503;
+          res.end();
+        }),
+      );
+
+      await fetch(`${baseUrl}/health`);
+      await fetch(`${baseUrl}/search`);
+
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      expect(testEnv.mockExporter.getSpanCount()).toBe(1);
+
+      const root = testEnv.mockExporter.getSpanByName("GET /search")!;
+      expect(root.attributes[Attr.OBSERVATION_LEVEL]).toBe("ERROR");
+      expect(root.attributes[Attr.OBSERVATION_STATUS_MESSAGE]).toBe("HTTP 503");
+    });
+  });
+
+  describe("createFastifyPlugin", () => {
+    it("traces requests through the request lifecycle hooks", async () => {
+      const hooks: Record<string, (...args: any[]) => unknown> = {};
+      const plugin = createFastifyPlugin({
+        captureRequestBody: true,
+        captureResponseBody: true,
+        resolveSessionId: () => "session-1",
+      });
+
+      plugin({ addHook: (name, hook) => (hooks[name] = hook) }, {}, () => {});
+      expect((plugin as any)[Symbol.for("skip-override")]).toBe(true);
+
+      const request = {
+        method: "PUT",
+        url: "/users/7",
+        headers: {},
+        body: { name: "Ada" },
+        routeOptions: { url: "/users/:id" },
+      };
+      const reply = {
+        statusCode: 200,
+        getHeader: () => "application/json; charset=utf-8",
+      };
+
+      await hooks.onRequest(request, reply);
+      hooks.preHandler(request, reply, () => {
+        startObservation("update-user").end();
+      });
+      await hooks.onSend(request, reply, JSON.stringify({ id: 7 }));
+      await hooks.onResponse(request, reply);
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      const root = testEnv.mockExporter.getSpanByName("PUT /users/:id")!;
+      const child = testEnv.mockExporter.getSpanByName("update-user")!;
+
+      expect(child.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+      expect(child.attributes[Attr.TRACE_SESSION_ID]).toBe("session-1");
+      expect(
+        JSON.parse(root.attributes[Attr.OBSERVATION_INPUT] as string),
+      ).toEqual({
+        name: "Ada",
+      });
+      expect(
+        JSON.parse(root.attributes[Attr.OBSERVATION_OUTPUT] as string),
+      ).toEqual({
+        id: 7,
+      });
+    });
+  });
+
+  describe("createHonoMiddleware", () => {
+    it("names traces after the matched handler route", async () => {
+      const middleware = createHonoMiddleware({ captureResponseBody: true });
+      const c = {
+        req: {
+          raw: new Request("http://localhost/users/7"),
+          matchedRoutes: [
+            { path: "/*", method: "ALL" },
+            { path: "/users/:id", method: "GET" },
+          ],
+        },
+        res: new Response(null, { status: 404 }),
+      };
+
+      await middleware(c, async () => {
+        startObservation("load-user").end();
+        c.res = Response.json({ id: 7 });
+      });
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      const root = testEnv.mockExporter.getSpanByName("GET /users/:id")!;
+      const child = testEnv.mockExporter.getSpanByName("load-user")!;
+
+      expect(child.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+      expect(
+        JSON.parse(root.attributes[Attr.OBSERVATION_OUTPUT] as string),
+      ).toEqual({
+        id: 7,
+      });
+      await expect(c.res.json()).resolves.toEqual({ id: 7 });
+    });
+  });
+
+  describe("observeRouteHandler", () => {
+    it("derives the route pattern from params and flushes via waitUntil", async () => {
+      const pending: Promise<unknown>[] = [];
+      const handler = observeRouteHandler(
+        async (request: Request) => {
+          startObservation("answer").end();
+
+          return Response.json(await request.json());
+        },
+        {
+          captureRequestBody: true,
+          flush: true,
+          waitUntil: (promise) => pending.push(promise),
+        },
+      );
+
+      const response = await handler(
+        new Request("http://localhost/api/chats/42", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ message: "hi" }),
+        }),
+        { params: Promise.resolve({ id: "42" }) },
+      );
+
+      await expect(response.json()).resolves.toEqual({ message: "hi" });
+      expect(pending).toHaveLength(1);
+      await Promise.all(pending);
+
+      const root = testEnv.mockExporter.getSpanByName("POST /api/chats/[id]")!;
+      expect(
+        JSON.parse(root.attributes[Attr.OBSERVATION_INPUT] as string),
+      ).toEqual({
+        message: "hi",
+      });
+      expect(testEnv.mockExporter.getSpanByName("answer")).toBeDefined();
+    });
+
+    it("records thrown errors and rethrows them", async () => {
+      const handler = observeRouteHandler(
+        async () => {
+          throw new Error("boom");
+        },
+        { route: "/api/fail" },
+      );
+
+      await expect(
+        handler(new Request("http://localhost/api/fail"), {}),
+      ).rejects.toThrow("boom");
+
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      const root = testEnv.mockExporter.getSpanByName("GET /api/fail")!;
+      expect(root.attributes[Attr.OBSERVATION_LEVEL]).toBe("ERROR");
+      expect(root.attributes[Attr.OBSERVATION_STATUS_MESSAGE]).toBe("boom");
+    });
+    it("returns streamed responses before their body is complete", async () => {
+      let controller!: ReadableStreamDefaultController<Uint8Array>;
+      const body = new ReadableStream<Uint8Array>({
+        start: (c) => {
+          controller = c;
+        },
+      });
+      const handler = observeRouteHandler(
+        async () =>
+          new Response(body, {
+            headers: { "content-type": "text/plain; charset=utf-8" },
+          }),
+        { route: "/api/stream", captureResponseBody: true },
+      );
+
+      const response = await handler(
+        new Request("http://localhost/api/stream"),
+        {},
+      );
+      controller.enqueue(new TextEncoder().encode("Hello "));
+      controller.enqueue(new TextEncoder().encode("world"));
+      controller.close();
+
+      await expect(response.text()).resolves.toBe("Hello world");
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      const root = testEnv.mockExporter.getSpanByName("GET /api/stream")!;
+      expect(root.attributes[Attr.OBSERVATION_OUTPUT]).toBe("Hello world");
+    });
+
+    it("keeps the handler error if the route params reject", async () => {
+      const handler = observeRouteHandler(async () => {
+        throw new Error("boom");
+      });
+      const params = Promise.reject(new Error("invalid params"));
+      params.catch(() => {});
+
+      await expect(
+        handler(new Request("http://localhost/api/chats/42"), { params }),
+      ).rejects.toThrow("boom");
+
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      expect(
+        testEnv.mockExporter.getSpanByName("GET /api/chats/42"),
+      ).toBeDefined();
+    });
+  });
+
+  describe("serverless wrappers", () => {
+    afterEach(() => {
+      setLangfuseScoreSink(null);
+    });
+
+    it("traces Lambda invocations and flushes spans and scores before returning", async () => {
+      const scoreSink = { create: vi.fn(), flush: vi.fn(async () => {}) };
+      setLangfuseScoreSink(scoreSink);
+
+      const handler = withLangfuseLambda(
+        async (event: {
+          headers: Record<string, string>;
+          question: string;
+        }) => {
+          startObservation("answer").end();
+
+          return { answer: event.question.toUpperCase() };
+        },
+        { captureInput: true, captureOutput: true },
+      );
+
+      const lambdaContext = {
+        functionName: "chat-handler",
+        awsRequestId: "request-1",
+        getRemainingTimeInMillis: () => 10_000,
+      };
+      const event = {
+        headers: { traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` },
+        question: "hi",
+      };
+
+      await expect(handler(event, lambdaContext)).resolves.toEqual({
+        answer: "HI",
+      });
+      await handler(event, { ...lambdaContext, awsRequestId: "request-2" });
+
+      await waitForSpanExport(testEnv.mockExporter, 4);
+      const [first, second] = testEnv.mockExporter.exportedSpans.filter(
+        (span) => span.name === "chat-handler",
+      );
+      expect(first.spanContext().traceId).toBe(TRACE_ID);
+      expect(first.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID);
+      expect(
+        JSON.parse(first.attributes[Attr.OBSERVATION_OUTPUT] as string),
+      ).toEqual({ answer: "HI" });
+      expect(
+        first.attributes[`${Attr.OBSERVATION_METADATA}.awsRequestId`],
+      ).toBe("request-1");
+      expect(second.attributes[`${Attr.OBSERVATION_METADATA}.coldStart`]).toBe(
+        "false",
+      );
+      expect(testEnv.mockExporter.getSpanByName("answer")).toBeDefined();
+      expect(scoreSink.flush).toHaveBeenCalledTimes(2);
+    });
+
+    it("hands the flush of Workers fetch handlers to ctx.waitUntil", async () => {
+      const pending: Promise<unknown>[] = [];
+      const handler = withLangfuseFetchHandler(
+        async (request, env: { greeting: string }) =>
+          new Response(`${env.greeting} ${new URL(request.url).pathname}`),
+      );
+
+      const response = await handler(
+        new Request("http://localhost/workers"),
+        { greeting: "hello" },
+        { waitUntil: (promise) => pending.push(promise) },
+      );
+
+      await expect(response.text()).resolves.toBe("hello /workers");
+      expect(pending).toHaveLength(1);
+      await Promise.all(pending);
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      expect(testEnv.mockExporter.getSpanByName("GET /workers")).toBeDefined();
+    });
+
+    it("uses the waitUntil of the Vercel request context", async () => {
+      const pending: Promise<unknown>[] = [];
+      const requestContextKey = Symbol.for("@vercel/request-context");
+      (globalThis as any)[requestContextKey] = {
+        get: () => ({
+          waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+        }),
+      };
+
+      try {
+        const handler = withLangfuseRouteHandler(async () =>
+          Response.json({ ok: true }),
+        );
+        await handler(new Request("http://localhost/api/health"), {});
+      } finally {
+        delete (globalThis as any)[requestContextKey];
+      }
+
+      expect(pending).toHaveLength(1);
+      await Promise.all(pending);
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      expect(
+        testEnv.mockExporter.getSpanByName("GET /api/health"),
+      ).toBeDefined();
+    });
+
+    it("stops waiting for the flush after the deadline", async () => {
+      setLangfuseScoreSink({
+        create: () => {},
+        flush: () => new Promise(() => {}),
+      });
+
+      const startTime = Date.now();
+      await flushLangfuse({ timeoutMs: 50 });
+
+      expect(Date.now() - startTime).toBeLessThan(1_000);
+    });
+  });
+});
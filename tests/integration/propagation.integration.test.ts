@@ -12,14 +12,20 @@ import {
   LangfuseOtelSpanAttributes,
   getPropagatedAttributesFromContext,
 } from "@langfuse/core";
-import { propagateAttributes, startObservation } from "@langfuse/tracing";
+import {
+  configurePropagateAttributesValidation,
+  propagateAttributes,
+  PropagateAttributesValidationError,
+  resetPropagateAttributesValidation,
+  startObservation,
+} from "@langfuse/tracing";
 import {
   context as otelContext,
   trace as otelTrace,
   propagation,
   ROOT_CONTEXT,
 } from "@opentelemetry/api";
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 
 import {
   setupTestEnvironment,
@@ -1341,6 +1347,131 @@ describe("propagateAttributes", () => {
     });
   });
 
+  describe("Validation Modes", () => {
+    afterEach(() => {
+      resetPropagateAttributesValidation();
+    });
+
+    it("should throw before running the callback in throw mode", async () => {
+      const tracer = otelTrace.getTracer("langfuse-sdk");
+      const callback = vi.fn();
+
+      await tracer.startActiveSpan("parent", async (parentSpan) => {
+        let error: unknown;
+        try {
+          propagateAttributes(
+            {
+              userId: "user_123",
+              sessionId: "x".repeat(201),
+              metadata: { plan: 42 as unknown as string },
+              validation: "throw",
+            },
+            callback,
+          );
+        } catch (err) {
+          error = err;
+        }
+        parentSpan.end();
+
+        expect(error).toBeInstanceOf(PropagateAttributesValidationError);
+        expect(
+          (error as PropagateAttributesValidationError).issues.map(
+            ({ attribute, action }) => [attribute, action],
+          ),
+        ).toEqual([
+          ["sessionId", "dropped"],
+          ["metadata.plan", "dropped"],
+        ]);
+      });
+
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      const [parent] = testEnv.mockExporter.exportedSpans;
+
+      expect(callback).not.toHaveBeenCalled();
+      // Valid values are not set on the active span either
+      expect(
+        parent.attributes[LangfuseOtelSpanAttributes.TRACE_USER_ID],
+      ).toBeUndefined();
+    });
+
+    it("should coerce invalid values in coerce mode", async () => {
+      propagateAttributes(
+        {
+          userId: "x".repeat(201),
+          environment: " Staging ",
+          tags: [true as unknown as string],
+          metadata: { retries: 3 as unknown as string, nested: {} as any },
+          validation: "coerce",
+        },
+        () => {
+          startObservation("child").end();
+        },
+      );
+
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      const [child] = testEnv.mockExporter.exportedSpans;
+
+      expect(child.attributes[LangfuseOtelSpanAttributes.TRACE_USER_ID]).toBe(
+        "x".repeat(200),
+      );
+      expect(child.attributes[LangfuseOtelSpanAttributes.ENVIRONMENT]).toBe(
+        "staging",
+      );
+      expect(child.attributes[LangfuseOtelSpanAttributes.TRACE_TAGS]).toEqual([
+        "true",
+      ]);
+      expect(
+        child.attributes[
+          `${LangfuseOtelSpanAttributes.TRACE_METADATA}.retries`
+        ],
+      ).toBe("3");
+      // Values that cannot be coerced are dropped
+      expect(
+        child.attributes[`${LangfuseOtelSpanAttributes.TRACE_METADATA}.nested`],
+      ).toBeUndefined();
+    });
+
+    it("should report issues of all calls to the configured callback", () => {
+      const reports: unknown[] = [];
+      configurePropagateAttributesValidation({
+        mode: "coerce",
+        onReport: (report) => reports.push(report),
+      });
+
+      propagateAttributes({ userId: "user_123" }, () => {});
+      propagateAttributes({ environment: "langfuse-prod" }, () => {});
+      // The mode of the call takes precedence
+      expect(() =>
+        propagateAttributes(
+          { traceName: "x".repeat(201), validation: "throw" },
+          () => {},
+        ),
+      ).toThrow(PropagateAttributesValidationError);
+
+      expect(reports).toEqual([
+        {
+          mode: "coerce",
+          issues: [
+            expect.objectContaining({
+              attribute: "environment",
+              value: "langfuse-prod",
+              action: "dropped",
+            }),
+          ],
+        },
+        {
+          mode: "throw",
+          issues: [
+            expect.objectContaining({
+              attribute: "traceName",
+              action: "dropped",
+            }),
+          ],
+        },
+      ]);
+    });
+  });
+
   describe("Baggage Propagation", () => {
     it("should merge metadata in baggage mode", async () => {
       const tracer = otelTrace.getTracer("langfuse-sdk");
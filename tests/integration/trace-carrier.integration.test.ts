@@ -0,0 +1,195 @@
+/**
+ * Tests for trace carriers that continue traces across job queues.
+ */
+
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  attachTraceCarrier,
+  createTraceCarrier,
+  LANGFUSE_TRACE_CARRIER_KEY,
+  observeJob,
+  propagateAttributes,
+  restoreTraceContext,
+  runWithTraceCarrier,
+  startActiveObservation,
+  startObservation,
+  type LangfuseTraceCarrier,
+} from "@langfuse/tracing";
+import { context } from "@opentelemetry/api";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const Attr = LangfuseOtelSpanAttributes;
+
+describe("trace carriers", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  function enqueue(): { carrier: LangfuseTraceCarrier; producerId: string } {
+    return startActiveObservation("producer", (span) =>
+      propagateAttributes(
+        {
+          userId: "user-1",
+          sessionId: "session-1",
+          tags: ["queue"],
+          metadata: { tenant: "acme" },
+          environment: "staging",
+          prompt: { name: "summarize", version: 3 },
+        },
+        () => ({
+          // Round-trip through JSON as a job queue would
+          carrier: JSON.parse(JSON.stringify(createTraceCarrier())),
+          producerId: span.id,
+        }),
+      ),
+    );
+  }
+
+  it("captures the trace context and propagated attributes as plain JSON", () => {
+    const { carrier, producerId } = enqueue();
+
+    expect(carrier.traceparent).toMatch(
+      new RegExp(`^00-[0-9a-f]{32}-${producerId}-01$`),
+    );
+    expect(carrier.attributes).toEqual({
+      userId: "user-1",
+      sessionId: "session-1",
+      tags: ["queue"],
+      metadata: { tenant: "acme" },
+      environment: "staging",
+      prompt: { name: "summarize", version: 3 },
+    });
+  });
+
+  it("restores the producer as parent with its attributes", async () => {
+    const { carrier, producerId } = enqueue();
+
+    runWithTraceCarrier(carrier, () => startObservation("consumer").end());
+
+    await waitForSpanExport(testEnv.mockExporter, 2);
+    const producer = testEnv.mockExporter.getSpanByName("producer")!;
+    const consumer = testEnv.mockExporter.getSpanByName("consumer")!;
+
+    expect(consumer.spanContext().traceId).toBe(producer.spanContext().traceId);
+    expect(consumer.parentSpanContext?.spanId).toBe(producerId);
+    expect(consumer.attributes[Attr.TRACE_USER_ID]).toBe("user-1");
+    expect(consumer.attributes[Attr.TRACE_SESSION_ID]).toBe("session-1");
+    expect(consumer.attributes[Attr.TRACE_TAGS]).toEqual(["queue"]);
+    expect(consumer.attributes[`${Attr.TRACE_METADATA}.tenant`]).toBe("acme");
+    expect(consumer.attributes[Attr.ENVIRONMENT]).toBe("staging");
+  });
+
+  it("restores the producer as link of a new trace", async () => {
+    const { carrier, producerId } = enqueue();
+
+    context.with(
+      restoreTraceContext(carrier, {
+        mode: "link",
+        linkAttributes: { relation: "follow-up-of" },
+      }),
+      () =>
+        startActiveObservation("follow-up", () => {
+          startObservation("child").end();
+        }),
+    );
+
+    await waitForSpanExport(testEnv.mockExporter, 3);
+    const producer = testEnv.mockExporter.getSpanByName("producer")!;
+    const followUp = testEnv.mockExporter.getSpanByName("follow-up")!;
+    const child = testEnv.mockExporter.getSpanByName("child")!;
+
+    expect(followUp.spanContext().traceId).not.toBe(
+      producer.spanContext().traceId,
+    );
+    expect(followUp.parentSpanContext).toBeUndefined();
+    expect(followUp.links).toHaveLength(1);
+    expect(followUp.links[0].context.spanId).toBe(producerId);
+    expect(followUp.links[0].attributes).toEqual({ relation: "follow-up-of" });
+    expect(followUp.attributes[Attr.TRACE_USER_ID]).toBe("user-1");
+
+    expect(child.links).toHaveLength(0);
+    expect(child.attributes[Attr.TRACE_USER_ID]).toBe("user-1");
+  });
+
+  describe("observeJob", () => {
+    it("traces BullMQ-style jobs within the enqueuing trace", async () => {
+      const data = startActiveObservation("producer", () =>
+        attachTraceCarrier({ documentId: "doc-1" }),
+      );
+      expect(data[LANGFUSE_TRACE_CARRIER_KEY].traceparent).toBeDefined();
+
+      const processor = observeJob(
+        async (job: { name: string; id: string; data: typeof data }) => {
+          startObservation("summarize").end();
+
+          return `summary of ${job.data.documentId}`;
+        },
+      );
+
+      await expect(
+        processor({ name: "summarize-document", id: "42", data }),
+      ).resolves.toBe("summary of doc-1");
+
+      await waitForSpanExport(testEnv.mockExporter, 3);
+      const producer = testEnv.mockExporter.getSpanByName("producer")!;
+      const job = testEnv.mockExporter.getSpanByName("summarize-document")!;
+      const child = testEnv.mockExporter.getSpanByName("summarize")!;
+
+      expect(job.parentSpanContext?.spanId).toBe(producer.spanContext().spanId);
+      expect(child.parentSpanContext?.spanId).toBe(job.spanContext().spanId);
+      expect(
+        JSON.parse(job.attributes[Attr.OBSERVATION_INPUT] as string),
+      ).toEqual({
+        documentId: "doc-1",
+      });
+      expect(job.attributes[Attr.OBSERVATION_OUTPUT]).toBe("summary of doc-1");
+      expect(job.attributes[`${Attr.OBSERVATION_METADATA}.jobId`]).toBe("42");
+    });
+
+    it("links retries and records failures", async () => {
+      const data = startActiveObservation("producer", () =>
+        attachTraceCarrier({ documentId: "doc-1" }),
+      );
+
+      const processor = observeJob(
+        async () => {
+          throw new Error("rate limited");
+        },
+        {
+          mode: (job) => ((job.attemptsMade ?? 0) > 0 ? "link" : "parent"),
+          linkAttributes: { relation: "retry-of" },
+        },
+      );
+
+      await expect(
+        processor({ name: "retry", data, attemptsMade: 1 }),
+      ).rejects.toThrow("rate limited");
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      const producer = testEnv.mockExporter.getSpanByName("producer")!;
+      const job = testEnv.mockExporter.getSpanByName("retry")!;
+
+      expect(job.spanContext().traceId).not.toBe(
+        producer.spanContext().traceId,
+      );
+      expect(job.links[0].attributes).toEqual({ relation: "retry-of" });
+      expect(job.attributes[Attr.OBSERVATION_LEVEL]).toBe("ERROR");
+      expect(job.attributes[Attr.OBSERVATION_STATUS_MESSAGE]).toBe(
+        "rate limited",
+      );
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import {
+  observed,
+  observedClass,
+  setLangfuseTracerProvider,
+} from "@langfuse/tracing";
+
+describe("observation decorators", () => {
+  let exporter: InMemorySpanExporter;
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+
+  async function exportedSpanNames(): Promise<string[]> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans().map((span) => span.name);
+  }
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  });
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  it("traces methods with the given options and preserves this", async () => {
+    class WeatherService {
+      private unit = "celsius";
+
+      @observed({ asType: "tool" })
+      getForecast(city: string) {
+        return `${city}: 20 ${this.unit}`;
+      }
+    }
+
+    expect(new WeatherService().getForecast("Berlin")).toBe(
+      "Berlin: 20 celsius",
+    );
+
+    await processor.forceFlush();
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span.name).toBe("getForecast");
+    expect(span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_TYPE]).toBe(
+      "tool",
+    );
+    expect(span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT]).toBe(
+      "Berlin: 20 celsius",
+    );
+  });
+
+  it("derives names from the class name", async () => {
+    class Base {
+      @observed({ includeClassName: true })
+      async run() {
+        return "done";
+      }
+
+      @observed({ includeClassName: true })
+      static create() {
+        return "created";
+      }
+    }
+    class Derived extends Base {}
+
+    await expect(new Derived().run()).resolves.toBe("done");
+    await new Base().run();
+    await new Derived().run();
+    Base.create();
+
+    expect(await exportedSpanNames()).toEqual([
+      "Derived.run",
+      "Base.run",
+      "Derived.run",
+      "Base.create",
+    ]);
+  });
+
+  it("prefers an explicit name", async () => {
+    class Service {
+      @observed({ name: "custom-name", includeClassName: true })
+      run() {}
+    }
+
+    new Service().run();
+
+    expect(await exportedSpanNames()).toEqual(["custom-name"]);
+  });
+
+  it("instruments all public methods of a decorated class", async () => {
+    @observedClass({ includeClassName: true, exclude: ["healthCheck"] })
+    class RetrievalService {
+      search(query: string) {
+        return this._normalize(query);
+      }
+
+      @observed({ asType: "retriever" })
+      rerank() {}
+
+      healthCheck() {}
+
+      get size() {
+        return 1;
+      }
+
+      _normalize(query: string) {
+        return query.toLowerCase();
+      }
+    }
+
+    const service = new RetrievalService();
+
+    expect(service.search("Query")).toBe("query");
+    service.rerank();
+    service.healthCheck();
+    expect(service.size).toBe(1);
+
+    expect(await exportedSpanNames()).toEqual([
+      "RetrievalService.search",
+      "rerank",
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+import { LangfuseAPIError, LangfuseOtelSpanAttributes } from "@langfuse/core";
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  observe,
+  setLangfuseTracerProvider,
+  startActiveObservation,
+  startObservation,
+} from "@langfuse/tracing";
+
+const Attr = LangfuseOtelSpanAttributes;
+
+// Mirrors the shape of the OpenAI SDK's APIError subclasses
+class RateLimitError extends Error {
+  status = 429;
+  code = "rate_limit_exceeded";
+  requestID = "req_123";
+  headers = new Headers({ "x-request-id": "req_123" });
+}
+
+describe("error capture", () => {
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  });
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  async function exportedSpan(name: string): Promise<ReadableSpan> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans().find((span) => span.name === name)!;
+  }
+
+  function errorMetadata(span: ReadableSpan) {
+    return JSON.parse(
+      span.attributes[`${Attr.OBSERVATION_METADATA}.error`] as string,
+    );
+  }
+
+  it("records errors with their cause chain as metadata and exception event", async () => {
+    const error = new TypeError("Failed to parse answer", {
+      cause: new Error("Unexpected token"),
+    });
+
+    startObservation("parse").recordError(error).end();
+
+    const span = await exportedSpan("parse");
+
+    expect(span.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: "Failed to parse answer",
+    });
+    expect(span.attributes[Attr.OBSERVATION_LEVEL]).toBe("ERROR");
+    expect(span.attributes[Attr.OBSERVATION_STATUS_MESSAGE]).toBe(
+      "Failed to parse answer",
+    );
+    expect(errorMetadata(span)).toEqual({
+      type: "TypeError",
+      message: "Failed to parse answer",
+      stack: expect.stringContaining("TypeError: Failed to parse answer"),
+      cause: {
+        type: "Error",
+        message: "Unexpected token",
+        stack: expect.any(String),
+      },
+    });
+
+    expect(span.events).toHaveLength(1);
+    expect(span.events[0].name).toBe("exception");
+    expect(span.events[0].attributes).toEqual({
+      "exception.type": "TypeError",
+      "exception.message": "Failed to parse answer",
+      "exception.stacktrace": expect.stringContaining(
+        "TypeError: Failed to parse answer",
+      ),
+      "exception.cause": expect.stringContaining('"Unexpected token"'),
+    });
+  });
+
+  it("records HTTP status and request id of API errors", async () => {
+    const apiError = new LangfuseAPIError({
+      message: "Not found",
+      statusCode: 404,
+      body: { message: "Prompt not found" },
+      rawResponse: {
+        headers: new Headers({ "x-request-id": "lf_456" }),
+        redirected: false,
+        status: 404,
+        statusText: "Not Found",
+        type: "basic",
+        url: "https://cloud.langfuse.com/api/public/v2/prompts/missing",
+      },
+    });
+
+    startObservation("get-prompt").recordError(apiError).end();
+    startObservation("llm-call", {}, { asType: "generation" })
+      .recordError(new RateLimitError("Rate limit reached"))
+      .end();
+
+    expect(errorMetadata(await exportedSpan("get-prompt"))).toMatchObject({
+      type: "LangfuseAPIError",
+      statusCode: 404,
+      requestId: "lf_456",
+    });
+    expect(errorMetadata(await exportedSpan("llm-call"))).toMatchObject({
+      type: "RateLimitError",
+      message: "Rate limit reached",
+      code: "rate_limit_exceeded",
+      statusCode: 429,
+      requestId: "req_123",
+    });
+  });
+
+  it("records expected errors as warnings without error status", async () => {
+    startObservation("cache-lookup")
+      .recordError("cache miss", { expected: true })
+      .end();
+
+    const span = await exportedSpan("cache-lookup");
+
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+    expect(span.attributes[Attr.OBSERVATION_LEVEL]).toBe("WARNING");
+    expect(errorMetadata(span)).toEqual({
+      type: "string",
+      message: "cache miss",
+    });
+  });
+
+  it("captures errors thrown in startActiveObservation and observe", async () => {
+    expect(() =>
+      startActiveObservation("sync", () => {
+        throw new RateLimitError("Rate limit reached");
+      }),
+    ).toThrow("Rate limit reached");
+
+    await expect(
+      startActiveObservation(
+        "async",
+        async () => {
+          throw new RateLimitError("Rate limit reached");
+        },
+        { isExpectedError: (error) => error instanceof RateLimitError },
+      ),
+    ).rejects.toThrow("Rate limit reached");
+
+    const failing = observe(
+      async () => {
+        throw new Error("boom", { cause: new RateLimitError("upstream") });
+      },
+      { name: "observed" },
+    );
+    await expect(failing()).rejects.toThrow("boom");
+
+    const sync = await exportedSpan("sync");
+    expect(sync.attributes[Attr.OBSERVATION_LEVEL]).toBe("ERROR");
+    expect(sync.events[0].name).toBe("exception");
+
+    const async = await exportedSpan("async");
+    expect(async.attributes[Attr.OBSERVATION_LEVEL]).toBe("WARNING");
+    expect(async.status.code).toBe(SpanStatusCode.UNSET);
+
+    const observed = await exportedSpan("observed");
+    expect(observed.attributes[Attr.OBSERVATION_LEVEL]).toBe("ERROR");
+    expect(observed.attributes[Attr.OBSERVATION_OUTPUT]).toBe(
+      JSON.stringify({ error: "Error: boom" }),
+    );
+    expect(errorMetadata(observed).cause).toMatchObject({
+      type: "RateLimitError",
+      statusCode: 429,
+    });
+  });
+});
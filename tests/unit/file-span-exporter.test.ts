@@ -0,0 +1,168 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  FileSpanExporter,
+  LangfuseSpanProcessor,
+  replaySpanFiles,
+} from "@langfuse/otel";
+import { BasicTracerProvider } from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { setLangfuseTracerProvider, startObservation } from "@langfuse/tracing";
+
+describe("FileSpanExporter", () => {
+  let directory: string;
+  let provider: BasicTracerProvider;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "langfuse-spans-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    setLangfuseTracerProvider(null);
+    await provider?.shutdown();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function setup(params: { maxFileSize?: number; maxFiles?: number } = {}) {
+    const exporter = new FileSpanExporter({ directory, ...params });
+    const processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+      mask: ({ data }) =>
+        typeof data === "string" ? data.replace(/secret/g, "***") : data,
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+
+    return processor;
+  }
+
+  async function readLines(): Promise<any[]> {
+    const files = (await readdir(directory)).sort();
+    const contents = await Promise.all(
+      files.map((file) => readFile(join(directory, file), "utf8")),
+    );
+
+    return contents
+      .join("")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  }
+
+  it("writes processed spans as OTLP-JSON lines", async () => {
+    const processor = setup();
+
+    const span = startObservation("answer", { input: "my secret question" });
+    span.end();
+    await processor.forceFlush();
+
+    const [request] = await readLines();
+    const [otlpSpan] = request.resourceSpans[0].scopeSpans[0].spans;
+
+    expect(otlpSpan).toMatchObject({
+      traceId: span.traceId,
+      spanId: span.id,
+      name: "answer",
+    });
+    expect(otlpSpan.attributes).toContainEqual({
+      key: LangfuseOtelSpanAttributes.OBSERVATION_INPUT,
+      value: { stringValue: "my *** question" },
+    });
+  });
+
+  it("rotates files by size and keeps the newest files", async () => {
+    const processor = setup({ maxFileSize: 1, maxFiles: 2 });
+
+    for (const name of ["first", "second", "third"]) {
+      startObservation(name).end();
+    }
+    await processor.forceFlush();
+
+    const files = (await readdir(directory)).sort();
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatch(/^langfuse-spans-\d+-0001\.jsonl$/);
+
+    const names = (await readLines()).map(
+      (request) => request.resourceSpans[0].scopeSpans[0].spans[0].name,
+    );
+    expect(names).toEqual(["second", "third"]);
+  });
+
+  it("replays span files in batches and skips invalid lines", async () => {
+    const processor = setup();
+
+    const spanIds = ["first", "second", "third"].map((name) => {
+      const span = startObservation(name);
+      span.end();
+
+      return span.id;
+    });
+    await processor.forceFlush();
+    await writeFile(join(directory, "langfuse-spans-9-0000.jsonl"), "{trunc");
+
+    const fetchMock = vi.fn(async () => new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await replaySpanFiles({
+      paths: [directory],
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+      baseUrl: "https://langfuse.example.com",
+      batchSize: 2,
+    });
+
+    expect(result).toEqual({
+      files: 2,
+      requests: 2,
+      spans: 3,
+      skippedLines: 1,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe("https://langfuse.example.com/api/public/otel/v1/traces");
+    expect(init.headers).toMatchObject({
+      "Content-Type": "application/json",
+      Authorization: `Basic ${btoa("pk-lf-test:sk-lf-test")}`,
+    });
+
+    const uploadedSpanIds = fetchMock.mock.calls.flatMap((call) =>
+      JSON.parse(
+        (call as unknown as [string, RequestInit])[1].body as string,
+      ).resourceSpans.flatMap((resourceSpans: any) =>
+        resourceSpans.scopeSpans.flatMap((scopeSpans: any) =>
+          scopeSpans.spans.map((span: any) => span.spanId),
+        ),
+      ),
+    );
+    expect(uploadedSpanIds).toEqual(spanIds);
+  });
+
+  it("throws if an upload fails", async () => {
+    const processor = setup();
+    startObservation("answer").end();
+    await processor.forceFlush();
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("Unauthorized", { status: 401 })),
+    );
+
+    await expect(
+      replaySpanFiles({
+        paths: [directory],
+        publicKey: "pk-lf-test",
+        secretKey: "sk-lf-test",
+      }),
+    ).rejects.toThrow("Failed to upload spans: 401");
+  });
+});
@@ -0,0 +1,161 @@
+import { getLangfuseTraceIdFromBaggage } from "@langfuse/core";
+import { context, propagation, trace } from "@opentelemetry/api";
+import { BasicTracerProvider } from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  extractParentSpanContext,
+  extractTraceContext,
+  injectTraceContext,
+  setLangfuseTracerProvider,
+  startObservation,
+} from "@langfuse/tracing";
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const SPAN_ID = "b7ad6b7169203331";
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe("trace context headers", () => {
+  let provider: BasicTracerProvider;
+
+  beforeEach(() => {
+    provider = new BasicTracerProvider();
+    setLangfuseTracerProvider(provider);
+  });
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  describe("extractParentSpanContext", () => {
+    it("parses traceparent and tracestate", () => {
+      const spanContext = extractParentSpanContext({
+        Traceparent: TRACEPARENT,
+        tracestate: "vendor=value",
+      });
+
+      expect(spanContext).toMatchObject({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: 1,
+        isRemote: true,
+      });
+      expect(spanContext?.traceState?.get("vendor")).toBe("value");
+    });
+
+    it("reads fetch Headers", () => {
+      const headers = new Headers({ traceparent: TRACEPARENT });
+
+      expect(extractParentSpanContext(headers)?.traceId).toBe(TRACE_ID);
+    });
+
+    it.each([
+      ["missing", undefined],
+      ["malformed", "not-a-traceparent"],
+      ["all-zero trace id", `00-${"0".repeat(32)}-${SPAN_ID}-01`],
+      ["all-zero span id", `00-${TRACE_ID}-${"0".repeat(16)}-01`],
+      ["version ff", `ff-${TRACE_ID}-${SPAN_ID}-01`],
+      ["extra fields in version 00", `${TRACEPARENT}-extra`],
+    ])("ignores a %s traceparent", (_, traceparent) => {
+      expect(extractParentSpanContext({ traceparent })).toBeUndefined();
+    });
+
+    it("continues the incoming trace", () => {
+      const span = startObservation(
+        "handle-request",
+        {},
+        {
+          parentSpanContext: extractParentSpanContext({
+            traceparent: TRACEPARENT,
+          }),
+        },
+      );
+
+      expect(span.traceId).toBe(TRACE_ID);
+    });
+  });
+
+  describe("extractTraceContext", () => {
+    it("carries the remote parent and baggage", () => {
+      const extracted = extractTraceContext({
+        traceparent: TRACEPARENT,
+        baggage: `langfuse_trace_id=${TRACE_ID.toUpperCase()},langfuse_user_id=user%201;prop=1`,
+      });
+
+      expect(trace.getSpanContext(extracted)?.spanId).toBe(SPAN_ID);
+      expect(getLangfuseTraceIdFromBaggage(extracted)).toBe(TRACE_ID);
+
+      const userId = propagation
+        .getBaggage(extracted)
+        ?.getEntry("langfuse_user_id");
+      expect(userId?.value).toBe("user 1");
+      expect(userId?.metadata?.toString()).toBe("prop=1");
+    });
+
+    it("returns the base context without headers", () => {
+      const base = context.active();
+
+      expect(extractTraceContext({}, base)).toBe(base);
+    });
+  });
+
+  describe("injectTraceContext", () => {
+    it("writes headers for an observation", () => {
+      const span = startObservation("call-service");
+
+      const headers = injectTraceContext(
+        { "content-type": "text/plain" },
+        span,
+      );
+
+      expect(headers).toEqual({
+        "content-type": "text/plain",
+        traceparent: `00-${span.traceId}-${span.id}-01`,
+        baggage: `langfuse_trace_id=${span.traceId}`,
+      });
+    });
+
+    it("writes headers from a context and replaces differently cased keys", () => {
+      const extracted = extractTraceContext({
+        traceparent: TRACEPARENT,
+        tracestate: "vendor=value",
+        baggage: "langfuse_session_id=s%2C1",
+      });
+
+      const headers = injectTraceContext(
+        { TraceParent: "00-old-old-00" },
+        extracted,
+      );
+
+      expect(headers).toEqual({
+        traceparent: TRACEPARENT,
+        tracestate: "vendor=value",
+        baggage: "langfuse_session_id=s%2C1",
+      });
+    });
+
+    it("writes to fetch Headers", () => {
+      const span = startObservation("call-service");
+
+      const headers = injectTraceContext(new Headers(), span);
+
+      expect(headers.get("traceparent")).toBe(
+        `00-${span.traceId}-${span.id}-01`,
+      );
+    });
+
+    it("round-trips through extraction", () => {
+      const span = startObservation("producer");
+
+      const extracted = extractTraceContext(injectTraceContext({}, span));
+
+      expect(trace.getSpanContext(extracted)?.spanId).toBe(span.id);
+      expect(getLangfuseTraceIdFromBaggage(extracted)).toBe(span.traceId);
+    });
+
+    it("writes nothing without an active span or baggage", () => {
+      expect(injectTraceContext()).toEqual({});
+    });
+  });
+});
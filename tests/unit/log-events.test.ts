@@ -0,0 +1,102 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { setLangfuseTracerProvider, startObservation } from "@langfuse/tracing";
+
+const Attr = LangfuseOtelSpanAttributes;
+
+describe("observation log entries", () => {
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+  let exporter: InMemorySpanExporter;
+
+  function setup(
+    params: ConstructorParameters<typeof LangfuseSpanProcessor>[0] = {},
+  ) {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+      ...params,
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  }
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  async function exportedSpans(): Promise<ReadableSpan[]> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans();
+  }
+
+  it("exports log entries as event observations of the logging observation", async () => {
+    setup();
+
+    const agent = startObservation("agent", {}, { asType: "agent" });
+    agent.otelSpan.setAttribute(Attr.TRACE_USER_ID, "user-1");
+    agent
+      .log("Cache hit", { metadata: { key: "weather:berlin" } }, "DEBUG")
+      .log("Retrying search", { input: { attempt: 2 } }, "WARNING");
+    agent.end();
+
+    const spans = await exportedSpans();
+    expect(spans.map((span) => span.name)).toEqual([
+      "agent",
+      "Cache hit",
+      "Retrying search",
+    ]);
+
+    const [parent, cacheHit, retry] = spans;
+    expect(parent.events).toEqual([]);
+
+    for (const event of [cacheHit, retry]) {
+      expect(event.spanContext().traceId).toBe(agent.traceId);
+      expect(event.spanContext().spanId).not.toBe(agent.id);
+      expect(event.parentSpanContext?.spanId).toBe(agent.id);
+      expect(event.attributes[Attr.OBSERVATION_TYPE]).toBe("event");
+      expect(event.attributes[Attr.TRACE_USER_ID]).toBe("user-1");
+      expect(event.startTime).toEqual(event.endTime);
+      expect(hrTimeToMilliseconds(event.startTime)).toBeGreaterThanOrEqual(
+        hrTimeToMilliseconds(parent.startTime),
+      );
+    }
+
+    expect(cacheHit.attributes[Attr.OBSERVATION_LEVEL]).toBe("DEBUG");
+    expect(cacheHit.attributes[`${Attr.OBSERVATION_METADATA}.key`]).toBe(
+      "weather:berlin",
+    );
+    expect(retry.attributes[Attr.OBSERVATION_LEVEL]).toBe("WARNING");
+    expect(retry.attributes[Attr.OBSERVATION_INPUT]).toBe(
+      JSON.stringify({ attempt: 2 }),
+    );
+  });
+
+  it("keeps other span events and masks log entry payloads", async () => {
+    setup({
+      mask: ({ data }) =>
+        typeof data === "string" ? data.replace(/secret/g, "***") : data,
+    });
+
+    startObservation("tool")
+      .log("Calling API", { input: "token=secret" })
+      .recordError(new Error("Timeout"))
+      .end();
+
+    const [parent, log] = await exportedSpans();
+
+    expect(parent.events.map((event) => event.name)).toEqual(["exception"]);
+    expect(log.attributes[Attr.OBSERVATION_INPUT]).toBe("token=***");
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  LANGFUSE_TRACER_NAME,
+  LangfuseOtelSpanAttributes,
+} from "@langfuse/core";
+import type { Attributes } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  LangfuseSpanProcessor,
+  type LangfuseMaskingEvent,
+  type LangfuseSpanProcessorParams,
+} from "@langfuse/otel";
+
+let provider: BasicTracerProvider | undefined;
+
+async function exportSpan(
+  attributes: Attributes,
+  params: Pick<LangfuseSpanProcessorParams, "mask" | "masking">,
+): Promise<ReadableSpan> {
+  const exporter = new InMemorySpanExporter();
+  const processor = new LangfuseSpanProcessor({
+    exporter,
+    exportMode: "immediate",
+    ...params,
+  });
+  provider = new BasicTracerProvider({ spanProcessors: [processor] });
+
+  provider
+    .getTracer(LANGFUSE_TRACER_NAME)
+    .startSpan("span", { attributes })
+    .end();
+  await processor.forceFlush();
+
+  const [span] = exporter.getFinishedSpans();
+
+  return span;
+}
+
+afterEach(async () => {
+  await provider?.shutdown();
+  provider = undefined;
+});
+
+describe("LangfuseSpanProcessor mask function", () => {
+  it("masks flattened metadata keys", async () => {
+    const span = await exportSpan(
+      {
+        [`${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.apiKey`]: "secret",
+        [`${LangfuseOtelSpanAttributes.TRACE_METADATA}.user`]:
+          '{"email":"a@b.c"}',
+        "other.attribute": "secret",
+      },
+      { mask: () => "MASKED" },
+    );
+
+    expect(
+      span.attributes[
+        `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.apiKey`
+      ],
+    ).toBe("MASKED");
+    expect(
+      span.attributes[`${LangfuseOtelSpanAttributes.TRACE_METADATA}.user`],
+    ).toBe("MASKED");
+    expect(span.attributes["other.attribute"]).toBe("secret");
+  });
+});
+
+describe("LangfuseSpanProcessor masking rules", () => {
+  it("masks JSON paths within input and output", async () => {
+    const span = await exportSpan(
+      {
+        [LangfuseOtelSpanAttributes.OBSERVATION_INPUT]: JSON.stringify({
+          customer: { email: "a@b.c", name: "Ada" },
+        }),
+        [LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT]: JSON.stringify({
+          messages: [{ content: "hi" }, { content: "there" }],
+        }),
+      },
+      {
+        masking: {
+          rules: [
+            {
+              name: "pii",
+              paths: ["$.input.customer.email", "$.output.messages[*].content"],
+            },
+          ],
+        },
+      },
+    );
+
+    expect(
+      JSON.parse(
+        span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_INPUT] as string,
+      ),
+    ).toEqual({ customer: { email: "<masked>", name: "Ada" } });
+    expect(
+      JSON.parse(
+        span.attributes[
+          LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT
+        ] as string,
+      ),
+    ).toEqual({ messages: [{ content: "<masked>" }, { content: "<masked>" }] });
+  });
+
+  it("masks paths into flattened metadata", async () => {
+    const span = await exportSpan(
+      {
+        [`${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.token`]: "abc",
+        [`${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.contacts`]:
+          JSON.stringify([{ email: "a@b.c" }]),
+        [`${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.region`]: "eu",
+      },
+      {
+        masking: {
+          rules: [
+            {
+              name: "metadata",
+              paths: ["$.metadata.token", "$.metadata['contacts'][0].email"],
+            },
+          ],
+        },
+      },
+    );
+
+    const prefix = LangfuseOtelSpanAttributes.OBSERVATION_METADATA;
+    expect(span.attributes[`${prefix}.token`]).toBe("<masked>");
+    expect(JSON.parse(span.attributes[`${prefix}.contacts`] as string)).toEqual(
+      [{ email: "<masked>" }],
+    );
+    expect(span.attributes[`${prefix}.region`]).toBe("eu");
+  });
+
+  it("masks attribute keys matching a glob", async () => {
+    const span = await exportSpan(
+      {
+        "gen_ai.prompt.0.content": "hello",
+        "gen_ai.completion.0.content": "world",
+      },
+      {
+        masking: {
+          rules: [
+            {
+              name: "prompts",
+              attributes: ["gen_ai.prompt.*"],
+              replacement: "",
+            },
+          ],
+        },
+      },
+    );
+
+    expect(span.attributes["gen_ai.prompt.0.content"]).toBe("");
+    expect(span.attributes["gen_ai.completion.0.content"]).toBe("world");
+  });
+
+  it("only applies rules to the configured observation types", async () => {
+    const masking = {
+      rules: [
+        {
+          name: "generation-input",
+          paths: ["$.input"],
+          observationTypes: ["generation"],
+        },
+      ],
+    };
+
+    const generation = await exportSpan(
+      {
+        [LangfuseOtelSpanAttributes.OBSERVATION_TYPE]: "generation",
+        [LangfuseOtelSpanAttributes.OBSERVATION_INPUT]: "prompt",
+      },
+      { masking },
+    );
+    const span = await exportSpan(
+      {
+        [LangfuseOtelSpanAttributes.OBSERVATION_TYPE]: "span",
+        [LangfuseOtelSpanAttributes.OBSERVATION_INPUT]: "prompt",
+      },
+      { masking },
+    );
+
+    expect(
+      generation.attributes[LangfuseOtelSpanAttributes.OBSERVATION_INPUT],
+    ).toBe("<masked>");
+    expect(span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_INPUT]).toBe(
+      "prompt",
+    );
+  });
+
+  it("reports masked values to the audit callback and then applies mask", async () => {
+    const events: LangfuseMaskingEvent[] = [];
+
+    const span = await exportSpan(
+      {
+        [LangfuseOtelSpanAttributes.OBSERVATION_TYPE]: "generation",
+        [LangfuseOtelSpanAttributes.TRACE_INPUT]: JSON.stringify({
+          users: [{ ssn: "1" }, { ssn: "2" }],
+        }),
+      },
+      {
+        masking: {
+          rules: [{ name: "ssn", paths: ["$.input.users[*].ssn"] }],
+          onMask: (event) => events.push(event),
+        },
+        mask: ({ data }) => `${data}!`,
+      },
+    );
+
+    expect(events.map((e) => [e.rule, e.attribute, e.path])).toEqual([
+      ["ssn", LangfuseOtelSpanAttributes.TRACE_INPUT, "$.input.users[0].ssn"],
+      ["ssn", LangfuseOtelSpanAttributes.TRACE_INPUT, "$.input.users[1].ssn"],
+    ]);
+    expect(events[0]).toMatchObject({
+      traceId: span.spanContext().traceId,
+      spanId: span.spanContext().spanId,
+      observationType: "generation",
+    });
+    expect(span.attributes[LangfuseOtelSpanAttributes.TRACE_INPUT]).toBe(
+      `${JSON.stringify({ users: [{ ssn: "<masked>" }, { ssn: "<masked>" }] })}!`,
+    );
+  });
+
+  it("ignores invalid paths", async () => {
+    const span = await exportSpan(
+      { [LangfuseOtelSpanAttributes.OBSERVATION_INPUT]: "value" },
+      {
+        masking: {
+          rules: [{ name: "invalid", paths: ["input.value", "$.unknown"] }],
+        },
+      },
+    );
+
+    expect(span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_INPUT]).toBe(
+      "value",
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import type { ScoreBody } from "@langfuse/core";
+import { BasicTracerProvider } from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LangfuseClient } from "@langfuse/client";
+import {
+  getLangfuseScoreSink,
+  setLangfuseScoreSink,
+  setLangfuseTracerProvider,
+  startObservation,
+} from "@langfuse/tracing";
+
+describe("observation scores", () => {
+  let provider: BasicTracerProvider;
+  let scores: ScoreBody[];
+
+  beforeEach(() => {
+    provider = new BasicTracerProvider();
+    setLangfuseTracerProvider(provider);
+
+    scores = [];
+    setLangfuseScoreSink({ create: (score) => scores.push(score) });
+  });
+
+  afterEach(async () => {
+    setLangfuseScoreSink(null);
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  it("scores the observation", () => {
+    const guardrail = startObservation(
+      "pii-check",
+      {},
+      { asType: "guardrail" },
+    );
+
+    guardrail
+      .score({ name: "pii-detected", value: 0, dataType: "BOOLEAN" })
+      .end();
+
+    expect(scores).toEqual([
+      {
+        name: "pii-detected",
+        value: 0,
+        dataType: "BOOLEAN",
+        traceId: guardrail.traceId,
+        observationId: guardrail.id,
+      },
+    ]);
+  });
+
+  it("scores the trace of the observation", () => {
+    const evaluator = startObservation("eval", {}, { asType: "evaluator" });
+
+    evaluator.scoreTrace({ name: "correctness", value: 0.8 });
+
+    expect(scores).toEqual([
+      { name: "correctness", value: 0.8, traceId: evaluator.traceId },
+    ]);
+  });
+
+  it("drops scores without a sink", () => {
+    setLangfuseScoreSink(null);
+
+    expect(() =>
+      startObservation("span").score({ name: "quality", value: 1 }),
+    ).not.toThrow();
+  });
+
+  it("does not throw when the sink fails", () => {
+    setLangfuseScoreSink({
+      create: () => {
+        throw new Error("queue full");
+      },
+    });
+
+    expect(() =>
+      startObservation("span").score({ name: "quality", value: 1 }),
+    ).not.toThrow();
+  });
+
+  it("registers the score manager of the first LangfuseClient", async () => {
+    setLangfuseScoreSink(null);
+
+    const first = new LangfuseClient({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+    });
+    const second = new LangfuseClient({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+    });
+
+    expect(getLangfuseScoreSink()).toBe(first.score);
+
+    await Promise.all([first.shutdown(), second.shutdown()]);
+  });
+
+  it("registers a new LangfuseClient once the previous one is shut down", async () => {
+    setLangfuseScoreSink(null);
+
+    const first = new LangfuseClient({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+    });
+    await first.shutdown();
+
+    expect(getLangfuseScoreSink()).toBeNull();
+
+    const second = new LangfuseClient({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+    });
+
+    expect(getLangfuseScoreSink()).toBe(second.score);
+
+    await second.shutdown();
+  });
+});
@@ -0,0 +1,201 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import { observe, setLangfuseTracerProvider } from "@langfuse/tracing";
+
+const INPUT = LangfuseOtelSpanAttributes.OBSERVATION_INPUT;
+const OUTPUT = LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT;
+
+describe("observe input and output options", () => {
+  let exporter: InMemorySpanExporter;
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+
+  async function exportedSpan(): Promise<ReadableSpan> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans()[0];
+  }
+
+  async function exportedInput(): Promise<unknown> {
+    const input = (await exportedSpan()).attributes[INPUT];
+
+    return input === undefined ? undefined : JSON.parse(input as string);
+  }
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  });
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  it("records positional arguments by default", async () => {
+    observe((a: number, b: number) => a + b)(1, 2);
+
+    expect(await exportedInput()).toEqual([1, 2]);
+  });
+
+  it("maps arguments to parameter names", async () => {
+    function search(
+      query: string,
+      /* comment, with comma */ limit = Math.max(1, 2),
+      { filter }: { filter?: string } = {},
+      ...tags: string[]
+    ) {
+      return [query, limit, filter, tags];
+    }
+
+    observe(search, { argumentNames: true })("q", 5, { filter: "f" }, "a", "b");
+
+    expect(await exportedInput()).toEqual({
+      query: "q",
+      limit: 5,
+      arg2: { filter: "f" },
+      tags: ["a", "b"],
+    });
+  });
+
+  it("maps arguments of arrow functions and explicit names", async () => {
+    observe((text: string) => text, { argumentNames: true })("hi");
+    observe((a: number, b: number) => a + b, { argumentNames: ["x", "y"] })(
+      1,
+      2,
+    );
+
+    await processor.forceFlush();
+    const [first, second] = exporter.getFinishedSpans();
+
+    expect(JSON.parse(first.attributes[INPUT] as string)).toEqual({
+      text: "hi",
+    });
+    expect(JSON.parse(second.attributes[INPUT] as string)).toEqual({
+      x: 1,
+      y: 2,
+    });
+  });
+
+  it("excludes arguments by name and position", async () => {
+    const db = { query: () => "row" };
+    const signal = new AbortController().signal;
+
+    observe(
+      (client: typeof db, id: string, abortSignal: AbortSignal) =>
+        abortSignal.aborted ? undefined : client.query(),
+      { excludeArguments: ["client", 2] },
+    )(db, "id-1", signal);
+
+    expect((await exportedSpan()).attributes[INPUT]).toBe("id-1");
+  });
+
+  it("applies input and output transformers", async () => {
+    observe((password: string, user: string) => ({ user, token: "secret" }), {
+      transformInput: (args) => ({ user: args[1] }),
+      transformOutput: (result) => ({
+        user: (result as { user: string }).user,
+      }),
+    })("hunter2", "alice");
+
+    const span = await exportedSpan();
+
+    expect(JSON.parse(span.attributes[INPUT] as string)).toEqual({
+      user: "alice",
+    });
+    expect(JSON.parse(span.attributes[OUTPUT] as string)).toEqual({
+      user: "alice",
+    });
+  });
+
+  it("records a marker when a transformer throws", async () => {
+    const result = observe((value: string) => value, {
+      transformOutput: () => {
+        throw new Error("boom");
+      },
+    })("value");
+
+    const span = await exportedSpan();
+
+    expect(result).toBe("value");
+    expect(span.attributes[OUTPUT]).toBe("<failed to capture output>");
+  });
+
+  it("sets observation attributes from the result", async () => {
+    const generate = observe(
+      async (prompt: string) => ({
+        text: `echo: ${prompt}`,
+        model: "gpt-4o",
+        usage: { input: 3, output: 5 },
+      }),
+      {
+        asType: "generation",
+        transformOutput: (completion) => (completion as { text: string }).text,
+        attributesFromResult: (completion) => ({
+          model: completion.model,
+          usageDetails: completion.usage,
+          metadata: { finishReason: "stop" },
+        }),
+      },
+    );
+
+    await generate("hello");
+
+    const span = await exportedSpan();
+
+    expect(span.attributes[OUTPUT]).toBe("echo: hello");
+    expect(span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_MODEL]).toBe(
+      "gpt-4o",
+    );
+    expect(
+      JSON.parse(
+        span.attributes[
+          LangfuseOtelSpanAttributes.OBSERVATION_USAGE_DETAILS
+        ] as string,
+      ),
+    ).toEqual({ input: 3, output: 5 });
+    expect(
+      span.attributes[
+        `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.finishReason`
+      ],
+    ).toBe("stop");
+  });
+
+  it("derives attributes from reduced stream output", async () => {
+    const stream = observe(
+      async function* () {
+        yield "a";
+        yield "b";
+      },
+      {
+        captureOutput: false,
+        attributesFromResult: (text) => ({ metadata: { length: text.length } }),
+      },
+    );
+
+    for await (const _ of stream()) {
+      // consume
+    }
+
+    const span = await exportedSpan();
+
+    expect(span.attributes[OUTPUT]).toBeUndefined();
+    expect(
+      span.attributes[
+        `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.length`
+      ],
+    ).toBe("2");
+  });
+});
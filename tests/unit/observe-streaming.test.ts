@@ -0,0 +1,233 @@
+import { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import { observe, setLangfuseTracerProvider } from "@langfuse/tracing";
+
+const OUTPUT = LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT;
+const LEVEL = LangfuseOtelSpanAttributes.OBSERVATION_LEVEL;
+const COMPLETION_START_TIME =
+  LangfuseOtelSpanAttributes.OBSERVATION_COMPLETION_START_TIME;
+
+describe("observe with streaming return values", () => {
+  let exporter: InMemorySpanExporter;
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+
+  async function exportedSpans(): Promise<ReadableSpan[]> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans();
+  }
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  });
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  it("keeps the observation open until an async generator completes", async () => {
+    const streamAnswer = observe(
+      async function* () {
+        yield "Hello";
+        yield ", world";
+      },
+      { name: "stream-answer", asType: "generation" },
+    );
+
+    const stream = streamAnswer();
+    expect(await exportedSpans()).toHaveLength(0);
+
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    const [span] = await exportedSpans();
+
+    expect(chunks).toEqual(["Hello", ", world"]);
+    expect(span.name).toBe("stream-answer");
+    expect(span.attributes[OUTPUT]).toBe("Hello, world");
+    expect(span.attributes[COMPLETION_START_TIME]).toBeDefined();
+  });
+
+  it("ends the observation when iteration is broken out of", async () => {
+    const numbers = observe(function* () {
+      yield 1;
+      yield 2;
+      yield 3;
+    });
+
+    for (const n of numbers()) {
+      if (n === 2) break;
+    }
+
+    const [span] = await exportedSpans();
+
+    expect(JSON.parse(span.attributes[OUTPUT] as string)).toEqual([1, 2]);
+  });
+
+  it("records errors thrown during iteration", async () => {
+    const failing = observe(async function* () {
+      yield "partial";
+      throw new Error("stream failed");
+    });
+
+    await expect(async () => {
+      for await (const _ of failing()) {
+        // consume
+      }
+    }).rejects.toThrow("stream failed");
+
+    const [span] = await exportedSpans();
+
+    expect(span.attributes[LEVEL]).toBe("ERROR");
+    expect(
+      span.attributes[LangfuseOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE],
+    ).toBe("stream failed");
+  });
+
+  it("applies a custom reducer", async () => {
+    const streamEvents = observe(
+      async function* () {
+        yield { delta: "a", tokens: 1 };
+        yield { delta: "b", tokens: 2 };
+      },
+      {
+        reduceStreamOutput: (chunks) => ({
+          text: (chunks as { delta: string }[]).map((c) => c.delta).join(""),
+        }),
+      },
+    );
+
+    for await (const _ of streamEvents()) {
+      // consume
+    }
+
+    const [span] = await exportedSpans();
+
+    expect(JSON.parse(span.attributes[OUTPUT] as string)).toEqual({
+      text: "ab",
+    });
+  });
+
+  it("observes ReadableStreams returned by async functions", async () => {
+    const streamText = observe(async () => {
+      return new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue("foo");
+          controller.enqueue("bar");
+          controller.close();
+        },
+      });
+    });
+
+    const stream = await streamText();
+    const reader = stream.getReader();
+    const chunks: string[] = [];
+
+    for (let r = await reader.read(); !r.done; r = await reader.read()) {
+      chunks.push(r.value);
+    }
+
+    const [span] = await exportedSpans();
+
+    expect(chunks).toEqual(["foo", "bar"]);
+    expect(span.attributes[OUTPUT]).toBe("foobar");
+  });
+
+  it("keeps other members of async iterable objects", async () => {
+    class SdkStream {
+      controller = "abort-controller";
+
+      async *[Symbol.asyncIterator]() {
+        yield "x";
+      }
+    }
+
+    const stream = await observe(async () => new SdkStream(), {
+      observeAsyncIterables: true,
+    })();
+
+    expect(stream).toBeInstanceOf(SdkStream);
+    expect(stream.controller).toBe("abort-controller");
+
+    for await (const _ of stream) {
+      // consume
+    }
+
+    const [span] = await exportedSpans();
+
+    expect(span.attributes[OUTPUT]).toBe("x");
+  });
+
+  it("ends observations of Readables consumed with pipe()", async () => {
+    const chunks: string[] = [];
+    const sink = () =>
+      new Writable({
+        write(chunk, _encoding, callback) {
+          chunks.push(String(chunk));
+          callback();
+        },
+      });
+
+    const readText = observe(async () => Readable.from(["a", "b"]), {
+      name: "read-text",
+      captureOutput: false,
+    });
+    await pipeline(await readText(), sink());
+
+    const readOptIn = observe(async () => Readable.from(["c"]), {
+      name: "read-opt-in",
+      observeAsyncIterables: true,
+    });
+    await pipeline(await readOptIn(), sink());
+
+    const spans = await exportedSpans();
+
+    expect(chunks).toEqual(["a", "b", "c"]);
+    expect(spans.map((span) => span.name)).toEqual([
+      "read-text",
+      "read-opt-in",
+    ]);
+  });
+
+  it("ends the observation of streams that are never read", async () => {
+    const neverRead = observe(
+      async function* () {
+        yield "unused";
+      },
+      { streamTimeoutMs: 10 },
+    );
+
+    neverRead();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(await exportedSpans()).toHaveLength(1);
+  });
+
+  it("does not treat arrays as streams", async () => {
+    observe(() => ["a", "b"])();
+
+    const [span] = await exportedSpans();
+
+    expect(JSON.parse(span.attributes[OUTPUT] as string)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,307 @@
+import { LangfuseAPIClient, LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  LangfuseModelPriceRegistry,
+  LangfuseSpanProcessor,
+  type LangfusePricingConfig,
+} from "@langfuse/otel";
+import { setLangfuseTracerProvider, startObservation } from "@langfuse/tracing";
+
+const COST_DETAILS = LangfuseOtelSpanAttributes.OBSERVATION_COST_DETAILS;
+const PRICING_METADATA = `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.pricing`;
+
+describe("LangfuseModelPriceRegistry", () => {
+  it("calculates costs from bundled prices", () => {
+    const registry = new LangfuseModelPriceRegistry();
+
+    const calculation = registry.calculateCost("gpt-4o-2024-08-06", {
+      input: 1_000,
+      input_cached_tokens: 1_000,
+      output: 100,
+    });
+
+    expect(calculation?.modelName).toBe("gpt-4o");
+    expect(calculation?.source).toBe("bundled");
+    expect(calculation?.costDetails.input).toBeCloseTo(0.0025);
+    expect(calculation?.costDetails.input_cached_tokens).toBeCloseTo(0.00125);
+    expect(calculation?.costDetails.output).toBeCloseTo(0.001);
+    expect(calculation?.costDetails.total).toBeCloseTo(0.00475);
+  });
+
+  it("returns undefined for unknown models", () => {
+    const registry = new LangfuseModelPriceRegistry();
+
+    expect(registry.calculateCost("my-model", { input: 1 })).toBeUndefined();
+  });
+
+  it("matches dots in bundled model names literally", () => {
+    const registry = new LangfuseModelPriceRegistry();
+
+    expect(
+      registry.calculateCost("gpt-4.1-mini", { input: 1 })?.modelName,
+    ).toBe("gpt-4.1-mini");
+    expect(registry.calculateCost("gpt-401", { input: 1 })).toBeUndefined();
+    expect(
+      registry.calculateCost("gpt-4x1-mini", { input: 1 }),
+    ).toBeUndefined();
+    expect(
+      registry.calculateCost("gemini-2x5-pro", { input: 1 }),
+    ).toBeUndefined();
+  });
+
+  it("prefers registered over bundled definitions", () => {
+    const registry = new LangfuseModelPriceRegistry().register({
+      modelName: "gpt-4o-discounted",
+      matchPattern: "(?i)^gpt-4o$",
+      prices: { input: 0.000001, output: 0.000002 },
+    });
+
+    const calculation = registry.calculateCost("GPT-4o", {
+      input: 10,
+      output: 10,
+    });
+
+    expect(calculation?.modelName).toBe("gpt-4o-discounted");
+    expect(calculation?.source).toBe("custom");
+  });
+
+  it("uses the newest definition started before the observation", () => {
+    const registry = new LangfuseModelPriceRegistry({
+      includeBundled: false,
+      models: [
+        {
+          modelName: "old",
+          matchPattern: "^model$",
+          prices: { input: 1 },
+        },
+        {
+          modelName: "new",
+          matchPattern: "^model$",
+          startDate: "2025-01-01T00:00:00Z",
+          prices: { input: 2 },
+        },
+      ],
+    });
+
+    expect(registry.findModel("model", new Date("2024-06-01"))?.modelName).toBe(
+      "old",
+    );
+    expect(registry.findModel("model", new Date("2025-06-01"))?.modelName).toBe(
+      "new",
+    );
+  });
+
+  it("selects pricing tiers by usage and attributes", () => {
+    const registry = new LangfuseModelPriceRegistry({
+      includeBundled: false,
+      models: [
+        {
+          modelName: "tiered",
+          matchPattern: "^tiered$",
+          pricingTiers: [
+            { name: "Standard", prices: { input: 1 } },
+            {
+              name: "Large Context",
+              priority: 2,
+              conditions: [
+                {
+                  usageDetailPattern: "^input",
+                  operator: "gt",
+                  value: 100,
+                  caseSensitive: false,
+                },
+              ],
+              prices: { input: 2 },
+            },
+            {
+              name: "Priority",
+              priority: 1,
+              conditions: [
+                {
+                  source: "model_parameters",
+                  key: "service_tier",
+                  operator: "in",
+                  values: ["priority"],
+                },
+              ],
+              prices: { input: 3 },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(registry.calculateCost("tiered", { input: 10 })?.tier).toBe(
+      "Standard",
+    );
+    expect(
+      registry.calculateCost("tiered", { input: 60, input_cached: 60 }),
+    ).toMatchObject({ tier: "Large Context", costDetails: { total: 120 } });
+    expect(
+      registry.calculateCost(
+        "tiered",
+        { input: 200 },
+        { modelParameters: { service_tier: "priority" } },
+      ),
+    ).toMatchObject({ tier: "Priority", costDetails: { total: 600 } });
+  });
+
+  it("loads definitions from JSON in both formats", () => {
+    const registry = new LangfuseModelPriceRegistry({ includeBundled: false });
+
+    registry.loadJson(
+      JSON.stringify([
+        { modelName: "a", matchPattern: "^a$", prices: { input: 1 } },
+      ]),
+    );
+    registry.loadJson({
+      data: [
+        {
+          id: "m1",
+          modelName: "b",
+          matchPattern: "(?i)^b$",
+          startDate: null,
+          inputPrice: null,
+          outputPrice: null,
+          totalPrice: null,
+          tokenizerId: null,
+          isLangfuseManaged: false,
+          createdAt: "2025-01-01T00:00:00Z",
+          prices: { input: { price: 2 } },
+          pricingTiers: [],
+        },
+      ],
+    });
+
+    expect(registry.calculateCost("a", { input: 1 })?.costDetails.total).toBe(
+      1,
+    );
+    expect(registry.calculateCost("B", { input: 1 })?.costDetails.total).toBe(
+      2,
+    );
+  });
+});
+
+describe("LangfuseSpanProcessor pricing", () => {
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+  let exporter: InMemorySpanExporter;
+
+  function setup(pricing: LangfusePricingConfig) {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+      pricing,
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  }
+
+  async function exportedSpan(): Promise<ReadableSpan> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans()[0];
+  }
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  it("fills cost details of generations at span end", async () => {
+    setup({
+      registry: new LangfuseModelPriceRegistry().register({
+        modelName: "llama-internal",
+        matchPattern: "^llama-3-70b$",
+        prices: { input: 0.5, output: 1 },
+        internal: true,
+      }),
+    });
+
+    startObservation(
+      "llm",
+      { model: "llama-3-70b", usageDetails: { input: 2, output: 3 } },
+      { asType: "generation" },
+    ).end();
+
+    const span = await exportedSpan();
+
+    expect(JSON.parse(span.attributes[COST_DETAILS] as string)).toEqual({
+      input: 1,
+      output: 3,
+      total: 4,
+    });
+    expect(JSON.parse(span.attributes[PRICING_METADATA] as string)).toEqual({
+      modelName: "llama-internal",
+      source: "internal",
+    });
+  });
+
+  it("keeps cost details set by the caller", async () => {
+    setup({});
+
+    startObservation(
+      "llm",
+      {
+        model: "gpt-4o",
+        usageDetails: { input: 2 },
+        costDetails: { total: 42 },
+      },
+      { asType: "generation" },
+    ).end();
+
+    const span = await exportedSpan();
+
+    expect(JSON.parse(span.attributes[COST_DETAILS] as string)).toEqual({
+      total: 42,
+    });
+    expect(span.attributes[PRICING_METADATA]).toBeUndefined();
+  });
+
+  it("syncs model definitions from the API before pricing spans", async () => {
+    vi.spyOn(LangfuseAPIClient.prototype, "models", "get").mockReturnValue({
+      list: async () => ({
+        data: [
+          {
+            id: "m1",
+            modelName: "project-model",
+            matchPattern: "^project-model$",
+            startDate: null,
+            inputPrice: 0.25,
+            outputPrice: null,
+            totalPrice: null,
+            tokenizerId: null,
+            isLangfuseManaged: false,
+            createdAt: "2025-01-01T00:00:00Z",
+            prices: {},
+            pricingTiers: [],
+          },
+        ],
+        meta: { page: 1, limit: 100, totalItems: 1, totalPages: 1 },
+      }),
+    } as any);
+
+    setup({ syncFromApi: true });
+
+    startObservation(
+      "llm",
+      { model: "project-model", usageDetails: { input: 4 } },
+      { asType: "generation" },
+    ).end();
+
+    const span = await exportedSpan();
+
+    expect(JSON.parse(span.attributes[COST_DETAILS] as string)).toEqual({
+      input: 1,
+      total: 1,
+    });
+  });
+});
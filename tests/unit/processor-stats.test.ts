@@ -0,0 +1,151 @@
+import { ExportResultCode } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+  type SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  LangfuseSpanProcessor,
+  registerLangfuseProcessorMetrics,
+  type LangfuseSpanProcessorParams,
+} from "@langfuse/otel";
+
+describe("LangfuseSpanProcessor stats", () => {
+  let provider: BasicTracerProvider | undefined;
+
+  afterEach(async () => {
+    await provider?.shutdown();
+    provider = undefined;
+  });
+
+  function setup(
+    params: Partial<LangfuseSpanProcessorParams> = {},
+    exporter: SpanExporter = new InMemorySpanExporter(),
+  ) {
+    const processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+      mediaUploadEnabled: false,
+      shouldExportSpan: ({ otelSpan }) => !otelSpan.name.startsWith("skip"),
+      ...params,
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+
+    return { processor, tracer: provider.getTracer("test") };
+  }
+
+  it("counts started, exported and dropped spans", async () => {
+    const { processor, tracer } = setup();
+    const dropped: string[] = [];
+    const removeListener = processor.on("spanDropped", ({ span, reason }) => {
+      dropped.push(`${span.name}:${reason}`);
+    });
+
+    tracer.startSpan("keep").end();
+    tracer.startSpan("skip-me").end();
+    await processor.forceFlush();
+    removeListener();
+    tracer.startSpan("skip-again").end();
+
+    const stats = processor.getStats();
+    expect(stats.spans).toEqual({
+      started: 3,
+      ended: 3,
+      exported: 1,
+      exportFailed: 0,
+      dropped: { filter: 2, filterError: 0, sampling: 0 },
+      pending: 0,
+    });
+    expect(dropped).toEqual(["skip-me:filter"]);
+    expect(stats.latency.processing.count).toBe(1);
+    expect(stats.latency.export.count).toBe(1);
+    expect(stats.latency.masking.bucketCounts.reduce((a, b) => a + b)).toBe(1);
+  });
+
+  it("counts mask failures and failed exports", async () => {
+    const failingExporter: SpanExporter = {
+      export: (_spans: ReadableSpan[], cb) =>
+        cb({ code: ExportResultCode.FAILED, error: new Error("unavailable") }),
+      shutdown: async () => undefined,
+    };
+    const { processor, tracer } = setup(
+      {
+        mask: () => {
+          throw new Error("mask failed");
+        },
+      },
+      failingExporter,
+    );
+    const exportEvents: unknown[] = [];
+    processor.on("spanExport", (event) => exportEvents.push(event));
+
+    const span = tracer.startSpan("keep");
+    span.setAttribute("langfuse.observation.input", "secret");
+    span.end();
+    await processor.forceFlush();
+
+    const stats = processor.getStats();
+    expect(stats.maskFailures).toBe(1);
+    expect(stats.spans.exported).toBe(0);
+    expect(stats.spans.exportFailed).toBe(1);
+    expect(exportEvents).toEqual([
+      { spanCount: 1, success: false, error: new Error("unavailable") },
+    ]);
+  });
+
+  it("publishes the stats as OpenTelemetry metrics", async () => {
+    const { processor, tracer } = setup();
+    const observed = new Map<string, number>();
+    const recorded: [number, unknown][] = [];
+    let callback: ((result: any) => void) | undefined;
+
+    const meter = {
+      createObservableCounter: (name: string) => ({ name }),
+      createObservableGauge: (name: string) => ({ name }),
+      createHistogram: () => ({
+        record: (value: number, attributes: unknown) =>
+          recorded.push([value, attributes]),
+      }),
+      addBatchObservableCallback: (cb: (result: any) => void) => {
+        callback = cb;
+      },
+      removeBatchObservableCallback: vi.fn(),
+    };
+
+    const unregister = registerLangfuseProcessorMetrics(processor, {
+      meter: meter as any,
+    });
+
+    tracer.startSpan("keep").end();
+    tracer.startSpan("skip-me").end();
+    await processor.forceFlush();
+
+    callback!({
+      observe: (
+        observable: { name: string },
+        value: number,
+        attributes?: Record<string, string>,
+      ) => {
+        const key = [observable.name, ...Object.values(attributes ?? {})];
+        observed.set(key.join(":"), value);
+      },
+    });
+
+    expect(observed.get("langfuse.sdk.spans.started")).toBe(2);
+    expect(observed.get("langfuse.sdk.spans.exported")).toBe(1);
+    expect(observed.get("langfuse.sdk.spans.dropped:filter")).toBe(1);
+    expect(observed.get("langfuse.sdk.media.uploads:failed")).toBe(0);
+    expect(recorded.map(([, attributes]) => attributes)).toEqual(
+      expect.arrayContaining([
+        { operation: "processing" },
+        { operation: "export" },
+      ]),
+    );
+
+    unregister();
+    expect(meter.removeBatchObservableCallback).toHaveBeenCalledOnce();
+  });
+});
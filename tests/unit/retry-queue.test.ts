@@ -0,0 +1,271 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { LangfuseClient } from "@langfuse/client";
+import {
+  configureGlobalLogger,
+  FileRetryQueueStorage,
+  LangfuseRetryQueue,
+  LogLevel,
+  resetGlobalLogger,
+} from "@langfuse/core";
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("LangfuseRetryQueue", () => {
+  let directory: string;
+  let queues: LangfuseRetryQueue[];
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "langfuse-queue-"));
+    queues = [];
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    resetGlobalLogger();
+    await Promise.all(queues.map((queue) => queue.shutdown()));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createQueue(
+    params: {
+      maxBytes?: number;
+      maxAttempts?: number;
+      storage?: FileRetryQueueStorage;
+    } = {},
+  ) {
+    const queue = new LangfuseRetryQueue({
+      directory,
+      baseDelay: 10,
+      maxDelay: 40,
+      ...params,
+    });
+    queues.push(queue);
+
+    return queue;
+  }
+
+  it("retries persisted batches with backoff until they are sent", async () => {
+    const queue = createQueue();
+    const sender = vi
+      .fn<(payload: string) => Promise<void>>()
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockResolvedValue(undefined);
+    queue.register("spans", sender);
+
+    await queue.enqueue("spans", "batch-1");
+    expect(await queue.getBacklog()).toEqual({ batches: 1, bytes: 7 });
+
+    await vi.waitFor(async () => {
+      expect(sender).toHaveBeenCalledTimes(3);
+      expect(await queue.getBacklog()).toEqual({ batches: 0, bytes: 0 });
+    });
+    expect(sender).toHaveBeenCalledWith("batch-1");
+  });
+
+  it("retries batches left over by a previous process", async () => {
+    await createQueue().enqueue("scores", "batch-1");
+    expect(await readdir(directory)).toHaveLength(1);
+
+    const sender = vi.fn(async () => {});
+    createQueue().register("scores", sender);
+
+    await vi.waitFor(() => expect(sender).toHaveBeenCalledWith("batch-1"));
+    await vi.waitFor(async () => expect(await readdir(directory)).toEqual([]));
+  });
+
+  it("retries batches enqueued in the same millisecond in enqueue order", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+
+    const queue = createQueue();
+    const batches = Array.from({ length: 12 }, (_, i) => `batch-${i}`);
+    for (const batch of batches) await queue.enqueue("spans", batch);
+
+    const sender = vi.fn(async (_payload: string) => {});
+    queue.register("spans", sender);
+    await queue.flush();
+
+    expect(sender.mock.calls.map(([payload]) => payload)).toEqual(batches);
+  });
+
+  it("drops the oldest batches when exceeding the disk budget", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    configureGlobalLogger({ level: LogLevel.WARN });
+
+    const queue = createQueue({ maxBytes: 10 });
+    await queue.enqueue("spans", "aaaa");
+    await queue.enqueue("spans", "bbbb");
+    await queue.enqueue("spans", "cccc");
+
+    const sender = vi.fn(async () => {});
+    queue.register("spans", sender);
+    await queue.flush();
+
+    expect(sender.mock.calls).toEqual([["bbbb"], ["cccc"]]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Retry queue backlog: 2 batches (8 bytes) waiting for export.",
+      ),
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Dropped 1 oldest batches."),
+    );
+  });
+
+  it("drops batches after the maximum number of attempts", async () => {
+    const queue = createQueue({ maxAttempts: 2 });
+    const sender = vi.fn(async () => {
+      throw new Error("unavailable");
+    });
+    queue.register("spans", sender);
+
+    await queue.enqueue("spans", "batch-1");
+    await queue.flush();
+    expect((await queue.getBacklog()).batches).toBe(1);
+    await queue.flush();
+
+    expect(sender).toHaveBeenCalledTimes(2);
+    expect((await queue.getBacklog()).batches).toBe(0);
+  });
+
+  it("keeps track of the backlog without re-reading it on each failure", async () => {
+    const storage = new FileRetryQueueStorage(directory);
+    const list = vi.spyOn(storage, "list");
+    const queue = createQueue({ storage, maxBytes: 10 });
+
+    await queue.enqueue("spans", "aaaa");
+    await queue.enqueue("spans", "bbbb");
+    await queue.enqueue("spans", "cccc");
+
+    expect(list).toHaveBeenCalledOnce();
+    expect(await queue.getBacklog()).toEqual({ batches: 2, bytes: 8 });
+  });
+
+  it("queues score batches that fail to be ingested", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValue(
+        new Response(JSON.stringify({ successes: [], errors: [] }), {
+          status: 207,
+          headers: { "Content-Type": "application/json" },
+        }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const queue = createQueue();
+    const langfuse = new LangfuseClient({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+      baseUrl: "https://langfuse.example.com",
+      retryQueue: queue,
+    });
+
+    langfuse.score.create({ name: "quality", value: 1, traceId: "trace-1" });
+    await langfuse.score.flush();
+    expect((await queue.getBacklog()).batches).toBe(1);
+
+    await queue.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect(url).toBe("https://langfuse.example.com/api/public/ingestion");
+    expect(JSON.parse(init.body as string).batch).toEqual([
+      expect.objectContaining({
+        type: "score-create",
+        body: expect.objectContaining({ name: "quality", traceId: "trace-1" }),
+      }),
+    ]);
+    expect((await queue.getBacklog()).batches).toBe(0);
+  });
+
+  it("drops score batches rejected with a client error", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ message: "Invalid credentials" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const queue = createQueue();
+    await queue.enqueue(
+      "scores",
+      JSON.stringify([{ id: "1", type: "score-create", body: {} }]),
+    );
+    const langfuse = new LangfuseClient({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+      baseUrl: "https://langfuse.example.com",
+      retryQueue: queue,
+    });
+
+    langfuse.score.create({ name: "quality", value: 1, traceId: "trace-1" });
+    await langfuse.score.flush();
+    await queue.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await queue.getBacklog()).toEqual({ batches: 0, bytes: 0 });
+
+    await langfuse.shutdown();
+  });
+
+  it("uploads queued span batches to the OTLP endpoint", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const queue = createQueue();
+    await queue.enqueue("spans", '{"resourceSpans":[]}');
+
+    const processor = new LangfuseSpanProcessor({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+      baseUrl: "https://langfuse.example.com",
+      retryQueue: queue,
+    });
+    await queue.flush();
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe("https://langfuse.example.com/api/public/otel/v1/traces");
+    expect(init.body).toBe('{"resourceSpans":[]}');
+    expect(init.headers).toMatchObject({
+      Authorization: `Basic ${btoa("pk-lf-test:sk-lf-test")}`,
+    });
+
+    await processor.shutdown();
+  });
+
+  it("drops queued span batches rejected with a client error", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn(
+      async () => new Response("invalid batch", { status: 400 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const queue = createQueue();
+    await queue.enqueue("spans", '{"resourceSpans":[{}]}');
+
+    const processor = new LangfuseSpanProcessor({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+      baseUrl: "https://langfuse.example.com",
+      retryQueue: queue,
+    });
+    await queue.flush();
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(await queue.getBacklog()).toEqual({ batches: 0, bytes: 0 });
+
+    await processor.shutdown();
+  });
+});
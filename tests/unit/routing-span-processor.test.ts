@@ -0,0 +1,126 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import { ROOT_CONTEXT, trace } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  LANGFUSE_PROJECT_ATTRIBUTE,
+  LangfuseRoutingSpanProcessor,
+  type LangfuseRoutingSpanProcessorParams,
+} from "@langfuse/otel";
+
+describe("LangfuseRoutingSpanProcessor", () => {
+  let provider: BasicTracerProvider | undefined;
+
+  afterEach(async () => {
+    await provider?.shutdown();
+    provider = undefined;
+  });
+
+  function setup(params: Partial<LangfuseRoutingSpanProcessorParams> = {}) {
+    const exporters = {
+      shop: new InMemorySpanExporter(),
+      support: new InMemorySpanExporter(),
+    };
+    const processor = new LangfuseRoutingSpanProcessor({
+      projects: {
+        shop: { exporter: exporters.shop },
+        support: { exporter: exporters.support },
+      },
+      defaults: { exportMode: "immediate", mediaUploadEnabled: false },
+      ...params,
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+
+    const exportedNames = async () => {
+      await processor.forceFlush();
+
+      return {
+        shop: exporters.shop.getFinishedSpans().map((span) => span.name),
+        support: exporters.support.getFinishedSpans().map((span) => span.name),
+      };
+    };
+
+    return {
+      processor,
+      tracer: provider.getTracer("langfuse-sdk"),
+      exportedNames,
+    };
+  }
+
+  it("routes all spans of a trace to the project of its first span", async () => {
+    const { tracer, exportedNames } = setup();
+
+    const root = tracer.startSpan("support-root", {
+      attributes: { [LANGFUSE_PROJECT_ATTRIBUTE]: "support" },
+    });
+    tracer
+      .startSpan("support-child", {}, trace.setSpan(ROOT_CONTEXT, root))
+      .end();
+    root.end();
+
+    tracer
+      .startSpan("shop-root", {
+        attributes: {
+          [`${LangfuseOtelSpanAttributes.TRACE_METADATA}.project`]: "shop",
+        },
+      })
+      .end();
+    tracer.startSpan("unrouted").end();
+
+    expect(await exportedNames()).toEqual({
+      shop: ["shop-root"],
+      support: ["support-child", "support-root"],
+    });
+  });
+
+  it("uses a custom resolver and falls back to the default project", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { tracer, exportedNames } = setup({
+      resolveProject: ({ attributes }) =>
+        attributes[LangfuseOtelSpanAttributes.ENVIRONMENT] === "support"
+          ? "support"
+          : "unknown",
+      defaultProject: "shop",
+    });
+
+    tracer
+      .startSpan("ticket", {
+        attributes: { [LangfuseOtelSpanAttributes.ENVIRONMENT]: "support" },
+      })
+      .end();
+    tracer.startSpan("order").end();
+    tracer.startSpan("cart").end();
+
+    expect(await exportedNames()).toEqual({
+      shop: ["order", "cart"],
+      support: ["ticket"],
+    });
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it("flushes and shuts down all project processors", async () => {
+    const { processor } = setup();
+    const shop = processor.getProjectProcessor("shop")!;
+    const support = processor.getProjectProcessor("support")!;
+    const shutdowns = [
+      vi.spyOn(shop, "shutdown"),
+      vi.spyOn(support, "shutdown"),
+    ];
+
+    await processor.shutdown();
+
+    for (const shutdown of shutdowns) expect(shutdown).toHaveBeenCalledOnce();
+  });
+
+  it("rejects an unknown default project", () => {
+    expect(
+      () =>
+        new LangfuseRoutingSpanProcessor({ projects: {}, defaultProject: "x" }),
+    ).toThrow("Default project 'x' is not configured in projects.");
+  });
+});
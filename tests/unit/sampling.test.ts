@@ -0,0 +1,220 @@
+import {
+  LANGFUSE_TRACER_NAME,
+  LangfuseOtelSpanAttributes,
+} from "@langfuse/core";
+import {
+  SpanStatusCode,
+  context,
+  trace,
+  type Tracer,
+} from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  LangfuseSpanProcessor,
+  isTraceIdSampled,
+  type LangfuseSamplingConfig,
+} from "@langfuse/otel";
+
+function setup(sampling?: LangfuseSamplingConfig) {
+  const exporter = new InMemorySpanExporter();
+  const processor = new LangfuseSpanProcessor({
+    exporter,
+    exportMode: "immediate",
+    sampling,
+  });
+  const provider = new BasicTracerProvider({ spanProcessors: [processor] });
+  const tracer = provider.getTracer(LANGFUSE_TRACER_NAME);
+
+  return { exporter, processor, provider, tracer };
+}
+
+function createTrace(
+  tracer: Tracer,
+  opts: { error?: boolean; tags?: string[]; durationMs?: number } = {},
+): string {
+  const start = Date.now();
+
+  const root = tracer.startSpan("root", { startTime: start });
+  if (opts.tags) {
+    root.setAttribute(LangfuseOtelSpanAttributes.TRACE_TAGS, opts.tags);
+  }
+
+  const child = tracer.startSpan(
+    "child",
+    { startTime: start },
+    trace.setSpan(context.active(), root),
+  );
+  if (opts.error) child.setStatus({ code: SpanStatusCode.ERROR });
+  child.end(start + 1);
+
+  root.end(start + (opts.durationMs ?? 2));
+
+  return root.spanContext().traceId;
+}
+
+describe("isTraceIdSampled", () => {
+  it("is deterministic per trace id", () => {
+    const traceId = "0123456789abcdef0123456789abcdef";
+
+    expect(isTraceIdSampled(traceId, 0.5)).toBe(isTraceIdSampled(traceId, 0.5));
+  });
+
+  it("handles the rate boundaries", () => {
+    const traceId = "ffffffffffffffffffffffffffffffff";
+
+    expect(isTraceIdSampled(traceId, 1)).toBe(true);
+    expect(isTraceIdSampled(traceId, 0)).toBe(false);
+  });
+
+  it("keeps roughly the configured fraction of trace ids", () => {
+    let kept = 0;
+    for (let i = 0; i < 2000; i++) {
+      const traceId = (i * 2654435761).toString(16).padStart(32, "0");
+      if (isTraceIdSampled(traceId, 0.25)) kept++;
+    }
+
+    expect(kept / 2000).toBeGreaterThan(0.15);
+    expect(kept / 2000).toBeLessThan(0.35);
+  });
+});
+
+describe("LangfuseSpanProcessor sampling", () => {
+  let provider: BasicTracerProvider | undefined;
+
+  afterEach(async () => {
+    await provider?.shutdown();
+    provider = undefined;
+  });
+
+  it("does not set sampling attributes without sampling", async () => {
+    const ctx = setup();
+    provider = ctx.provider;
+
+    createTrace(ctx.tracer);
+    await ctx.processor.forceFlush();
+
+    const spans = ctx.exporter.getFinishedSpans();
+    expect(spans).toHaveLength(2);
+    expect(
+      spans[0].attributes[LangfuseOtelSpanAttributes.SAMPLING_RATE],
+    ).toBeUndefined();
+  });
+
+  it("keeps or drops all spans of a trace together", async () => {
+    const ctx = setup({ sampleRate: 0.5 });
+    provider = ctx.provider;
+
+    const traceIds = Array.from({ length: 20 }, () => createTrace(ctx.tracer));
+    await ctx.processor.forceFlush();
+
+    const spans = ctx.exporter.getFinishedSpans();
+    for (const traceId of traceIds) {
+      const traceSpans = spans.filter(
+        (s) => s.spanContext().traceId === traceId,
+      );
+
+      expect(traceSpans).toHaveLength(isTraceIdSampled(traceId, 0.5) ? 2 : 0);
+    }
+
+    for (const span of spans) {
+      expect(span.attributes[LangfuseOtelSpanAttributes.SAMPLING_RATE]).toBe(
+        0.5,
+      );
+      expect(
+        span.attributes[LangfuseOtelSpanAttributes.SAMPLING_DECISION],
+      ).toBe("head");
+    }
+  });
+
+  it("keeps traces with errors when configured", async () => {
+    const ctx = setup({ sampleRate: 0, keep: { errors: true } });
+    provider = ctx.provider;
+
+    createTrace(ctx.tracer);
+    const errorTraceId = createTrace(ctx.tracer, { error: true });
+    await ctx.processor.forceFlush();
+
+    const spans = ctx.exporter.getFinishedSpans();
+    expect(spans).toHaveLength(2);
+    for (const span of spans) {
+      expect(span.spanContext().traceId).toBe(errorTraceId);
+      expect(span.attributes[LangfuseOtelSpanAttributes.SAMPLING_RATE]).toBe(1);
+      expect(
+        span.attributes[LangfuseOtelSpanAttributes.SAMPLING_DECISION],
+      ).toBe("error");
+    }
+  });
+
+  it("keeps slow traces when configured", async () => {
+    const ctx = setup({ sampleRate: 0, keep: { latencyThresholdMs: 100 } });
+    provider = ctx.provider;
+
+    createTrace(ctx.tracer, { durationMs: 10 });
+    const slowTraceId = createTrace(ctx.tracer, { durationMs: 500 });
+    await ctx.processor.forceFlush();
+
+    const spans = ctx.exporter.getFinishedSpans();
+    expect(spans).toHaveLength(2);
+    expect(spans.every((s) => s.spanContext().traceId === slowTraceId)).toBe(
+      true,
+    );
+    expect(
+      spans[0].attributes[LangfuseOtelSpanAttributes.SAMPLING_DECISION],
+    ).toBe("latency");
+  });
+
+  it("keeps tagged traces when configured", async () => {
+    const ctx = setup({ sampleRate: 0, keep: { tags: ["vip"] } });
+    provider = ctx.provider;
+
+    createTrace(ctx.tracer, { tags: ["other"] });
+    const taggedTraceId = createTrace(ctx.tracer, { tags: ["vip"] });
+    await ctx.processor.forceFlush();
+
+    const spans = ctx.exporter.getFinishedSpans();
+    expect(spans).toHaveLength(2);
+    expect(spans.every((s) => s.spanContext().traceId === taggedTraceId)).toBe(
+      true,
+    );
+    expect(
+      spans[0].attributes[LangfuseOtelSpanAttributes.SAMPLING_DECISION],
+    ).toBe("tag");
+  });
+
+  it("buffers spans until the root ends and releases them on flush", async () => {
+    const ctx = setup({ sampleRate: 0, keep: { errors: true } });
+    provider = ctx.provider;
+
+    const root = ctx.tracer.startSpan("root");
+    const child = ctx.tracer.startSpan(
+      "child",
+      {},
+      trace.setSpan(context.active(), root),
+    );
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+
+    expect(ctx.exporter.getFinishedSpans()).toHaveLength(0);
+
+    await ctx.processor.forceFlush();
+
+    const spans = ctx.exporter.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toBe("child");
+  });
+
+  it("falls back to no sampling for invalid rates", async () => {
+    const ctx = setup({ sampleRate: 2 });
+    provider = ctx.provider;
+
+    createTrace(ctx.tracer);
+    await ctx.processor.forceFlush();
+
+    expect(ctx.exporter.getFinishedSpans()).toHaveLength(2);
+  });
+});
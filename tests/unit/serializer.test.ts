@@ -0,0 +1,169 @@
+import {
+  createExperimentItemId,
+  registerSerializerTypeHandler,
+  resetSerializerTypeHandlers,
+  serializeValue,
+  toSerializableValue,
+} from "@langfuse/core";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createObservationAttributes } from "@langfuse/tracing";
+
+describe("serializeValue", () => {
+  afterEach(() => {
+    resetSerializerTypeHandlers();
+  });
+
+  it("returns strings as is and skips null and undefined", () => {
+    expect(serializeValue("text")).toBe("text");
+    expect(serializeValue(null)).toBeUndefined();
+    expect(serializeValue(undefined)).toBeUndefined();
+  });
+
+  it("replaces circular references", () => {
+    const value: Record<string, unknown> = { name: "root" };
+    value.self = value;
+
+    expect(toSerializableValue(value)).toEqual({
+      name: "root",
+      self: "<circular reference>",
+    });
+  });
+
+  it("keeps shared references that are not circular", () => {
+    const shared = { id: 1 };
+
+    expect(toSerializableValue({ a: shared, b: shared })).toEqual({
+      a: { id: 1 },
+      b: { id: 1 },
+    });
+  });
+
+  it("serializes built-in types", () => {
+    const date = new Date("2024-01-01T00:00:00.000Z");
+
+    expect(
+      toSerializableValue({
+        bigint: BigInt(2) ** BigInt(64),
+        map: new Map<string, unknown>([["a", 1]]),
+        objectKeyMap: new Map([[{ id: 1 }, "x"]]),
+        set: new Set([1, 2]),
+        date,
+        url: new URL("https://langfuse.com/docs"),
+        bytes: new Uint8Array([104, 105]),
+        buffer: Buffer.from("hi"),
+        floats: new Float32Array([0.5, 1]),
+      }),
+    ).toEqual({
+      bigint: "18446744073709551616",
+      map: { a: 1 },
+      objectKeyMap: [[{ id: 1 }, "x"]],
+      set: [1, 2],
+      date: "2024-01-01T00:00:00.000Z",
+      url: "https://langfuse.com/docs",
+      bytes: "aGk=",
+      buffer: "aGk=",
+      floats: [0.5, 1],
+    });
+  });
+
+  it("serializes errors with message, stack and cause", () => {
+    const cause = new Error("root cause");
+    const error = new TypeError("failed", { cause });
+
+    const serialized = toSerializableValue(error) as Record<string, any>;
+
+    expect(serialized.name).toBe("TypeError");
+    expect(serialized.message).toBe("failed");
+    expect(serialized.stack).toContain("failed");
+    expect(serialized.cause.message).toBe("root cause");
+  });
+
+  it("serializes class instances", () => {
+    class WithFields {
+      public id = 1;
+    }
+    class WithPrivateFields {
+      #secret = 1;
+
+      get secret() {
+        return this.#secret;
+      }
+    }
+
+    expect(toSerializableValue(new WithFields())).toEqual({ id: 1 });
+    expect(toSerializableValue(new WithPrivateFields())).toBe(
+      "<WithPrivateFields>",
+    );
+  });
+
+  it("applies registered type handlers, most recent first", () => {
+    class Message {
+      constructor(
+        public role: string,
+        public content: string,
+      ) {}
+    }
+
+    registerSerializerTypeHandler({
+      test: (value) => value instanceof Message,
+      serialize: (value: Message) => `${value.role}: ${value.content}`,
+    });
+    const unregister = registerSerializerTypeHandler({
+      test: (value) => value instanceof Message,
+      serialize: (value: Message) => ({
+        role: value.role,
+        content: value.content,
+        at: new Date(0),
+      }),
+    });
+
+    expect(toSerializableValue([new Message("user", "hi")])).toEqual([
+      { role: "user", content: "hi", at: "1970-01-01T00:00:00.000Z" },
+    ]);
+
+    unregister();
+
+    expect(toSerializableValue([new Message("user", "hi")])).toEqual([
+      "user: hi",
+    ]);
+  });
+
+  it("falls back to a marker when a type handler throws", () => {
+    registerSerializerTypeHandler({
+      test: () => true,
+      serialize: () => {
+        throw new Error("boom");
+      },
+    });
+
+    expect(serializeValue({ a: 1 })).toBe('"<failed to serialize>"');
+  });
+
+  it("does not apply type handlers to experiment item IDs", async () => {
+    const input = { question: "What is 2 + 2?", at: new Date(0) };
+    const itemId = await createExperimentItemId(input);
+
+    registerSerializerTypeHandler({
+      test: (value) => value instanceof Date,
+      serialize: () => "today",
+    });
+
+    expect(await createExperimentItemId(input)).toBe(itemId);
+  });
+
+  it("is used for observation attributes", () => {
+    const input: Record<string, unknown> = { ids: new Set([1]) };
+    input.self = input;
+
+    const attributes = createObservationAttributes("span", {
+      input,
+      metadata: { count: BigInt(1) },
+    });
+
+    expect(
+      JSON.parse(attributes["langfuse.observation.input"] as string),
+    ).toEqual({ ids: [1], self: "<circular reference>" });
+    expect(attributes["langfuse.observation.metadata.count"]).toBe('"1"');
+  });
+});
@@ -0,0 +1,151 @@
+import { setFlagsFromString } from "node:v8";
+import { runInNewContext } from "node:vm";
+
+import { LangfuseClient } from "@langfuse/client";
+import {
+  configureGlobalLogger,
+  installLangfuseShutdownHooks,
+  LogLevel,
+  registerLangfuseShutdownHandler,
+  resetGlobalLogger,
+  shutdownLangfuse,
+} from "@langfuse/core";
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+describe("shutdownLangfuse", () => {
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    resetGlobalLogger();
+    // Clear handlers registered by the test
+    await shutdownLangfuse({ timeoutMs: 0 });
+  });
+
+  it("runs all handlers within the time budget and reports the outcome", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    configureGlobalLogger({ level: LogLevel.WARN });
+
+    const calls: string[] = [];
+    const component = {};
+    registerLangfuseShutdownHandler(
+      "storage",
+      component,
+      () => {
+        calls.push("storage");
+      },
+      { runLast: true },
+    );
+    registerLangfuseShutdownHandler("exporter", component, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push("exporter");
+    });
+    registerLangfuseShutdownHandler("broken", component, () => {
+      throw new Error("unavailable");
+    });
+    registerLangfuseShutdownHandler(
+      "stuck",
+      component,
+      () => new Promise(() => {}),
+    );
+    const unregister = registerLangfuseShutdownHandler(
+      "removed",
+      component,
+      () => {
+        calls.push("removed");
+      },
+    );
+    unregister();
+
+    const report = await shutdownLangfuse({ timeoutMs: 100 });
+
+    expect(calls).toEqual(["exporter", "storage"]);
+    expect(report.completed).toEqual(["exporter", "storage"]);
+    expect(report.failed).toEqual([
+      { name: "broken", error: new Error("unavailable") },
+    ]);
+    expect(report.timedOut).toEqual(["stuck"]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Langfuse shutdown incomplete"),
+      { failed: ["broken"], timedOut: ["stuck"] },
+      new Error("unavailable"),
+    );
+
+    // Handlers run once
+    await expect(shutdownLangfuse()).resolves.toMatchObject({ completed: [] });
+  });
+
+  it("shuts down the registered SDK components", async () => {
+    const processor = new LangfuseSpanProcessor({
+      exporter: new InMemorySpanExporter(),
+    });
+    const shutdownSpy = vi.spyOn(processor, "shutdown");
+    const langfuse = new LangfuseClient({
+      publicKey: "pk-lf-test",
+      secretKey: "sk-lf-test",
+    });
+    await langfuse.shutdown();
+
+    const report = await shutdownLangfuse();
+
+    expect(report.completed).toEqual(["span processor"]);
+    expect(shutdownSpy).toHaveBeenCalledOnce();
+  });
+
+  it("does not keep registered components alive", async () => {
+    setFlagsFromString("--expose-gc");
+    const gc = runInNewContext("gc") as () => void;
+    const handler = vi.fn();
+
+    const register = () => {
+      const processor = new LangfuseSpanProcessor({
+        exporter: new InMemorySpanExporter(),
+      });
+      registerLangfuseShutdownHandler("leaked", processor, handler);
+
+      return new WeakRef(processor);
+    };
+    const ref = register();
+
+    await vi.waitFor(() => {
+      gc();
+      // Failed assertions on the processor itself would keep it alive
+      expect(ref.deref() === undefined).toBe(true);
+    });
+
+    const report = await shutdownLangfuse();
+
+    expect(report.completed).not.toContain("leaked");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("shuts down on termination signals", async () => {
+    const handler = vi.fn();
+    const exporter = {};
+    registerLangfuseShutdownHandler("exporter", exporter, handler);
+
+    // Listener of the application, which then handles the termination. Not
+    // SIGTERM, as the test runner terminates the worker on it
+    const appListener = vi.fn();
+    process.on("SIGUSR2", appListener);
+    const beforeExitListeners = process.listenerCount("beforeExit");
+    const uninstall = installLangfuseShutdownHooks({ signals: ["SIGUSR2"] });
+
+    try {
+      expect(process.listenerCount("beforeExit")).toBe(beforeExitListeners + 1);
+
+      process.emit("SIGUSR2", "SIGUSR2");
+      process.emit("SIGUSR2", "SIGUSR2");
+
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledOnce());
+      expect(appListener).toHaveBeenCalledTimes(2);
+      // The hooks are removed after the shutdown
+      await vi.waitFor(() =>
+        expect(process.listenerCount("beforeExit")).toBe(beforeExitListeners),
+      );
+    } finally {
+      uninstall();
+      process.off("SIGUSR2", appListener);
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { LangfuseSpanProcessor } from "@langfuse/otel";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  observe,
+  setLangfuseTracerProvider,
+  startActiveObservation,
+  startObservation,
+} from "@langfuse/tracing";
+
+const TRACE_ID = "0af7651916cd43dd8448eb211c80319c";
+const SPAN_ID = "b7ad6b7169203331";
+
+describe("span links", () => {
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  });
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  async function exportedSpan(name: string): Promise<ReadableSpan> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans().find((span) => span.name === name)!;
+  }
+
+  it("exports links passed when starting observations", async () => {
+    const previous = startObservation("attempt-1");
+    previous.end();
+
+    startObservation(
+      "attempt-2",
+      {},
+      {
+        links: [
+          {
+            traceId: previous.traceId,
+            spanId: previous.id,
+            attributes: { relation: "retry-of" },
+          },
+        ],
+      },
+    ).end();
+
+    const span = await exportedSpan("attempt-2");
+
+    expect(span.spanContext().traceId).not.toBe(previous.traceId);
+    expect(span.links).toEqual([
+      {
+        context: expect.objectContaining({
+          traceId: previous.traceId,
+          spanId: previous.id,
+        }),
+        attributes: { relation: "retry-of" },
+      },
+    ]);
+  });
+
+  it("accepts OpenTelemetry links in startActiveObservation and observe", async () => {
+    const link = {
+      context: { traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1 },
+    };
+
+    startActiveObservation("active", () => {}, { links: [link] });
+    observe(() => {}, { name: "observed", links: [link] })();
+
+    expect((await exportedSpan("active")).links[0].context.spanId).toBe(
+      SPAN_ID,
+    );
+    expect((await exportedSpan("observed")).links[0].context.traceId).toBe(
+      TRACE_ID,
+    );
+  });
+
+  it("adds links to started observations", async () => {
+    startObservation("handoff")
+      .addLink({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        attributes: { relation: "handoff-from" },
+      })
+      .end();
+
+    const span = await exportedSpan("handoff");
+
+    expect(span.links).toHaveLength(1);
+    expect(span.links[0].attributes).toEqual({ relation: "handoff-from" });
+  });
+
+  it("drops links with invalid ids", async () => {
+    const span = startObservation(
+      "invalid",
+      {},
+      { links: [{ traceId: "not-a-trace-id", spanId: SPAN_ID }] },
+    );
+    span.addLink({ traceId: TRACE_ID, spanId: "0".repeat(16) }).end();
+
+    expect((await exportedSpan("invalid")).links).toEqual([]);
+  });
+});
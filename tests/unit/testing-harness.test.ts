@@ -0,0 +1,165 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+
+import {
+  CapturedObservations,
+  LangfuseTestHarness,
+  langfuseMatchers,
+} from "@langfuse/testing";
+import { startObservation } from "@langfuse/tracing";
+
+describe("LangfuseTestHarness", () => {
+  const harness = new LangfuseTestHarness({
+    processor: {
+      mask: ({ data }) =>
+        typeof data === "string" ? data.replace(/sk-\w+/g, "***") : data,
+    },
+  });
+
+  beforeAll(() => harness.install());
+  afterEach(() => harness.reset());
+  afterAll(() => harness.shutdown());
+
+  function runAgent() {
+    const agent = startObservation(
+      "weather-agent",
+      { input: { question: "Weather in Berlin?" } },
+      { asType: "agent" },
+    );
+    agent.otelSpan.setAttributes({
+      [LangfuseOtelSpanAttributes.TRACE_USER_ID]: "user-1",
+      [`${LangfuseOtelSpanAttributes.TRACE_METADATA}.tenant`]: "acme",
+    });
+
+    agent
+      .startObservation(
+        "plan",
+        {
+          model: "gpt-4o",
+          modelParameters: { temperature: 0 },
+          usageDetails: { input: 12, output: 3 },
+          prompt: { name: "planner", version: 2, isFallback: false },
+          output: "call get-weather",
+          metadata: { attempt: 1, apiKey: "sk-secret" },
+        },
+        { asType: "generation" },
+      )
+      .end();
+
+    agent
+      .startObservation(
+        "get-weather",
+        { output: { temp: 21 } },
+        {
+          asType: "tool",
+        },
+      )
+      .end();
+
+    agent.score({ name: "helpfulness", value: 1 });
+    agent.update({ output: "21°C" }).end();
+
+    startObservation("unrelated").end();
+  }
+
+  it("decodes captured observations and reconstructs the tree", async () => {
+    runAgent();
+
+    const observations = await harness.getObservations();
+
+    expect(observations.length).toBe(4);
+    expect(observations.traceIds()).toHaveLength(2);
+    expect(observations.roots().map((root) => root.name)).toEqual([
+      "weather-agent",
+      "unrelated",
+    ]);
+
+    const agent = observations.get({ type: "agent" });
+    expect(agent.input).toEqual({ question: "Weather in Berlin?" });
+    expect(agent.output).toBe("21°C");
+    expect(agent.trace).toMatchObject({
+      userId: "user-1",
+      metadata: { tenant: "acme" },
+    });
+    expect(agent.children.map((child) => child.name)).toEqual([
+      "plan",
+      "get-weather",
+    ]);
+
+    const generation = observations.get({ name: /^pl/ });
+    expect(generation).toMatchObject({
+      type: "generation",
+      parentId: agent.id,
+      model: "gpt-4o",
+      modelParameters: { temperature: 0 },
+      usageDetails: { input: 12, output: 3 },
+      prompt: { name: "planner", version: 2 },
+      output: "call get-weather",
+      metadata: { attempt: 1, apiKey: "***" },
+    });
+
+    expect(observations.filter({ metadata: { attempt: 1 } })).toEqual([
+      generation,
+    ]);
+    expect(observations.find({ type: "event" })).toBeUndefined();
+    expect(() => observations.get({ type: "event" })).toThrow(
+      /No observation matches {"type":"event"}.*\n- agent "weather-agent"\n {2}- generation "plan"/,
+    );
+
+    expect(harness.scores).toEqual([
+      expect.objectContaining({
+        name: "helpfulness",
+        traceId: agent.traceId,
+        observationId: agent.id,
+      }),
+    ]);
+  });
+
+  it("discards captured observations and scores on reset", async () => {
+    runAgent();
+    await harness.reset();
+
+    expect((await harness.getObservations()).length).toBe(0);
+    expect(harness.scores).toEqual([]);
+  });
+
+  describe("langfuseMatchers", () => {
+    it("matches generations and child observations", async () => {
+      runAgent();
+      const observations = await harness.getObservations();
+      const agent = observations.get({ name: "weather-agent" });
+
+      const generation = langfuseMatchers.toHaveGeneration(observations, {
+        model: "gpt-4o",
+        usageDetails: { input: 12 },
+      });
+      expect(generation.pass).toBe(true);
+      expect(generation.message()).toContain("Expected no generation");
+
+      const missing = langfuseMatchers.toHaveGeneration(observations.all, {
+        model: "gpt-4o-mini",
+      });
+      expect(missing.pass).toBe(false);
+      expect(missing.message()).toContain(
+        'Expected a generation matching {"model":"gpt-4o-mini","type":"generation"}',
+      );
+
+      expect(
+        langfuseMatchers.toHaveChildObservation(agent, { type: "tool" }).pass,
+      ).toBe(true);
+      expect(
+        langfuseMatchers.toHaveObservation(new CapturedObservations([]), {})
+          .pass,
+      ).toBe(false);
+    });
+
+    it("can be registered with expect.extend", async () => {
+      expect.extend(langfuseMatchers);
+      runAgent();
+      const observations = await harness.getObservations();
+
+      (expect(observations) as any).toHaveObservation({ type: "tool" });
+      (expect(observations) as any).not.toHaveGeneration({ model: "claude" });
+    });
+  });
+});
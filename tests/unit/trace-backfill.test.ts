@@ -0,0 +1,157 @@
+import {
+  LANGFUSE_TRACER_NAME,
+  LangfuseOtelSpanAttributes,
+} from "@langfuse/core";
+import { context, trace } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  LangfuseSpanProcessor,
+  type LangfuseSpanProcessorParams,
+} from "@langfuse/otel";
+
+const Attr = LangfuseOtelSpanAttributes;
+
+describe("LangfuseSpanProcessor trace attribute backfill", () => {
+  let provider: BasicTracerProvider | undefined;
+
+  afterEach(async () => {
+    await provider?.shutdown();
+    provider = undefined;
+  });
+
+  function setup(params: Partial<LangfuseSpanProcessorParams> = {}) {
+    const exporter = new InMemorySpanExporter();
+    const processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+      mediaUploadEnabled: false,
+      backfillTraceAttributes: true,
+      ...params,
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+
+    return {
+      exporter,
+      processor,
+      tracer: provider.getTracer(LANGFUSE_TRACER_NAME),
+    };
+  }
+
+  function getAttributes(exporter: InMemorySpanExporter, name: string) {
+    return exporter.getFinishedSpans().find((span) => span.name === name)
+      ?.attributes;
+  }
+
+  it("copies attributes propagated later in the trace onto earlier spans", async () => {
+    const { exporter, processor, tracer } = setup();
+
+    const root = tracer.startSpan("root");
+    const rootContext = trace.setSpan(context.active(), root);
+
+    tracer.startSpan("authenticate", {}, rootContext).end();
+
+    // As set by propagateAttributes once the user is known
+    const answer = tracer.startSpan(
+      "answer",
+      {
+        startTime: Date.now() + 1,
+        attributes: {
+          [Attr.TRACE_USER_ID]: "user-1",
+          [Attr.TRACE_SESSION_ID]: "session-1",
+          [Attr.TRACE_TAGS]: ["chat"],
+        },
+      },
+      rootContext,
+    );
+    tracer
+      .startSpan(
+        "other-user",
+        {
+          startTime: Date.now() + 2,
+          attributes: { [Attr.TRACE_USER_ID]: "user-2" },
+        },
+        trace.setSpan(context.active(), answer),
+      )
+      .end();
+    answer.end();
+
+    // Held until the root ends, as flushing releases buffered traces
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    root.setAttribute(Attr.TRACE_TAGS, ["api"]);
+    root.end();
+    await processor.forceFlush();
+
+    expect(getAttributes(exporter, "authenticate")).toMatchObject({
+      [Attr.TRACE_USER_ID]: "user-1",
+      [Attr.TRACE_SESSION_ID]: "session-1",
+      [Attr.TRACE_TAGS]: ["api", "chat"],
+    });
+    expect(getAttributes(exporter, "root")?.[Attr.TRACE_USER_ID]).toBe(
+      "user-1",
+    );
+    // Values set on a span are kept
+    expect(getAttributes(exporter, "other-user")?.[Attr.TRACE_USER_ID]).toBe(
+      "user-2",
+    );
+  });
+
+  it("backfills late spans with the attributes remembered for the trace", async () => {
+    const { exporter, processor, tracer } = setup();
+
+    const root = tracer.startSpan("root", {
+      attributes: { [Attr.TRACE_USER_ID]: "user-1" },
+    });
+    const rootContext = trace.setSpan(context.active(), root);
+    root.end();
+
+    // Fire-and-forget work outliving the root span
+    tracer.startSpan("background", {}, rootContext).end();
+    await processor.forceFlush();
+
+    expect(getAttributes(exporter, "background")?.[Attr.TRACE_USER_ID]).toBe(
+      "user-1",
+    );
+  });
+
+  it("backfills before the export filter evaluates spans", async () => {
+    const { exporter, processor, tracer } = setup({
+      shouldExportSpan: ({ otelSpan }) =>
+        otelSpan.attributes[Attr.TRACE_USER_ID] === "user-1",
+    });
+
+    const root = tracer.startSpan("root");
+    tracer.startSpan("early", {}, trace.setSpan(context.active(), root)).end();
+    root.setAttribute(Attr.TRACE_USER_ID, "user-1");
+    root.end();
+    await processor.forceFlush();
+
+    expect(exporter.getFinishedSpans().map((span) => span.name)).toEqual([
+      "early",
+      "root",
+    ]);
+  });
+
+  it("backfills before tail sampling evaluates the trace", async () => {
+    const { exporter, processor, tracer } = setup({
+      sampling: { sampleRate: 0, keep: { tags: ["vip"] } },
+    });
+
+    const root = tracer.startSpan("root");
+    tracer.startSpan("early", {}, trace.setSpan(context.active(), root)).end();
+    root.setAttribute(Attr.TRACE_TAGS, ["vip"]);
+    root.end();
+    await processor.forceFlush();
+
+    expect(getAttributes(exporter, "early")).toMatchObject({
+      [Attr.TRACE_TAGS]: ["vip"],
+      [Attr.SAMPLING_DECISION]: "tag",
+    });
+  });
+});
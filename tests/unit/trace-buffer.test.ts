@@ -0,0 +1,76 @@
+import type { ReadableSpan, Span } from "@opentelemetry/sdk-trace-base";
+import { describe, expect, it, vi } from "vitest";
+
+// Internal helper (not part of the public API), imported directly by source path
+import { TraceBuffer } from "../../packages/otel/src/trace-buffer.js";
+
+function fakeSpan(traceId: string, spanId: string) {
+  return { spanContext: () => ({ traceId, spanId }) } as unknown as Span &
+    ReadableSpan;
+}
+
+describe("TraceBuffer", () => {
+  function createBuffer(params: { maxTraces?: number; timeoutMs?: number }) {
+    const onComplete = vi.fn();
+    const buffer = new TraceBuffer({
+      maxTraces: params.maxTraces ?? 10,
+      timeoutMs: params.timeoutMs ?? 60_000,
+      onComplete,
+    });
+
+    return { buffer, onComplete };
+  }
+
+  it("completes a trace once all its started spans have ended", () => {
+    const { buffer, onComplete } = createBuffer({});
+    const root = fakeSpan("trace-1", "root");
+    const child = fakeSpan("trace-1", "child");
+
+    buffer.trackStart(root);
+    buffer.trackStart(child);
+    buffer.trackEnd(child, true);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    buffer.trackEnd(root, true);
+
+    expect(onComplete).toHaveBeenCalledWith("trace-1", [child, root]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it("forgets traces whose spans never end after the timeout", async () => {
+    const { buffer, onComplete } = createBuffer({ timeoutMs: 10 });
+
+    buffer.trackStart(fakeSpan("trace-1", "never-ends"));
+    expect(buffer.size).toBe(1);
+
+    await vi.waitFor(() => expect(buffer.size).toBe(0));
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it("forgets open spans of traces completed by flush or eviction", () => {
+    const { buffer, onComplete } = createBuffer({ maxTraces: 1 });
+    const flushed = fakeSpan("trace-1", "flushed");
+    const evicted = fakeSpan("trace-2", "evicted");
+    const lateAfterFlush = fakeSpan("trace-1", "late");
+    const lateAfterEviction = fakeSpan("trace-2", "late");
+
+    buffer.trackStart(fakeSpan("trace-1", "open"));
+    buffer.trackEnd(flushed, true);
+    buffer.flush();
+
+    buffer.trackStart(fakeSpan("trace-2", "open"));
+    buffer.trackEnd(evicted, true);
+    buffer.trackStart(fakeSpan("trace-3", "open"));
+
+    // Not held back by spans of the completed traces that are still open
+    buffer.trackEnd(lateAfterFlush, true);
+    buffer.trackEnd(lateAfterEviction, true);
+
+    expect(onComplete.mock.calls).toEqual([
+      ["trace-1", [flushed]],
+      ["trace-2", [evicted]],
+      ["trace-1", [lateAfterFlush]],
+      ["trace-2", [lateAfterEviction]],
+    ]);
+  });
+});
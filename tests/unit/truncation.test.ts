@@ -0,0 +1,170 @@
+import { LangfuseOtelSpanAttributes } from "@langfuse/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  LangfuseSpanProcessor,
+  type LangfuseSpanProcessorParams,
+} from "@langfuse/otel";
+import { setLangfuseTracerProvider, startObservation } from "@langfuse/tracing";
+
+const INPUT = LangfuseOtelSpanAttributes.OBSERVATION_INPUT;
+const OUTPUT = LangfuseOtelSpanAttributes.OBSERVATION_OUTPUT;
+const TRUNCATION_METADATA = `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.truncation`;
+
+describe("LangfuseSpanProcessor truncation", () => {
+  let exporter: InMemorySpanExporter;
+  let provider: BasicTracerProvider;
+  let processor: LangfuseSpanProcessor;
+
+  function setup(truncation: LangfuseSpanProcessorParams["truncation"]) {
+    exporter = new InMemorySpanExporter();
+    processor = new LangfuseSpanProcessor({
+      exporter,
+      exportMode: "immediate",
+      truncation,
+    });
+    provider = new BasicTracerProvider({ spanProcessors: [processor] });
+    setLangfuseTracerProvider(provider);
+  }
+
+  async function exportedSpan(): Promise<ReadableSpan> {
+    await processor.forceFlush();
+
+    return exporter.getFinishedSpans()[0];
+  }
+
+  beforeEach(() => setup(undefined));
+
+  afterEach(async () => {
+    setLangfuseTracerProvider(null);
+    await provider.shutdown();
+  });
+
+  it("does not truncate without limits", async () => {
+    const input = { context: "x".repeat(10_000) };
+    startObservation("span", { input }).end();
+
+    const span = await exportedSpan();
+
+    expect(JSON.parse(span.attributes[INPUT] as string)).toEqual(input);
+    expect(span.attributes[TRUNCATION_METADATA]).toBeUndefined();
+  });
+
+  it("trims long strings while keeping JSON valid", async () => {
+    setup({ maxFieldSize: 200 });
+
+    startObservation("span", {
+      input: { query: "short", context: "x".repeat(10_000) },
+    }).end();
+
+    const span = await exportedSpan();
+    const input = span.attributes[INPUT] as string;
+    const parsed = JSON.parse(input);
+
+    expect(input.length).toBeLessThanOrEqual(200);
+    expect(parsed.query).toBe("short");
+    expect(parsed.context).toMatch(/^x+…truncated \d+ chars$/);
+  });
+
+  it("trims long arrays with an item marker", async () => {
+    setup({ maxFieldSize: 100 });
+
+    startObservation("span", {
+      output: Array.from({ length: 100 }, (_, i) => i),
+    }).end();
+
+    const span = await exportedSpan();
+    const parsed = JSON.parse(span.attributes[OUTPUT] as string);
+
+    expect(parsed[0]).toBe(0);
+    expect(parsed[parsed.length - 1]).toMatch(/^…truncated \d+ items$/);
+  });
+
+  it("truncates plain strings", async () => {
+    setup({ maxFieldSize: 50, unit: "characters" });
+
+    startObservation("span", { input: "y".repeat(1_000) }).end();
+
+    const span = await exportedSpan();
+    const input = span.attributes[INPUT] as string;
+
+    expect(input.length).toBeLessThanOrEqual(50);
+    expect(input).toMatch(/…truncated \d+ chars/);
+  });
+
+  it("measures bytes by default", async () => {
+    setup({ maxFieldSize: 100 });
+
+    startObservation("span", { input: "é".repeat(100) }).end();
+
+    const span = await exportedSpan();
+
+    expect(
+      new TextEncoder().encode(span.attributes[INPUT] as string).length,
+    ).toBeLessThanOrEqual(100);
+  });
+
+  it("shares the span budget across fields", async () => {
+    setup({ maxSpanSize: 1_000 });
+
+    startObservation("span", {
+      input: { a: "a".repeat(5_000) },
+      output: "small",
+      metadata: { big: "b".repeat(5_000) },
+    }).end();
+
+    const span = await exportedSpan();
+    const payloadSize = [
+      INPUT,
+      OUTPUT,
+      `${LangfuseOtelSpanAttributes.OBSERVATION_METADATA}.big`,
+    ].reduce((sum, key) => sum + (span.attributes[key] as string).length, 0);
+
+    expect(payloadSize).toBeLessThanOrEqual(1_000);
+    expect(span.attributes[OUTPUT]).toBe("small");
+  });
+
+  it("records original sizes as metadata", async () => {
+    setup({ maxFieldSize: 100 });
+
+    startObservation("span", { input: "z".repeat(1_000) }).end();
+
+    const span = await exportedSpan();
+    const record = JSON.parse(span.attributes[TRUNCATION_METADATA] as string);
+
+    expect(record.unit).toBe("bytes");
+    expect(record.fields[INPUT].originalSize).toBe(1_000);
+    expect(record.fields[INPUT].size).toBeLessThanOrEqual(100);
+  });
+
+  it("applies per-observation limits over processor limits", async () => {
+    setup({ maxFieldSize: 100 });
+
+    startObservation(
+      "span",
+      { input: "z".repeat(1_000) },
+      { truncation: { maxFieldSize: 10_000 } },
+    ).end();
+
+    const span = await exportedSpan();
+
+    expect(span.attributes[INPUT]).toBe("z".repeat(1_000));
+  });
+
+  it("applies per-observation limits without processor limits", async () => {
+    startObservation(
+      "span",
+      { input: "z".repeat(1_000) },
+      { truncation: { maxFieldSize: 100 } },
+    ).end();
+
+    const span = await exportedSpan();
+
+    expect((span.attributes[INPUT] as string).length).toBeLessThanOrEqual(100);
+  });
+});
@@ -7,6 +7,7 @@ module.exports = {
     "./packages/langchain",
     "./packages/openai",
     "./packages/otel",
+    "./packages/testing",
     "./packages/tracing",
     "./packages/vercel-ai-sdk",
   ],
@@ -33,6 +33,10 @@ export default defineWorkspace([
           "./packages/openai/src/index.ts",
           import.meta.url,
         ).pathname,
+        "@langfuse/testing": new URL(
+          "./packages/testing/src/index.ts",
+          import.meta.url,
+        ).pathname,
         "@langfuse/core": new URL(
           "./packages/core/src/index.ts",
           import.meta.url,
@@ -73,6 +77,10 @@ export default defineWorkspace([
           "./packages/openai/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@langfuse/testing": new URL(
+          "./packages/testing/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
         "@langfuse/vercel-ai-sdk": new URL(
           "./packages/vercel-ai-sdk/dist/index.mjs",
           import.meta.url,
@@ -118,6 +126,10 @@ export default defineWorkspace([
           "./packages/openai/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@langfuse/testing": new URL(
+          "./packages/testing/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
         "@langfuse/vercel-ai-sdk": new URL(
           "./packages/vercel-ai-sdk/dist/index.mjs",
           import.meta.url,